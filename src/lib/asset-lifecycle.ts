@@ -0,0 +1,123 @@
+/* ============================================
+   TENAXIS - Asset Lifecycle
+   Allowed status transitions for assets
+   ============================================ */
+
+import { ASSET_STATUSES } from './constants';
+import type { AssetStatus } from '@/types';
+
+/**
+ * Statuses an asset can be created with
+ */
+export const INITIAL_ASSET_STATUSES: AssetStatus[] = ['available', 'in_use', 'under_maintenance'];
+
+/**
+ * Statuses an asset only leaves through an admin reversal
+ */
+export const TERMINAL_ASSET_STATUSES: AssetStatus[] = ['disposed', 'lost'];
+
+/**
+ * Transitions any user with update access may make
+ */
+export const ASSET_STATUS_TRANSITIONS: Record<AssetStatus, AssetStatus[]> = {
+  available: ['reserved', 'in_use', 'under_maintenance', 'lost', 'disposed'],
+  reserved: ['available', 'in_use', 'under_maintenance', 'lost'],
+  in_use: ['available', 'under_maintenance', 'lost', 'disposed'],
+  under_maintenance: ['available', 'in_use', 'lost', 'disposed'],
+  lost: [],
+  disposed: [],
+};
+
+/**
+ * Additional transitions reserved for admins: bringing back a found or
+ * wrongly disposed asset, and writing off a lost one
+ */
+export const ADMIN_STATUS_TRANSITIONS: Record<AssetStatus, AssetStatus[]> = {
+  available: [],
+  reserved: [],
+  in_use: [],
+  under_maintenance: [],
+  lost: ['available', 'disposed'],
+  disposed: ['available'],
+};
+
+// ==========================================
+// ERRORS
+// ==========================================
+
+/**
+ * Raised when a status change is not allowed by the lifecycle
+ */
+export class AssetTransitionError extends Error {
+  readonly from: AssetStatus;
+  readonly to: AssetStatus;
+  readonly requiresAdmin: boolean;
+
+  constructor(from: AssetStatus, to: AssetStatus, requiresAdmin: boolean = false) {
+    super(
+      requiresAdmin
+        ? `Only an admin can change an asset from ${from} to ${to}`
+        : `Asset cannot change from ${from} to ${to}`
+    );
+    this.name = 'AssetTransitionError';
+    this.from = from;
+    this.to = to;
+    this.requiresAdmin = requiresAdmin;
+  }
+}
+
+// ==========================================
+// TRANSITIONS
+// ==========================================
+
+/**
+ * Check whether a transition needs admin rights
+ */
+export function isAdminTransition(from: AssetStatus, to: AssetStatus): boolean {
+  return ADMIN_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Check whether an asset may move between two statuses. Staying in the
+ * same status is always allowed.
+ */
+export function canTransition(
+  from: AssetStatus,
+  to: AssetStatus,
+  isAdmin: boolean = false
+): boolean {
+  if (from === to) return true;
+  if (ASSET_STATUS_TRANSITIONS[from].includes(to)) return true;
+  return isAdmin && isAdminTransition(from, to);
+}
+
+/**
+ * Throw an AssetTransitionError if a transition is not allowed
+ */
+export function assertTransition(
+  from: AssetStatus,
+  to: AssetStatus,
+  isAdmin: boolean = false
+): void {
+  if (!canTransition(from, to, isAdmin)) {
+    throw new AssetTransitionError(from, to, isAdminTransition(from, to));
+  }
+}
+
+/**
+ * Get the statuses an asset can move to next, excluding its current one
+ */
+export function getAllowedTransitions(from: AssetStatus, isAdmin: boolean = false): AssetStatus[] {
+  return isAdmin
+    ? [...ASSET_STATUS_TRANSITIONS[from], ...ADMIN_STATUS_TRANSITIONS[from]]
+    : [...ASSET_STATUS_TRANSITIONS[from]];
+}
+
+/**
+ * Describe a transition for the asset event log
+ */
+export function describeTransition(from: AssetStatus, to: AssetStatus): string {
+  const label = (status: AssetStatus) =>
+    ASSET_STATUSES.find(s => s.value === status)?.label || status;
+  return `Status changed from ${label(from)} to ${label(to)}`;
+}
@@ -0,0 +1,145 @@
+/* ============================================
+   TENAXIS - Technician Assignment
+   Choosing the technician a maintenance ticket goes to, and why
+   ============================================ */
+
+import { PRIORITY_WORKLOAD_WEIGHTS } from './constants';
+import type {
+  AssignmentCandidate,
+  AssignmentDecision,
+  MaintenanceTicket,
+  OfficeAssignmentSettings,
+  User,
+} from '@/types';
+
+export interface TechnicianWorkload {
+  user: Pick<User, 'id' | 'display_name' | 'skills'>;
+  has_office_access: boolean;
+  open_tickets: Pick<MaintenanceTicket, 'priority'>[];
+}
+
+/**
+ * Tidy skill tags into trimmed, lower-case, unique values
+ */
+export function normalizeSkills(skills: string[]): string[] {
+  return [...new Set(skills.map((s) => s.trim().toLowerCase()).filter(Boolean))];
+}
+
+/**
+ * Open tickets weighted by priority, so one critical ticket outweighs a few low ones
+ */
+export function getWorkload(tickets: Pick<MaintenanceTicket, 'priority'>[]): number {
+  return tickets.reduce((sum, t) => sum + PRIORITY_WORKLOAD_WEIGHTS[t.priority], 0);
+}
+
+const byName = (a: TechnicianWorkload, b: TechnicianWorkload) =>
+  a.user.display_name.localeCompare(b.user.display_name) || a.user.id.localeCompare(b.user.id);
+
+const describeLoad = (candidate: AssignmentCandidate) =>
+  `${candidate.open_tickets} open ticket(s), workload ${candidate.workload}`;
+
+/**
+ * Choose a technician for a ticket. Only technicians with access to the
+ * ticket's office, every skill it requires and room under the office's
+ * open ticket limit are eligible; critical tickets ignore the limit. Of
+ * those, the office strategy picks either the lightest workload or the
+ * next in rotation. Critical tickets always go to the lightest workload.
+ */
+export function chooseTechnician(
+  ticket: Pick<MaintenanceTicket, 'priority' | 'required_skills'>,
+  technicians: TechnicianWorkload[],
+  settings: OfficeAssignmentSettings
+): AssignmentDecision {
+  const required = normalizeSkills(ticket.required_skills ?? []);
+  const limit = settings.max_open_tickets;
+  const isCritical = ticket.priority === 'critical';
+
+  const candidates = new Map<string, AssignmentCandidate>();
+  for (const technician of technicians) {
+    const skills = new Set(normalizeSkills(technician.user.skills ?? []));
+    const missing = required.filter((s) => !skills.has(s));
+    const open = technician.open_tickets.length;
+    const atLimit = limit !== undefined && open >= limit;
+
+    let reason = '';
+    if (!technician.has_office_access) {
+      reason = 'No access to this office';
+    } else if (missing.length > 0) {
+      reason = `Missing ${missing.join(', ')}`;
+    } else if (atLimit && !isCritical) {
+      reason = `At the limit of ${limit} open tickets`;
+    }
+
+    candidates.set(technician.user.id, {
+      user_id: technician.user.id,
+      open_tickets: open,
+      workload: getWorkload(technician.open_tickets),
+      missing_skills: missing,
+      eligible: !reason,
+      reason,
+    });
+  }
+
+  const get = (technician: TechnicianWorkload) => candidates.get(technician.user.id)!;
+  const eligible = technicians.filter((t) => get(t).eligible);
+  const strategy = settings.strategy;
+
+  if (eligible.length === 0) {
+    let explanation = `Every technician who could take it is at the limit of ${limit} open tickets`;
+    if (!technicians.some((t) => t.has_office_access)) {
+      explanation = 'No technician has access to this office';
+    } else if (!technicians.some((t) => t.has_office_access && !get(t).missing_skills.length)) {
+      explanation = `No technician with access to this office has ${required.join(', ')}`;
+    }
+    return { technician_id: null, strategy, explanation, candidates: [...candidates.values()] };
+  }
+
+  const byLoad = [...eligible].sort(
+    (a, b) =>
+      get(a).workload - get(b).workload || get(a).open_tickets - get(b).open_tickets || byName(a, b)
+  );
+
+  let chosen: TechnicianWorkload;
+  let why: string;
+  if (strategy === 'round_robin' && !isCritical) {
+    // Rotate through every technician in name order, so the turn passes on
+    // even when the last one chosen is not eligible this time
+    const rotation = [...technicians].sort(byName);
+    const last = rotation.findIndex((t) => t.user.id === settings.last_assigned_to);
+    const ordered = [...rotation.slice(last + 1), ...rotation.slice(0, last + 1)];
+    chosen = ordered.find((t) => get(t).eligible)!;
+    const previous = last >= 0 ? rotation[last]!.user.display_name : null;
+    why = previous ? `next in rotation after ${previous}` : 'first in rotation';
+  } else {
+    chosen = byLoad[0]!;
+    why =
+      eligible.length === 1
+        ? 'the only eligible technician'
+        : `lightest workload of ${eligible.length} eligible technicians`;
+    if (strategy === 'round_robin') why += ', as critical tickets skip the rotation';
+  }
+
+  const chosenCandidate = get(chosen);
+  const details = [describeLoad(chosenCandidate)];
+  if (required.length > 0) details.push(`has ${required.join(', ')}`);
+  if (limit !== undefined && chosenCandidate.open_tickets >= limit) {
+    details.push(`over the limit of ${limit}, allowed for critical tickets`);
+  }
+  chosenCandidate.reason = `Chosen: ${why}`;
+
+  for (const technician of eligible) {
+    const candidate = get(technician);
+    if (technician !== chosen) candidate.reason = `Eligible, ${describeLoad(candidate)}`;
+  }
+
+  return {
+    technician_id: chosen.user.id,
+    strategy,
+    explanation: `${chosen.user.display_name}: ${why} (${details.join('; ')})`,
+    candidates: [
+      chosenCandidate,
+      ...byLoad.filter((t) => t !== chosen).map(get),
+      ...technicians.filter((t) => !get(t).eligible).map(get),
+    ],
+  };
+}
@@ -0,0 +1,161 @@
+/* ============================================
+   TENAXIS - Attachments
+   Storage paths, validation and thumbnails for asset and ticket files
+   ============================================ */
+
+import type { AssetDocument, AssetDocumentCategory } from '@/types';
+
+// Must stay below the upload limit in storage.rules
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+export const THUMBNAIL_SIZE = 320;
+
+const ALLOWED_TYPES = [
+  'application/pdf',
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/gif',
+  'text/plain',
+  'text/csv',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+];
+
+// ==========================================
+// VALIDATION
+// ==========================================
+
+/**
+ * Check a file before upload. Returns an error message or null.
+ */
+export function validateAttachment(
+  file: Pick<File, 'name' | 'size' | 'type'>,
+  category: AssetDocumentCategory
+): string | null {
+  if (file.size === 0) {
+    return `${file.name} is empty`;
+  }
+  if (file.size >= MAX_ATTACHMENT_SIZE) {
+    return `${file.name} exceeds the ${formatFileSize(MAX_ATTACHMENT_SIZE)} limit`;
+  }
+  if (!ALLOWED_TYPES.includes(file.type)) {
+    return `${file.name} has an unsupported file type`;
+  }
+  if (category === 'photo' && !isImage(file.type)) {
+    return 'Photos must be images';
+  }
+  return null;
+}
+
+/**
+ * Check whether a content type is an image
+ */
+export function isImage(contentType: string): boolean {
+  return contentType.startsWith('image/');
+}
+
+// ==========================================
+// PATHS
+// ==========================================
+
+/**
+ * Make a file name safe for use in a storage path
+ */
+export function sanitizeFileName(name: string): string {
+  const cleaned = name
+    .normalize('NFKD')
+    .replace(/[^\w.-]+/g, '_')
+    .replace(/_+/g, '_')
+    .replace(/^[_.]+/, '');
+  return cleaned.slice(-100) || 'file';
+}
+
+/**
+ * Storage folder for one version of an asset document. All paths live
+ * under tenants/{tenantId}/ so storage.rules can scope access.
+ */
+export function getAttachmentFolder(
+  tenantId: string,
+  assetId: string,
+  documentId: string,
+  version: number
+): string {
+  return `tenants/${tenantId}/assets/${assetId}/documents/${documentId}/v${version}`;
+}
+
+/**
+ * Storage folder for the photo taken for a maintenance checklist item
+ */
+export function getChecklistPhotoFolder(tenantId: string, ticketId: string, itemId: string): string {
+  return `tenants/${tenantId}/maintenance/${ticketId}/checklist/${itemId}`;
+}
+
+/**
+ * Storage paths of every file held by a document, across all versions
+ */
+export function getDocumentStoragePaths(document: AssetDocument): string[] {
+  return [document, ...(document.previous_versions || [])].flatMap((v) =>
+    v.thumbnail_path ? [v.storage_path, v.thumbnail_path] : [v.storage_path]
+  );
+}
+
+/**
+ * Derive Asset.images from the current photo documents
+ */
+export function getPhotoUrls(documents: AssetDocument[]): string[] {
+  return documents.filter((d) => d.category === 'photo').map((d) => d.url);
+}
+
+// ==========================================
+// THUMBNAILS
+// ==========================================
+
+/**
+ * Render a JPEG thumbnail for an image file. Returns null for non-images
+ * or formats the browser cannot decode.
+ */
+export async function createImageThumbnail(
+  file: Blob,
+  maxSize: number = THUMBNAIL_SIZE
+): Promise<Blob | null> {
+  if (!isImage(file.type) || typeof createImageBitmap === 'undefined') {
+    return null;
+  }
+
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+
+    const context = canvas.getContext('2d');
+    if (!context) {
+      bitmap.close();
+      return null;
+    }
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+
+    return await new Promise((resolve) => canvas.toBlob(resolve, 'image/jpeg', 0.8));
+  } catch {
+    return null;
+  }
+}
+
+// ==========================================
+// DISPLAY
+// ==========================================
+
+/**
+ * Format a byte count for display
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,89 @@
+/* ============================================
+   TENAXIS - Barcode Encoding
+   QR module matrices and Code128 bar patterns
+   ============================================ */
+
+import QRCode from 'qrcode';
+
+// ==========================================
+// CODE128
+// ==========================================
+
+// Bar/space widths for symbol values 0-106 (103-105 are start codes, 106 is stop)
+const CODE128_PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312',
+  '132212', '221213', '221312', '231212', '112232', '122132', '122231', '113222',
+  '123122', '123221', '223211', '221132', '221231', '213212', '223112', '312131',
+  '311222', '321122', '321221', '312212', '322112', '322211', '212123', '212321',
+  '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121',
+  '313121', '211331', '231131', '213113', '213311', '213131', '311123', '311321',
+  '331121', '312113', '312311', '332111', '314111', '221411', '431111', '111224',
+  '111422', '121124', '121421', '141122', '141221', '112214', '112412', '122114',
+  '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112',
+  '421211', '212141', '214121', '412121', '111143', '111341', '131141', '114113',
+  '114311', '411113', '411311', '113141', '114131', '311141', '411131', '211412',
+  '211214', '211232', '2331112',
+];
+
+const CODE128_START_B = 104;
+const CODE128_STOP = 106;
+
+/**
+ * Encode a value as Code128 (code set B). Returns alternating bar/space
+ * widths in modules, starting with a bar. Quiet zones are not included.
+ */
+export function encodeCode128(value: string): number[] {
+  const symbols: number[] = [CODE128_START_B];
+
+  for (const char of value) {
+    const code = char.charCodeAt(0);
+    if (code < 32 || code > 127) {
+      throw new Error(`Character "${char}" cannot be encoded in Code128 set B`);
+    }
+    symbols.push(code - 32);
+  }
+
+  const checksum = symbols.reduce(
+    (sum, symbol, index) => sum + symbol * (index === 0 ? 1 : index),
+    0
+  ) % 103;
+  symbols.push(checksum, CODE128_STOP);
+
+  return symbols.flatMap(symbol =>
+    CODE128_PATTERNS[symbol]!.split('').map(Number)
+  );
+}
+
+/**
+ * Total width of a Code128 pattern in modules
+ */
+export function getCode128Width(pattern: number[]): number {
+  return pattern.reduce((sum, width) => sum + width, 0);
+}
+
+// ==========================================
+// QR CODE
+// ==========================================
+
+/**
+ * Encode a value as a QR module matrix (true = dark module)
+ */
+export function encodeQr(
+  value: string,
+  errorCorrectionLevel: 'L' | 'M' | 'Q' | 'H' = 'M'
+): boolean[][] {
+  const { modules } = QRCode.create(value, { errorCorrectionLevel });
+  const matrix: boolean[][] = [];
+
+  for (let row = 0; row < modules.size; row++) {
+    const cells: boolean[] = [];
+    for (let col = 0; col < modules.size; col++) {
+      cells.push(modules.get(row, col) === 1);
+    }
+    matrix.push(cells);
+  }
+
+  return matrix;
+}
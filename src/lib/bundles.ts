@@ -0,0 +1,39 @@
+/* ============================================
+   TENAXIS - Asset Bundles
+   Parent/child composition of assets
+   ============================================ */
+
+import type { Asset, AssetTreeNode } from '@/types';
+
+/**
+ * Build the component tree below a root asset. Assets whose parent is not
+ * in the set are ignored.
+ */
+export function buildAssetTree(root: Asset, components: Asset[]): AssetTreeNode {
+  const byParent = new Map<string, Asset[]>();
+  for (const component of components) {
+    if (!component.parent_asset_id) continue;
+    const siblings = byParent.get(component.parent_asset_id) || [];
+    siblings.push(component);
+    byParent.set(component.parent_asset_id, siblings);
+  }
+
+  const seen = new Set<string>();
+  const build = (asset: Asset): AssetTreeNode => {
+    seen.add(asset.id);
+    const children = (byParent.get(asset.id) || [])
+      .filter(c => !seen.has(c.id))
+      .sort((a, b) => a.asset_tag.localeCompare(b.asset_tag))
+      .map(build);
+    return { asset, children };
+  };
+
+  return build(root);
+}
+
+/**
+ * Flatten a tree into its assets, parents before children
+ */
+export function flattenAssetTree(node: AssetTreeNode): Asset[] {
+  return [node.asset, ...node.children.flatMap(flattenAssetTree)];
+}
@@ -0,0 +1,160 @@
+/* ============================================
+   TENAXIS - Checklists
+   Checklist templates and the results recorded against ticket checklists
+   ============================================ */
+
+import { generateId } from './utils';
+import type {
+  ChecklistEntry,
+  ChecklistResult,
+  ChecklistTemplate,
+  ChecklistTemplateItem,
+  MaintenanceChecklistItem,
+  MaintenanceType,
+} from '@/types';
+
+// ==========================================
+// TEMPLATES
+// ==========================================
+
+/**
+ * Throw unless every item is labelled and reading thresholds are in order
+ */
+export function assertValidTemplateItems(items: ChecklistTemplateItem[]): void {
+  if (items.length === 0) {
+    throw new Error('Add at least one checklist item');
+  }
+  for (const item of items) {
+    if (!item.label.trim()) {
+      throw new Error('Label every checklist item');
+    }
+    if (item.kind !== 'reading') continue;
+    if (item.min !== undefined && item.max !== undefined && item.min > item.max) {
+      throw new Error(`The lowest passing reading of ${item.label} is above the highest`);
+    }
+  }
+}
+
+/**
+ * Active templates that apply to a new ticket, by its type or its asset's category
+ */
+export function findChecklistTemplates(
+  templates: ChecklistTemplate[],
+  type: MaintenanceType,
+  categoryId?: string
+): ChecklistTemplate[] {
+  return templates.filter(
+    (t) =>
+      t.status === 'active' &&
+      (t.ticket_types.includes(type) || (!!categoryId && t.category_ids.includes(categoryId)))
+  );
+}
+
+/**
+ * Ticket checklist items for a set of templates, in template order
+ */
+export function buildChecklist(templates: ChecklistTemplate[]): MaintenanceChecklistItem[] {
+  return templates.flatMap((template) =>
+    template.items.map((item) => ({
+      id: generateId(),
+      label: item.label,
+      kind: item.kind,
+      required: item.required,
+      ...(item.unit && { unit: item.unit }),
+      ...(item.min !== undefined && { min: item.min }),
+      ...(item.max !== undefined && { max: item.max }),
+      ...(template.raise_corrective && item.kind !== 'photo' && { raise_on_fail: true }),
+      template_id: template.id,
+      done: false,
+    }))
+  );
+}
+
+// ==========================================
+// RESULTS
+// ==========================================
+
+/**
+ * Pass a reading that falls within the item's thresholds
+ */
+export function getReadingResult(
+  item: Pick<MaintenanceChecklistItem, 'min' | 'max'>,
+  reading: number
+): ChecklistResult {
+  if (item.min !== undefined && reading < item.min) return 'fail';
+  if (item.max !== undefined && reading > item.max) return 'fail';
+  return 'pass';
+}
+
+/**
+ * An item as set up on the ticket, with nothing recorded against it
+ */
+function getBlankItem(item: MaintenanceChecklistItem): MaintenanceChecklistItem {
+  return {
+    id: item.id,
+    label: item.label,
+    ...(item.kind && { kind: item.kind }),
+    ...(item.required && { required: true }),
+    ...(item.unit && { unit: item.unit }),
+    ...(item.min !== undefined && { min: item.min }),
+    ...(item.max !== undefined && { max: item.max }),
+    ...(item.raise_on_fail && { raise_on_fail: true }),
+    ...(item.template_id && { template_id: item.template_id }),
+    done: false,
+  };
+}
+
+/**
+ * Apply what a technician recorded to an item, or clear it when the entry
+ * is null. Photo items need their photo uploaded before they can be filled in.
+ */
+export function fillChecklistItem(
+  item: MaintenanceChecklistItem,
+  entry: ChecklistEntry | null
+): MaintenanceChecklistItem {
+  const blank = getBlankItem(item);
+  if (!entry) return blank;
+
+  const notes = entry.notes?.trim();
+  const filled: MaintenanceChecklistItem = { ...blank, done: true, ...(notes && { notes }) };
+
+  if (item.kind === 'pass_fail') {
+    if (!entry.result) {
+      throw new Error(`Record whether ${item.label} passed or failed`);
+    }
+    return { ...filled, result: entry.result };
+  }
+  if (item.kind === 'reading') {
+    if (entry.reading === undefined || !Number.isFinite(entry.reading)) {
+      throw new Error(`Enter the reading for ${item.label}`);
+    }
+    return { ...filled, reading: entry.reading, result: getReadingResult(item, entry.reading) };
+  }
+  if (item.kind === 'photo') {
+    if (!item.photo_url || !item.photo_path) {
+      throw new Error(`Upload a photo for ${item.label}`);
+    }
+    return { ...filled, photo_url: item.photo_url, photo_path: item.photo_path };
+  }
+  return filled;
+}
+
+/**
+ * Required items still to be filled in before a ticket can be completed
+ */
+export function getUnfilledItems(
+  checklist: MaintenanceChecklistItem[]
+): MaintenanceChecklistItem[] {
+  return checklist.filter((item) => item.required && !item.done);
+}
+
+/**
+ * Failed items that should raise a corrective ticket and have not yet
+ */
+export function getCorrectiveItems(
+  checklist: MaintenanceChecklistItem[]
+): MaintenanceChecklistItem[] {
+  return checklist.filter(
+    (item) => item.result === 'fail' && item.raise_on_fail && !item.corrective_ticket_id
+  );
+}
@@ -32,6 +32,121 @@ export const ASSET_CONDITIONS = [
   { value: 'poor', label: 'Poor', color: 'red' },
 ] as const;
 
+export const DEPRECIATION_METHODS = [
+  { value: 'straight_line', label: 'Straight Line' },
+  { value: 'declining_balance', label: 'Declining Balance' },
+  { value: 'sum_of_years', label: "Sum of Years' Digits" },
+] as const;
+
+export const ASSET_DOCUMENT_CATEGORIES = [
+  { value: 'invoice', label: 'Invoice' },
+  { value: 'warranty', label: 'Warranty' },
+  { value: 'photo', label: 'Photo' },
+  { value: 'manual', label: 'Manual' },
+  { value: 'other', label: 'Other' },
+] as const;
+
+export const CUSTOM_FIELD_TYPES = [
+  { value: 'text', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'date', label: 'Date' },
+  { value: 'select', label: 'Select' },
+  { value: 'user', label: 'User' },
+] as const;
+
+export const RESERVATION_STATUSES = [
+  { value: 'booked', label: 'Booked', color: 'purple' },
+  { value: 'active', label: 'Picked Up', color: 'blue' },
+  { value: 'completed', label: 'Returned', color: 'green' },
+  { value: 'cancelled', label: 'Cancelled', color: 'gray' },
+  { value: 'no_show', label: 'No Show', color: 'red' },
+] as const;
+
+export const INVENTORY_AUDIT_RESULTS = [
+  { value: 'pending', label: 'Pending', color: 'gray' },
+  { value: 'found', label: 'Found', color: 'green' },
+  { value: 'missing', label: 'Missing', color: 'red' },
+  { value: 'unexpected', label: 'Unexpected', color: 'yellow' },
+] as const;
+
+export const LABEL_SYMBOLOGIES = [
+  { value: 'qr', label: 'QR Code' },
+  { value: 'code128', label: 'Barcode (Code 128)' },
+] as const;
+
+export const LABEL_STOCKS = [
+  {
+    id: 'avery_5160',
+    name: 'Avery 5160 (Letter, 30 per sheet)',
+    page_width_mm: 215.9,
+    page_height_mm: 279.4,
+    columns: 3,
+    rows: 10,
+    label_width_mm: 66.7,
+    label_height_mm: 25.4,
+    margin_top_mm: 12.7,
+    margin_left_mm: 4.8,
+    gap_x_mm: 3.2,
+    gap_y_mm: 0,
+  },
+  {
+    id: 'avery_l7160',
+    name: 'Avery L7160 (A4, 21 per sheet)',
+    page_width_mm: 210,
+    page_height_mm: 297,
+    columns: 3,
+    rows: 7,
+    label_width_mm: 63.5,
+    label_height_mm: 38.1,
+    margin_top_mm: 15.2,
+    margin_left_mm: 7.2,
+    gap_x_mm: 2.5,
+    gap_y_mm: 0,
+  },
+  {
+    id: 'avery_l7651',
+    name: 'Avery L7651 (A4, 65 per sheet)',
+    page_width_mm: 210,
+    page_height_mm: 297,
+    columns: 5,
+    rows: 13,
+    label_width_mm: 38.1,
+    label_height_mm: 21.2,
+    margin_top_mm: 10.7,
+    margin_left_mm: 4.7,
+    gap_x_mm: 2.5,
+    gap_y_mm: 0,
+  },
+  {
+    id: 'dymo_30334',
+    name: 'Dymo 30334 (57 x 32 mm roll)',
+    page_width_mm: 57,
+    page_height_mm: 32,
+    columns: 1,
+    rows: 1,
+    label_width_mm: 57,
+    label_height_mm: 32,
+    margin_top_mm: 0,
+    margin_left_mm: 0,
+    gap_x_mm: 0,
+    gap_y_mm: 0,
+  },
+  {
+    id: 'brother_dk1201',
+    name: 'Brother DK-1201 (90 x 29 mm roll)',
+    page_width_mm: 90,
+    page_height_mm: 29,
+    columns: 1,
+    rows: 1,
+    label_width_mm: 90,
+    label_height_mm: 29,
+    margin_top_mm: 0,
+    margin_left_mm: 0,
+    gap_x_mm: 0,
+    gap_y_mm: 0,
+  },
+] as const;
+
 // ==========================================
 // MAINTENANCE CONSTANTS
 // ==========================================
@@ -58,6 +173,62 @@ export const MAINTENANCE_TYPES = [
   { value: 'inspection', label: 'Inspection' },
 ] as const;
 
+export const MAINTENANCE_PLAN_TRIGGERS = [
+  { value: 'interval_days', label: 'Every N days' },
+  { value: 'usage_hours', label: 'Every N usage hours' },
+  { value: 'calendar', label: 'Calendar rule' },
+] as const;
+
+export const MAINTENANCE_CALENDAR_FREQUENCIES = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'yearly', label: 'Yearly' },
+] as const;
+
+export const DEFAULT_MAINTENANCE_LEAD_DAYS = 7;
+
+export const ASSIGNMENT_STRATEGIES = [
+  { value: 'least_loaded', label: 'Least loaded' },
+  { value: 'round_robin', label: 'Round robin' },
+] as const;
+
+// Offices without their own assignment settings use these
+export const DEFAULT_ASSIGNMENT_SETTINGS = {
+  strategy: 'least_loaded',
+  auto_assign: false,
+} as const;
+
+// How much each open ticket counts towards a technician's workload
+export const PRIORITY_WORKLOAD_WEIGHTS = {
+  low: 1,
+  medium: 2,
+  high: 3,
+  critical: 5,
+} as const;
+
+export const CHECKLIST_ITEM_KINDS = [
+  { value: 'pass_fail', label: 'Pass / fail' },
+  { value: 'reading', label: 'Reading' },
+  { value: 'photo', label: 'Photo' },
+] as const;
+
+// Offices without their own business hours use these, in the tenant timezone
+export const DEFAULT_BUSINESS_HOURS = {
+  days: [1, 2, 3, 4, 5],
+  start: '09:00',
+  end: '17:00',
+} as const;
+
+export const WEEKDAYS = [
+  { value: 0, label: 'Sunday', short: 'Sun' },
+  { value: 1, label: 'Monday', short: 'Mon' },
+  { value: 2, label: 'Tuesday', short: 'Tue' },
+  { value: 3, label: 'Wednesday', short: 'Wed' },
+  { value: 4, label: 'Thursday', short: 'Thu' },
+  { value: 5, label: 'Friday', short: 'Fri' },
+  { value: 6, label: 'Saturday', short: 'Sat' },
+] as const;
+
 // ==========================================
 // PROJECT CONSTANTS
 // ==========================================
@@ -105,6 +276,75 @@ export const VENDOR_TYPES = [
   { value: 'other', label: 'Other' },
 ] as const;
 
+// ==========================================
+// WARRANTY CONSTANTS
+// ==========================================
+
+export const WARRANTY_COVERAGE_TYPES = [
+  { value: 'manufacturer', label: 'Manufacturer Warranty' },
+  { value: 'extended', label: 'Extended Warranty' },
+  { value: 'service_contract', label: 'Service Contract' },
+  { value: 'support', label: 'Support Agreement' },
+] as const;
+
+export const WARRANTY_CONTRACT_STATES = [
+  { value: 'upcoming', label: 'Upcoming', color: 'blue' },
+  { value: 'active', label: 'Active', color: 'green' },
+  { value: 'expiring', label: 'Expiring', color: 'yellow' },
+  { value: 'expired', label: 'Expired', color: 'red' },
+  { value: 'cancelled', label: 'Cancelled', color: 'gray' },
+] as const;
+
+export const WARRANTY_CLAIM_STATUSES = [
+  { value: 'submitted', label: 'Submitted', color: 'blue' },
+  { value: 'approved', label: 'Approved', color: 'yellow' },
+  { value: 'rejected', label: 'Rejected', color: 'red' },
+  { value: 'resolved', label: 'Resolved', color: 'green' },
+] as const;
+
+// Days before expiry at which owners are notified
+export const WARRANTY_ALERT_DAYS = [90, 30, 7] as const;
+
+// ==========================================
+// PURCHASING
+// ==========================================
+
+export const PURCHASE_REQUISITION_STATUSES = [
+  { value: 'submitted', label: 'Awaiting Approval', color: 'blue' },
+  { value: 'approved', label: 'Approved', color: 'green' },
+  { value: 'rejected', label: 'Rejected', color: 'red' },
+  { value: 'ordered', label: 'Ordered', color: 'purple' },
+  { value: 'cancelled', label: 'Cancelled', color: 'gray' },
+] as const;
+
+export const PURCHASE_ORDER_STATUSES = [
+  { value: 'issued', label: 'Issued', color: 'blue' },
+  { value: 'partially_received', label: 'Partially Received', color: 'yellow' },
+  { value: 'received', label: 'Received', color: 'green' },
+  { value: 'closed', label: 'Closed Short', color: 'gray' },
+  { value: 'cancelled', label: 'Cancelled', color: 'red' },
+] as const;
+
+export const STOCK_REQUEST_STATUSES = [
+  { value: 'submitted', label: 'Awaiting Approval', color: 'blue' },
+  { value: 'approved', label: 'Approved', color: 'green' },
+  { value: 'partially_fulfilled', label: 'Partially Fulfilled', color: 'yellow' },
+  { value: 'fulfilled', label: 'Fulfilled', color: 'green' },
+  { value: 'rejected', label: 'Rejected', color: 'red' },
+  { value: 'cancelled', label: 'Cancelled', color: 'gray' },
+] as const;
+
+export const PURCHASE_ITEM_TYPES = [
+  { value: 'consumable', label: 'Consumable' },
+  { value: 'asset', label: 'Asset' },
+] as const;
+
+// Reorder planning: usage history window, stock to hold beyond the lead
+// time, and the lead time assumed when a vendor has no history or quote
+export const REORDER_LOOKBACK_DAYS = 90;
+export const REORDER_COVER_DAYS = 30;
+export const DEFAULT_LEAD_TIME_DAYS = 7;
+
 // ==========================================
 // USER CONSTANTS
 // ==========================================
@@ -153,6 +393,47 @@ export const STOCK_TRANSACTION_TYPES = [
   { value: 'return', label: 'Return', icon: 'rotate-ccw' },
 ] as const;
 
+export const STOCK_TRANSFER_STATUSES = [
+  { value: 'in_transit', label: 'In Transit', color: 'yellow' },
+  { value: 'received', label: 'Received', color: 'green' },
+  { value: 'discrepancy', label: 'Received with Discrepancy', color: 'red' },
+] as const;
+
+export const STOCK_ADJUSTMENT_REASONS = [
+  { value: 'expired', label: 'Expired' },
+  { value: 'damaged', label: 'Damaged' },
+  { value: 'lost', label: 'Lost / Stolen' },
+  { value: 'count_correction', label: 'Count Correction' },
+  { value: 'other', label: 'Other' },
+] as const;
+
+// Days before a lot expires at which the office is notified; 0 is the expiry date itself
+export const LOT_EXPIRY_ALERT_DAYS = [30, 7, 0] as const;
+
+export const COSTING_METHODS = [
+  { value: 'weighted_average', label: 'Weighted Average' },
+  { value: 'fifo', label: 'FIFO (First In, First Out)' },
+] as const;
+
+export const DEFAULT_COSTING_METHOD = 'weighted_average';
+
+// ABC classes by cumulative share of annual usage value, and how often each is counted
+export const ABC_CLASSES = [
+  { value: 'A', label: 'Class A', cumulative_share: 0.8, count_interval_days: 30 },
+  { value: 'B', label: 'Class B', cumulative_share: 0.95, count_interval_days: 90 },
+  { value: 'C', label: 'Class C', cumulative_share: 1, count_interval_days: 180 },
+] as const;
+
+export const CYCLE_COUNT_STATUSES = [
+  { value: 'open', label: 'Counting', color: 'blue' },
+  { value: 'pending_approval', label: 'Awaiting Approval', color: 'yellow' },
+  { value: 'posted', label: 'Posted', color: 'green' },
+  { value: 'rejected', label: 'Rejected', color: 'red' },
+  { value: 'cancelled', label: 'Cancelled', color: 'gray' },
+] as const;
+
+export const DEFAULT_CYCLE_COUNT_TOLERANCE = { percent: 5, value: 50 };
+
 export const CONSUMABLE_UNITS = [
   { value: 'pcs', label: 'Pieces' },
   { value: 'box', label: 'Box' },
@@ -165,6 +446,21 @@ export const CONSUMABLE_UNITS = [
   { value: 'liter', label: 'Liter' },
 ] as const;
 
+// ==========================================
+// SCHEDULED JOBS
+// ==========================================
+
+// How often each job runs for a tenant, in minutes
+export const SCHEDULED_JOB_INTERVALS = {
+  warranty_expiry_alerts: 12 * 60,
+  lot_expiry_alerts: 12 * 60,
+  preventive_tickets: 60,
+  sla_breaches: 15,
+} as const;
+
+// How long a started run holds the job before another client may take over
+export const SCHEDULED_JOB_LEASE_MINUTES = 10;
+
 // ==========================================
 // PAGINATION DEFAULTS
 // ==========================================
@@ -183,6 +479,20 @@ export const DATE_FORMATS = {
   ISO: 'yyyy-MM-dd',
 } as const;
 
+// ==========================================
+// TIMEZONES
+// ==========================================
+
+export const TIMEZONES = [
+  { value: 'UTC', label: 'UTC' },
+  { value: 'America/New_York', label: 'Eastern Time (ET)' },
+  { value: 'America/Los_Angeles', label: 'Pacific Time (PT)' },
+  { value: 'Europe/London', label: 'London (GMT)' },
+  { value: 'Europe/Paris', label: 'Paris (CET)' },
+  { value: 'Asia/Tokyo', label: 'Tokyo (JST)' },
+  { value: 'Australia/Sydney', label: 'Sydney (AEST)' },
+] as const;
+
 // ==========================================
 // CURRENCY CODES
 // ==========================================
@@ -232,18 +542,37 @@ export const COLLECTIONS = {
   ASSETS: 'assets',
   ASSET_EVENTS: 'events',
   ASSET_CATEGORIES: 'asset_categories',
+  CUSTOM_FIELDS: 'custom_fields',
+  DEPRECIATION_SNAPSHOTS: 'depreciation_snapshots',
+  ASSET_CHECKOUTS: 'asset_checkouts',
+  ASSET_RESERVATIONS: 'asset_reservations',
+  INVENTORY_AUDITS: 'inventory_audits',
+  INVENTORY_AUDIT_ITEMS: 'items',
   CONSUMABLES: 'consumables',
   CONSUMABLE_CATEGORIES: 'consumable_categories',
+  CONSUMABLE_KITS: 'consumable_kits',
   OFFICE_STOCK: 'office_stock',
   STOCK_TRANSACTIONS: 'stock_transactions',
+  STOCK_TRANSFERS: 'stock_transfers',
+  CYCLE_COUNTS: 'cycle_counts',
   MAINTENANCE: 'maintenance',
   MAINTENANCE_COMMENTS: 'comments',
+  MAINTENANCE_PLANS: 'maintenance_plans',
+  SLA_POLICIES: 'sla_policies',
+  CHECKLIST_TEMPLATES: 'checklist_templates',
   PROJECTS: 'projects',
   PROJECT_MILESTONES: 'milestones',
   PROJECT_EXPENSES: 'expenses',
   VENDORS: 'vendors',
+  WARRANTY_CONTRACTS: 'warranty_contracts',
+  WARRANTY_CLAIMS: 'claims',
+  STOCK_REQUESTS: 'stock_requests',
+  PURCHASE_REQUISITIONS: 'purchase_requisitions',
+  PURCHASE_ORDERS: 'purchase_orders',
+  GOODS_RECEIPTS: 'receipts',
   AUDIT_LOGS: 'audit_logs',
   NOTIFICATIONS: 'notifications',
+  SCHEDULED_JOBS: 'scheduled_jobs',
 } as const;
 
 // ==========================================
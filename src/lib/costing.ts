@@ -0,0 +1,202 @@
+/* ============================================
+   TENAXIS - Stock Costing
+   FIFO and weighted-average valuation of consumable stock
+   ============================================ */
+
+import { getStockDocId } from './stock';
+import { toMillis } from './reservations';
+import type { CostingMethod, OfficeStock, StockCostLayer, StockTransaction } from '@/types';
+
+export interface CostState {
+  quantity: number;
+  average_cost: number;
+  cost_layers: StockCostLayer[];
+}
+
+export interface CostedMovement {
+  state: CostState;
+  unit_cost: number;
+  total_cost: number;
+}
+
+// ==========================================
+// ROUNDING
+// ==========================================
+
+/**
+ * Round a unit cost to four decimal places
+ */
+export function roundUnitCost(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Round a monetary total to two decimal places
+ */
+export function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// ==========================================
+// STATE
+// ==========================================
+
+/**
+ * Cost state of a stock record. Quantity held before costing was recorded
+ * has no layer of its own, so it is carried as the oldest layer at the
+ * record's average cost (zero when it never had one).
+ */
+export function getCostState(
+  stock?: Partial<Pick<OfficeStock, 'quantity' | 'average_cost' | 'cost_layers'>> | null
+): CostState {
+  const quantity = stock?.quantity ?? 0;
+  const averageCost = stock?.average_cost ?? 0;
+  let layers = (stock?.cost_layers ?? []).filter(layer => layer.quantity > 0);
+
+  const layered = layers.reduce((sum, layer) => sum + layer.quantity, 0);
+  if (quantity > layered) {
+    layers = [{ quantity: quantity - layered, unit_cost: averageCost }, ...layers];
+  } else if (quantity < layered) {
+    layers = takeLayers(layers, layered - quantity).remaining;
+  }
+
+  return { quantity, average_cost: averageCost, cost_layers: layers };
+}
+
+/**
+ * Value of the stock on hand under a costing method
+ */
+export function getStockValue(state: CostState, method: CostingMethod): number {
+  if (method === 'fifo') {
+    return roundMoney(
+      state.cost_layers.reduce((sum, layer) => sum + layer.quantity * layer.unit_cost, 0)
+    );
+  }
+  return roundMoney(state.quantity * state.average_cost);
+}
+
+// ==========================================
+// MOVEMENTS
+// ==========================================
+
+/**
+ * Take a quantity from the oldest layers first
+ */
+function takeLayers(layers: StockCostLayer[], quantity: number) {
+  const remaining: StockCostLayer[] = [];
+  let outstanding = quantity;
+  let cost = 0;
+
+  for (const layer of layers) {
+    const taken = Math.min(layer.quantity, outstanding);
+    outstanding -= taken;
+    cost += taken * layer.unit_cost;
+    if (layer.quantity > taken) {
+      remaining.push({ ...layer, quantity: layer.quantity - taken });
+    }
+  }
+
+  return { remaining, cost, taken: quantity - outstanding };
+}
+
+/**
+ * Add received stock at a unit cost. Both the average and the layers are
+ * kept up to date so either method can value the stock later.
+ */
+export function receiveCost(state: CostState, quantity: number, unitCost: number): CostState {
+  const total = state.quantity + quantity;
+  const averageCost =
+    state.quantity > 0 && total > 0
+      ? roundUnitCost((state.quantity * state.average_cost + quantity * unitCost) / total)
+      : roundUnitCost(unitCost);
+
+  const layers = [...state.cost_layers];
+  const last = layers[layers.length - 1];
+  if (last && last.unit_cost === unitCost) {
+    layers[layers.length - 1] = { ...last, quantity: last.quantity + quantity };
+  } else {
+    layers.push({ quantity, unit_cost: unitCost });
+  }
+
+  return { quantity: total, average_cost: averageCost, cost_layers: layers };
+}
+
+/**
+ * Remove a quantity from the oldest layers, keeping the average as is
+ */
+function withdraw(state: CostState, quantity: number) {
+  const fifo = takeLayers(state.cost_layers, quantity);
+  return {
+    state: {
+      quantity: state.quantity - fifo.taken,
+      average_cost: state.average_cost,
+      cost_layers: fifo.remaining,
+    },
+    fifoCost: fifo.cost,
+    shortfall: quantity - fifo.taken,
+  };
+}
+
+/**
+ * Take stock out and cost it under the tenant's method. Any quantity
+ * beyond what the state holds (only possible when replaying an incomplete
+ * ledger) is costed at the average.
+ */
+export function consumeCost(
+  state: CostState,
+  quantity: number,
+  method: CostingMethod
+): CostedMovement {
+  const withdrawn = withdraw(state, quantity);
+
+  const totalCost = roundMoney(
+    method === 'fifo'
+      ? withdrawn.fifoCost + withdrawn.shortfall * state.average_cost
+      : quantity * state.average_cost
+  );
+
+  return {
+    state: withdrawn.state,
+    unit_cost: quantity > 0 ? roundUnitCost(totalCost / quantity) : 0,
+    total_cost: totalCost,
+  };
+}
+
+// ==========================================
+// LEDGER
+// ==========================================
+
+/**
+ * Rebuild the cost state of every office's stock from its transactions.
+ * Receipts without a recorded cost come in at the running average, the
+ * same way the live stock record took them. The result can be valued
+ * under either method.
+ */
+export function replayLedger(
+  transactions: Pick<
+    StockTransaction,
+    'office_id' | 'consumable_id' | 'type' | 'quantity' | 'unit_cost' | 'created_at'
+  >[]
+): Map<string, CostState> {
+  const states = new Map<string, CostState>();
+  const ordered = [...transactions].sort((a, b) => toMillis(a.created_at) - toMillis(b.created_at));
+
+  for (const tx of ordered) {
+    const key = getStockDocId(tx.office_id, tx.consumable_id);
+    const state = states.get(key) ?? getCostState();
+
+    const isReceipt =
+      tx.type === 'restock' ||
+      tx.type === 'transfer_in' ||
+      tx.type === 'return' ||
+      (tx.type === 'adjustment' && tx.quantity > 0);
+
+    if (isReceipt) {
+      states.set(key, receiveCost(state, tx.quantity, tx.unit_cost ?? state.average_cost));
+    } else if (tx.quantity !== 0) {
+      states.set(key, withdraw(state, Math.abs(tx.quantity)).state);
+    }
+  }
+
+  return states;
+}
@@ -0,0 +1,249 @@
+/* ============================================
+   TENAXIS - Custom Fields
+   Validation, filtering and sorting of typed asset fields
+   ============================================ */
+
+import { formatDate } from './utils';
+import type { AssetCategory, CustomFieldDefinition, CustomFieldValue } from '@/types';
+
+type CustomFieldValues = Record<string, CustomFieldValue>;
+
+const KEY_PATTERN = /^[a-z][a-z0-9_]{0,39}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const COMPARISON_PATTERN = /^(>=|<=|>|<|=)\s*(.+)$/;
+
+// ==========================================
+// DEFINITIONS
+// ==========================================
+
+/**
+ * Check whether a key can be used to store a custom field
+ */
+export function isValidCustomFieldKey(key: string): boolean {
+  return KEY_PATTERN.test(key);
+}
+
+/**
+ * Derive a storage key from a field label
+ */
+export function toCustomFieldKey(label: string): string {
+  const key = label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^[^a-z]+/, '')
+    .replace(/_+$/, '')
+    .slice(0, 40);
+  return key || 'field';
+}
+
+/**
+ * Get the active definitions attached to a category, in category order
+ */
+export function getCategoryFields(
+  definitions: CustomFieldDefinition[],
+  category: Pick<AssetCategory, 'custom_field_ids'> | null | undefined
+): CustomFieldDefinition[] {
+  if (!category?.custom_field_ids?.length) return [];
+
+  const byId = new Map(definitions.map(d => [d.id, d]));
+  return category.custom_field_ids
+    .map(id => byId.get(id))
+    .filter((d): d is CustomFieldDefinition => !!d && d.status === 'active');
+}
+
+// ==========================================
+// VALIDATION
+// ==========================================
+
+/**
+ * Coerce raw form input to the stored value for a field. Empty input
+ * becomes null.
+ */
+export function normalizeCustomFieldValue(
+  definition: CustomFieldDefinition,
+  raw: unknown
+): CustomFieldValue | null {
+  if (raw === null || raw === undefined) return null;
+  if (typeof raw === 'string' && raw.trim() === '') return null;
+
+  switch (definition.type) {
+    case 'number': {
+      const value = typeof raw === 'number' ? raw : Number(String(raw).trim());
+      return Number.isNaN(value) ? String(raw) : value;
+    }
+    default:
+      return String(raw).trim();
+  }
+}
+
+/**
+ * Validate a single normalized value. Returns an error message or null.
+ * User references are only checked for shape here; callers verify that
+ * the user exists.
+ */
+export function validateCustomFieldValue(
+  definition: CustomFieldDefinition,
+  value: CustomFieldValue | null
+): string | null {
+  const { label } = definition;
+
+  if (value === null) {
+    return definition.required ? `${label} is required` : null;
+  }
+
+  switch (definition.type) {
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return `${label} must be a number`;
+      }
+      if (definition.min !== undefined && value < definition.min) {
+        return `${label} must be at least ${definition.min}`;
+      }
+      if (definition.max !== undefined && value > definition.max) {
+        return `${label} must be at most ${definition.max}`;
+      }
+      return null;
+
+    case 'date': {
+      const date = new Date(`${value}T00:00:00Z`);
+      if (!DATE_PATTERN.test(String(value)) || Number.isNaN(date.getTime())) {
+        return `${label} must be a date (YYYY-MM-DD)`;
+      }
+      return null;
+    }
+
+    case 'select':
+      if (!definition.options?.includes(String(value))) {
+        return `${label} must be one of: ${(definition.options || []).join(', ')}`;
+      }
+      return null;
+
+    case 'user':
+    case 'text':
+      return typeof value === 'string' ? null : `${label} must be text`;
+  }
+}
+
+/**
+ * Validate values for a set of definitions. Values for keys outside the
+ * definitions are kept as they are.
+ */
+export function validateCustomFields(
+  definitions: CustomFieldDefinition[],
+  values: Record<string, unknown> | undefined
+): { values: CustomFieldValues; errors: Record<string, string> } {
+  const result: CustomFieldValues = {};
+  const errors: Record<string, string> = {};
+  const defined = new Set(definitions.map(d => d.key));
+
+  for (const [key, value] of Object.entries(values || {})) {
+    if (!defined.has(key) && (typeof value === 'string' || typeof value === 'number')) {
+      result[key] = value;
+    }
+  }
+
+  for (const definition of definitions) {
+    const value = normalizeCustomFieldValue(definition, values?.[definition.key]);
+    const error = validateCustomFieldValue(definition, value);
+
+    if (error) {
+      errors[definition.key] = error;
+    } else if (value !== null) {
+      result[definition.key] = value;
+    }
+  }
+
+  return { values: result, errors };
+}
+
+// ==========================================
+// LIST SUPPORT
+// ==========================================
+
+/**
+ * Compare two field values for sorting; empty values sort last
+ */
+export function compareCustomFieldValues(
+  a: CustomFieldValue | null | undefined,
+  b: CustomFieldValue | null | undefined
+): number {
+  const aEmpty = a === null || a === undefined || a === '';
+  const bEmpty = b === null || b === undefined || b === '';
+  if (aEmpty || bEmpty) return aEmpty === bEmpty ? 0 : aEmpty ? 1 : -1;
+
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b), undefined, { numeric: true });
+}
+
+/**
+ * Check a value against a filter expression. Numbers and dates accept a
+ * comparison prefix (e.g. ">= 100", "< 2025-01-01"); text matches on
+ * substring; select and user fields match exactly.
+ */
+export function matchesCustomFieldFilter(
+  definition: CustomFieldDefinition,
+  value: CustomFieldValue | null | undefined,
+  filter: string
+): boolean {
+  const expression = filter.trim();
+  if (!expression) return true;
+  if (value === null || value === undefined || value === '') return false;
+
+  switch (definition.type) {
+    case 'number':
+    case 'date': {
+      const match = expression.match(COMPARISON_PATTERN);
+      const operator = match?.[1] ?? '=';
+      const operand = (match?.[2] ?? expression).trim();
+
+      const cmp =
+        definition.type === 'number'
+          ? (value as number) - Number(operand)
+          : String(value).localeCompare(operand);
+      if (Number.isNaN(cmp)) return false;
+
+      // Bare dates match by prefix so "2024-05" finds all of May
+      if (!match && definition.type === 'date') {
+        return String(value).startsWith(operand);
+      }
+
+      switch (operator) {
+        case '>': return cmp > 0;
+        case '>=': return cmp >= 0;
+        case '<': return cmp < 0;
+        case '<=': return cmp <= 0;
+        default: return cmp === 0;
+      }
+    }
+
+    case 'text':
+      return String(value).toLowerCase().includes(expression.toLowerCase());
+
+    default:
+      return String(value) === expression;
+  }
+}
+
+/**
+ * Format a stored value for display
+ */
+export function formatCustomFieldValue(
+  definition: CustomFieldDefinition,
+  value: CustomFieldValue | null | undefined,
+  userNames: Record<string, string> = {}
+): string {
+  if (value === null || value === undefined || value === '') return '-';
+
+  switch (definition.type) {
+    case 'date': {
+      const [year, month, day] = String(value).split('-').map(Number);
+      return formatDate(new Date(year!, month! - 1, day!));
+    }
+    case 'user':
+      return userNames[String(value)] || String(value);
+    case 'number':
+      return typeof value === 'number' ? value.toLocaleString('en-US') : String(value);
+    default:
+      return String(value);
+  }
+}
@@ -0,0 +1,150 @@
+/* ============================================
+   TENAXIS - Cycle Counts
+   ABC classification, count schedules and variance checks
+   ============================================ */
+
+import { ABC_CLASSES } from './constants';
+import { roundMoney } from './costing';
+import { toMillis } from './reservations';
+import type {
+  AbcClass,
+  CycleCountLine,
+  CycleCountTolerance,
+  StockTransaction,
+  Timestamp,
+} from '@/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ==========================================
+// CLASSIFICATION
+// ==========================================
+
+/**
+ * Value of the stock issued per consumable. Issues recorded before
+ * costing was tracked are valued at the given fallback unit cost.
+ */
+export function getUsageValues(
+  issues: Pick<StockTransaction, 'consumable_id' | 'quantity' | 'total_cost'>[],
+  fallbackUnitCosts: Map<string, number>
+): Map<string, number> {
+  const values = new Map<string, number>();
+  for (const issue of issues) {
+    const value =
+      issue.total_cost ?? issue.quantity * (fallbackUnitCosts.get(issue.consumable_id) ?? 0);
+    values.set(issue.consumable_id, (values.get(issue.consumable_id) ?? 0) + value);
+  }
+  return values;
+}
+
+/**
+ * Rank consumables by usage value and class them by the cumulative share
+ * of the total they reach: A covers the top 80%, B the next 15%, C the
+ * rest. Items with no usage are always C.
+ */
+export function classifyAbc(
+  consumableIds: string[],
+  usageValues: Map<string, number>
+): Map<string, AbcClass> {
+  const total = consumableIds.reduce((sum, id) => sum + (usageValues.get(id) ?? 0), 0);
+  const ranked = [...consumableIds].sort(
+    (a, b) => (usageValues.get(b) ?? 0) - (usageValues.get(a) ?? 0)
+  );
+
+  const classes = new Map<string, AbcClass>();
+  let cumulative = 0;
+  for (const id of ranked) {
+    const value = usageValues.get(id) ?? 0;
+    if (total <= 0 || value <= 0) {
+      classes.set(id, 'C');
+      continue;
+    }
+    // Classed by the share reached before this item, so the item that
+    // crosses a boundary still falls in the higher class
+    const share = cumulative / total;
+    const abcClass = ABC_CLASSES.find(c => share < c.cumulative_share) ?? ABC_CLASSES[2];
+    classes.set(id, abcClass.value);
+    cumulative += value;
+  }
+  return classes;
+}
+
+// ==========================================
+// SCHEDULE
+// ==========================================
+
+/**
+ * Days between counts for a class
+ */
+export function getCountIntervalDays(abcClass: AbcClass): number {
+  return ABC_CLASSES.find(c => c.value === abcClass)!.count_interval_days;
+}
+
+/**
+ * When an item is next due for counting. Items never counted are due now.
+ */
+export function getNextCountDate(
+  lastCountedAt: Timestamp | undefined,
+  abcClass: AbcClass,
+  now: Date = new Date()
+): Date {
+  if (!lastCountedAt) return now;
+  return new Date(toMillis(lastCountedAt) + getCountIntervalDays(abcClass) * DAY_MS);
+}
+
+/**
+ * Whether an item is due for counting
+ */
+export function isCountDue(
+  lastCountedAt: Timestamp | undefined,
+  abcClass: AbcClass,
+  now: Date = new Date()
+): boolean {
+  return getNextCountDate(lastCountedAt, abcClass, now).getTime() <= now.getTime();
+}
+
+// ==========================================
+// VARIANCE
+// ==========================================
+
+/**
+ * Variance as a percentage of the system quantity. Stock found where the
+ * system expected none is an unbounded variance.
+ */
+export function getVariancePercent(expected: number, variance: number): number {
+  if (variance === 0) return 0;
+  if (expected === 0) return Infinity;
+  return (Math.abs(variance) / expected) * 100;
+}
+
+/**
+ * Work out a counted line's variance against the system quantity and
+ * whether it exceeds the tolerance
+ */
+export function getLineVariance(
+  counted: number,
+  expected: number,
+  unitCost: number,
+  tolerance: CycleCountTolerance
+): Pick<CycleCountLine, 'expected_quantity' | 'variance' | 'unit_cost' | 'variance_value' | 'requires_approval'> {
+  const variance = counted - expected;
+  const varianceValue = roundMoney(variance * unitCost);
+  return {
+    expected_quantity: expected,
+    variance,
+    unit_cost: unitCost,
+    variance_value: varianceValue,
+    requires_approval:
+      getVariancePercent(expected, variance) > tolerance.percent ||
+      Math.abs(varianceValue) > tolerance.value,
+  };
+}
+
+/**
+ * Share of counted lines that matched the system quantity, as a percentage
+ */
+export function getCountAccuracy(lines: Pick<CycleCountLine, 'variance'>[]): number {
+  const counted = lines.filter(line => line.variance !== undefined);
+  if (counted.length === 0) return 100;
+  return (counted.filter(line => line.variance === 0).length / counted.length) * 100;
+}
@@ -0,0 +1,233 @@
+/* ============================================
+   TENAXIS - Depreciation Engine
+   Monthly depreciation schedules and book value
+   ============================================ */
+
+import type {
+  Asset,
+  AssetCategory,
+  DepreciationMethod,
+  DepreciationPeriod,
+  DepreciationSchedule,
+} from '@/types';
+
+type DateLike = Date | { seconds: number };
+
+// ==========================================
+// PERIOD HELPERS
+// ==========================================
+
+function toDate(value: DateLike): Date {
+  return 'seconds' in value ? new Date(value.seconds * 1000) : value;
+}
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Format a date as a YYYY-MM period key
+ */
+export function toPeriodKey(date: DateLike): string {
+  const d = toDate(date);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Add months to a YYYY-MM period key
+ */
+export function addPeriods(period: string, months: number): string {
+  const [year, month] = period.split('-').map(Number) as [number, number];
+  const index = year * 12 + (month - 1) + months;
+  return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Get the fiscal year a period falls in. Fiscal years are labelled by the
+ * calendar year in which they start (fiscal_year_start is a month 1-12).
+ */
+export function getFiscalYear(period: string, fiscalYearStart: number = 1): number {
+  const [year, month] = period.split('-').map(Number) as [number, number];
+  return month >= fiscalYearStart ? year : year - 1;
+}
+
+/**
+ * Get the first period (YYYY-MM) of a fiscal year
+ */
+export function getFiscalYearStartPeriod(fiscalYear: number, fiscalYearStart: number = 1): string {
+  return `${fiscalYear}-${String(fiscalYearStart).padStart(2, '0')}`;
+}
+
+// ==========================================
+// SCHEDULE CALCULATION
+// ==========================================
+
+/**
+ * Monthly depreciation amounts for each method. The final month always
+ * writes the asset down to exactly its salvage value.
+ */
+function calculateMonthlyAmounts(
+  method: DepreciationMethod,
+  cost: number,
+  salvage: number,
+  lifeMonths: number,
+  annualRate?: number
+): number[] {
+  const depreciable = Math.max(cost - salvage, 0);
+  const amounts: number[] = [];
+
+  switch (method) {
+    case 'straight_line': {
+      const monthly = depreciable / lifeMonths;
+      for (let m = 0; m < lifeMonths; m++) amounts.push(monthly);
+      break;
+    }
+    case 'declining_balance': {
+      // Defaults to double-declining when the category has no explicit rate.
+      // Switches to straight-line once that yields the larger charge.
+      const rate = (annualRate ?? 200 / (lifeMonths / 12)) / 100 / 12;
+      let bookValue = cost;
+      for (let m = 0; m < lifeMonths; m++) {
+        const remaining = lifeMonths - m;
+        const declining = bookValue * rate;
+        const straight = (bookValue - salvage) / remaining;
+        const charge = Math.min(Math.max(declining, straight), bookValue - salvage);
+        amounts.push(Math.max(charge, 0));
+        bookValue -= charge;
+      }
+      break;
+    }
+    case 'sum_of_years': {
+      // Sum-of-digits applied per month so partial years are handled evenly
+      const digits = (lifeMonths * (lifeMonths + 1)) / 2;
+      for (let m = 0; m < lifeMonths; m++) {
+        amounts.push((depreciable * (lifeMonths - m)) / digits);
+      }
+      break;
+    }
+  }
+
+  return amounts;
+}
+
+/**
+ * Build a monthly depreciation schedule for an asset. Depreciation starts
+ * in the month of purchase (full-month convention). Returns null when the
+ * asset lacks a purchase date/price or the category has no useful life.
+ */
+export function buildDepreciationSchedule(
+  asset: Pick<Asset, 'id' | 'purchase_date' | 'purchase_price'>,
+  category: Pick<
+    AssetCategory,
+    'depreciation_method' | 'depreciation_rate' | 'useful_life_months' | 'salvage_value_percent'
+  > | null | undefined,
+  fiscalYearStart: number = 1
+): DepreciationSchedule | null {
+  const lifeMonths = category?.useful_life_months;
+  if (!asset.purchase_date || !asset.purchase_price || !lifeMonths || lifeMonths <= 0) {
+    return null;
+  }
+
+  const method = category?.depreciation_method || 'straight_line';
+  const cost = asset.purchase_price;
+  const salvage = roundCurrency((cost * (category?.salvage_value_percent || 0)) / 100);
+  const startPeriod = toPeriodKey(asset.purchase_date);
+
+  const amounts = calculateMonthlyAmounts(
+    method,
+    cost,
+    salvage,
+    lifeMonths,
+    category?.depreciation_rate
+  );
+
+  const periods: DepreciationPeriod[] = [];
+  let accumulated = 0;
+
+  amounts.forEach((amount, index) => {
+    const period = addPeriods(startPeriod, index);
+    const opening = roundCurrency(cost - accumulated);
+    const isLast = index === amounts.length - 1;
+    const depreciation = isLast
+      ? roundCurrency(opening - salvage)
+      : roundCurrency(Math.min(amount, opening - salvage));
+
+    accumulated = roundCurrency(accumulated + depreciation);
+
+    periods.push({
+      period,
+      fiscal_year: getFiscalYear(period, fiscalYearStart),
+      opening_value: opening,
+      depreciation,
+      accumulated_depreciation: accumulated,
+      closing_value: roundCurrency(cost - accumulated),
+    });
+  });
+
+  return {
+    asset_id: asset.id,
+    method,
+    cost,
+    salvage_value: salvage,
+    useful_life_months: lifeMonths,
+    start_period: startPeriod,
+    periods,
+  };
+}
+
+// ==========================================
+// BOOK VALUE QUERIES
+// ==========================================
+
+/**
+ * Accumulated depreciation up to and including a period
+ */
+export function getAccumulatedDepreciation(
+  schedule: DepreciationSchedule,
+  asOfPeriod: string
+): number {
+  let accumulated = 0;
+  for (const row of schedule.periods) {
+    if (row.period > asOfPeriod) break;
+    accumulated = row.accumulated_depreciation;
+  }
+  return accumulated;
+}
+
+/**
+ * Net book value at the end of a period
+ */
+export function getNetBookValue(
+  schedule: DepreciationSchedule,
+  asOfPeriod: string = toPeriodKey(new Date())
+): number {
+  return roundCurrency(schedule.cost - getAccumulatedDepreciation(schedule, asOfPeriod));
+}
+
+/**
+ * Depreciation charged in a fiscal year up to and including a period
+ */
+export function getFiscalYearToDateDepreciation(
+  schedule: DepreciationSchedule,
+  asOfPeriod: string,
+  fiscalYearStart: number = 1
+): number {
+  const fiscalYear = getFiscalYear(asOfPeriod, fiscalYearStart);
+  const from = getFiscalYearStartPeriod(fiscalYear, fiscalYearStart);
+
+  return roundCurrency(
+    schedule.periods
+      .filter(row => row.period >= from && row.period <= asOfPeriod)
+      .reduce((sum, row) => sum + row.depreciation, 0)
+  );
+}
+
+/**
+ * Depreciation charged in a single period
+ */
+export function getPeriodDepreciation(
+  schedule: DepreciationSchedule,
+  period: string
+): number {
+  return schedule.periods.find(row => row.period === period)?.depreciation || 0;
+}
@@ -0,0 +1,70 @@
+/* ============================================
+   TENAXIS - Consumable Kits
+   Component checks and stock shortfalls for kits issued as one
+   ============================================ */
+
+import type { ConsumableKitComponent } from '@/types';
+
+export interface KitShortage {
+  consumable_id: string;
+  quantity: number;
+  available: number;
+}
+
+/**
+ * Raised when an office cannot cover every item issued together
+ */
+export class StockShortageError extends Error {
+  readonly shortages: KitShortage[];
+
+  constructor(shortages: KitShortage[], names: Map<string, string> = new Map()) {
+    const details = shortages.map(s => {
+      const name = names.get(s.consumable_id) ?? s.consumable_id;
+      return `${name} (${s.available} available, ${s.quantity} needed)`;
+    });
+    super(`Not enough stock for ${details.join(', ')}`);
+    this.name = 'StockShortageError';
+    this.shortages = shortages;
+  }
+}
+
+/**
+ * Throw unless a kit holds at least one item, each in a positive whole
+ * quantity and listed once
+ */
+export function assertValidKitComponents(components: ConsumableKitComponent[]): void {
+  if (components.length === 0) {
+    throw new Error('Add at least one item to the kit');
+  }
+
+  const seen = new Set<string>();
+  for (const component of components) {
+    if (!component.consumable_id) {
+      throw new Error('Select an item for every line');
+    }
+    if (!Number.isInteger(component.quantity) || component.quantity <= 0) {
+      throw new Error('Quantities must be whole numbers greater than zero');
+    }
+    if (seen.has(component.consumable_id)) {
+      throw new Error('Each item can only appear once in a kit');
+    }
+    seen.add(component.consumable_id);
+  }
+}
+
+/**
+ * Components the available stock cannot cover, given usable quantity per
+ * consumable. Items missing from the map count as out of stock.
+ */
+export function getKitShortages(
+  components: ConsumableKitComponent[],
+  available: Map<string, number>
+): KitShortage[] {
+  return components
+    .map(component => ({
+      consumable_id: component.consumable_id,
+      quantity: component.quantity,
+      available: available.get(component.consumable_id) ?? 0,
+    }))
+    .filter(entry => entry.available < entry.quantity);
+}
@@ -0,0 +1,354 @@
+/* ============================================
+   TENAXIS - Asset Labels
+   QR / Code128 label layout, SVG and PDF sheets
+   ============================================ */
+
+import { encodeCode128, encodeQr, getCode128Width } from './barcode';
+import { truncate } from './utils';
+import type { Asset, LabelOptions, LabelStock } from '@/types';
+
+type LabelAsset = Pick<Asset, 'asset_tag' | 'name'>;
+
+type LabelElement =
+  | { kind: 'rect'; x: number; y: number; width: number; height: number }
+  | {
+      kind: 'text';
+      x: number;
+      y: number;
+      text: string;
+      size: number; // mm
+      bold?: boolean;
+      mono?: boolean;
+      anchor: 'start' | 'middle';
+    };
+
+const SCAN_PATH = '/assets/scan/';
+const CODE128_QUIET_ZONE = 10;
+const MM_PER_PT = 0.3528;
+
+// ==========================================
+// PAYLOADS
+// ==========================================
+
+/**
+ * Get the value encoded on a label for an asset
+ */
+export function getLabelPayload(asset: LabelAsset, options: LabelOptions): string {
+  if (options.symbology === 'qr' && options.payload === 'url') {
+    const baseUrl = options.base_url ?? window.location.origin;
+    return `${baseUrl}${SCAN_PATH}${encodeURIComponent(asset.asset_tag)}`;
+  }
+  return asset.asset_tag;
+}
+
+/**
+ * Normalize scanner input to an asset tag. Accepts raw tags as well as
+ * scan URLs printed on QR labels.
+ */
+export function parseScannedTag(input: string): string {
+  let value = input.trim();
+
+  const scanIndex = value.indexOf(SCAN_PATH);
+  if (scanIndex !== -1) {
+    value = value.slice(scanIndex + SCAN_PATH.length).split(/[?#/]/)[0] || '';
+    value = decodeURIComponent(value);
+  }
+
+  return value.toUpperCase();
+}
+
+// ==========================================
+// LAYOUT
+// ==========================================
+
+/**
+ * Fit a single line of text into a width (approximate glyph width of 0.6em)
+ */
+function fitText(
+  text: string,
+  width: number,
+  maxSize: number
+): { text: string; size: number } {
+  const minSize = 1.4;
+  const size = Math.min(maxSize, width / Math.max(text.length * 0.6, 1));
+  if (size >= minSize) return { text, size };
+
+  const maxChars = Math.max(Math.floor(width / (minSize * 0.6)), 4);
+  return { text: truncate(text, maxChars), size: minSize };
+}
+
+function layoutQrLabel(
+  asset: LabelAsset,
+  options: LabelOptions,
+  width: number,
+  height: number
+): LabelElement[] {
+  const padding = Math.min(2, height * 0.08);
+  const matrix = encodeQr(getLabelPayload(asset, options));
+  const codeSize = Math.min(height, width) - padding * 2;
+  const moduleSize = codeSize / matrix.length;
+  const elements: LabelElement[] = [];
+
+  matrix.forEach((cells, row) => {
+    cells.forEach((dark, col) => {
+      if (!dark) return;
+      elements.push({
+        kind: 'rect',
+        x: padding + col * moduleSize,
+        y: padding + row * moduleSize,
+        width: moduleSize,
+        height: moduleSize,
+      });
+    });
+  });
+
+  const textX = padding * 2 + codeSize;
+  const textWidth = width - textX - padding;
+  if (textWidth < 8) return elements;
+
+  const tag = fitText(asset.asset_tag, textWidth, height * 0.14);
+  const title = options.show_name
+    ? fitText(options.title || asset.name, textWidth, height * 0.16)
+    : null;
+
+  const centerY = height / 2;
+  if (title) {
+    elements.push({
+      kind: 'text',
+      x: textX,
+      y: centerY - title.size * 0.3,
+      text: title.text,
+      size: title.size,
+      bold: true,
+      anchor: 'start',
+    });
+  }
+  elements.push({
+    kind: 'text',
+    x: textX,
+    y: title ? centerY + tag.size * 1.2 : centerY + tag.size * 0.35,
+    text: tag.text,
+    size: tag.size,
+    mono: true,
+    anchor: 'start',
+  });
+
+  return elements;
+}
+
+function layoutCode128Label(
+  asset: LabelAsset,
+  options: LabelOptions,
+  width: number,
+  height: number
+): LabelElement[] {
+  const padding = Math.min(2, height * 0.08);
+  const pattern = encodeCode128(asset.asset_tag);
+  const innerWidth = width - padding * 2;
+  const moduleWidth = innerWidth / (getCode128Width(pattern) + CODE128_QUIET_ZONE * 2);
+  const elements: LabelElement[] = [];
+
+  const tag = fitText(asset.asset_tag, innerWidth, height * 0.14);
+  const title = options.show_name
+    ? fitText(options.title || asset.name, innerWidth, height * 0.14)
+    : null;
+
+  let top = padding;
+  if (title) {
+    elements.push({
+      kind: 'text',
+      x: width / 2,
+      y: top + title.size * 0.8,
+      text: title.text,
+      size: title.size,
+      bold: true,
+      anchor: 'middle',
+    });
+    top += title.size * 1.2;
+  }
+
+  const barHeight = height - top - padding - tag.size * 1.3;
+  let x = padding + moduleWidth * CODE128_QUIET_ZONE;
+
+  pattern.forEach((modules, index) => {
+    const barWidth = modules * moduleWidth;
+    if (index % 2 === 0) {
+      elements.push({ kind: 'rect', x, y: top, width: barWidth, height: barHeight });
+    }
+    x += barWidth;
+  });
+
+  elements.push({
+    kind: 'text',
+    x: width / 2,
+    y: height - padding - tag.size * 0.2,
+    text: tag.text,
+    size: tag.size,
+    mono: true,
+    anchor: 'middle',
+  });
+
+  return elements;
+}
+
+/**
+ * Lay out a single label. Coordinates are millimetres from the label origin.
+ */
+function layoutLabel(
+  asset: LabelAsset,
+  options: LabelOptions,
+  width: number,
+  height: number
+): LabelElement[] {
+  return options.symbology === 'qr'
+    ? layoutQrLabel(asset, options, width, height)
+    : layoutCode128Label(asset, options, width, height);
+}
+
+/**
+ * Split assets into pages of label positions, skipping already-used labels
+ * on the first sheet.
+ */
+function paginate(
+  assets: LabelAsset[],
+  stock: LabelStock,
+  skip: number
+): Array<Array<{ asset: LabelAsset; x: number; y: number }>> {
+  const perPage = stock.columns * stock.rows;
+  const pages: Array<Array<{ asset: LabelAsset; x: number; y: number }>> = [];
+
+  assets.forEach((asset, index) => {
+    const position = index + skip;
+    const pageIndex = Math.floor(position / perPage);
+    const slot = position % perPage;
+    const col = slot % stock.columns;
+    const row = Math.floor(slot / stock.columns);
+
+    if (!pages[pageIndex]) pages[pageIndex] = [];
+    pages[pageIndex]!.push({
+      asset,
+      x: stock.margin_left_mm + col * (stock.label_width_mm + stock.gap_x_mm),
+      y: stock.margin_top_mm + row * (stock.label_height_mm + stock.gap_y_mm),
+    });
+  });
+
+  return pages.filter(Boolean);
+}
+
+// ==========================================
+// SVG RENDERING
+// ==========================================
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function renderSvgElements(elements: LabelElement[], offsetX: number, offsetY: number): string {
+  const path = elements
+    .filter(el => el.kind === 'rect')
+    .map(el => {
+      const r = el as Extract<LabelElement, { kind: 'rect' }>;
+      return `M${(offsetX + r.x).toFixed(3)} ${(offsetY + r.y).toFixed(3)}h${r.width.toFixed(3)}v${r.height.toFixed(3)}h${(-r.width).toFixed(3)}z`;
+    })
+    .join('');
+
+  const texts = elements
+    .filter(el => el.kind === 'text')
+    .map(el => {
+      const t = el as Extract<LabelElement, { kind: 'text' }>;
+      const family = t.mono ? 'monospace' : 'sans-serif';
+      const weight = t.bold ? ' font-weight="bold"' : '';
+      return `<text x="${(offsetX + t.x).toFixed(3)}" y="${(offsetY + t.y).toFixed(3)}" font-family="${family}" font-size="${t.size.toFixed(3)}"${weight} text-anchor="${t.anchor}">${escapeXml(t.text)}</text>`;
+    })
+    .join('');
+
+  return `<path d="${path}" fill="#000"/>${texts}`;
+}
+
+/**
+ * Render a single label as a standalone SVG document
+ */
+export function renderLabelSvg(
+  asset: LabelAsset,
+  stock: LabelStock,
+  options: LabelOptions
+): string {
+  const { label_width_mm: width, label_height_mm: height } = stock;
+  const elements = layoutLabel(asset, options, width, height);
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}mm" height="${height}mm" viewBox="0 0 ${width} ${height}"><rect width="${width}" height="${height}" fill="#fff"/>${renderSvgElements(elements, 0, 0)}</svg>`;
+}
+
+/**
+ * Render label sheets as SVG documents (one per page)
+ */
+export function renderLabelSheetSvg(
+  assets: LabelAsset[],
+  stock: LabelStock,
+  options: LabelOptions,
+  skip: number = 0
+): string[] {
+  const { page_width_mm: pageWidth, page_height_mm: pageHeight } = stock;
+
+  return paginate(assets, stock, skip).map(page => {
+    const body = page
+      .map(({ asset, x, y }) =>
+        renderSvgElements(
+          layoutLabel(asset, options, stock.label_width_mm, stock.label_height_mm),
+          x,
+          y
+        )
+      )
+      .join('');
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${pageWidth}mm" height="${pageHeight}mm" viewBox="0 0 ${pageWidth} ${pageHeight}"><rect width="${pageWidth}" height="${pageHeight}" fill="#fff"/>${body}</svg>`;
+  });
+}
+
+// ==========================================
+// PDF RENDERING
+// ==========================================
+
+/**
+ * Render label sheets as a PDF, one page per sheet. jsPDF is loaded on
+ * demand to keep it out of the main bundle.
+ */
+export async function renderLabelSheetPdf(
+  assets: LabelAsset[],
+  stock: LabelStock,
+  options: LabelOptions,
+  skip: number = 0
+): Promise<Blob> {
+  const { jsPDF } = await import('jspdf');
+  const { page_width_mm: pageWidth, page_height_mm: pageHeight } = stock;
+  const orientation = pageWidth > pageHeight ? 'landscape' : 'portrait';
+  const pdf = new jsPDF({ unit: 'mm', format: [pageWidth, pageHeight], orientation });
+
+  paginate(assets, stock, skip).forEach((page, pageIndex) => {
+    if (pageIndex > 0) {
+      pdf.addPage([pageWidth, pageHeight], orientation);
+    }
+
+    for (const { asset, x, y } of page) {
+      const elements = layoutLabel(asset, options, stock.label_width_mm, stock.label_height_mm);
+
+      for (const el of elements) {
+        if (el.kind === 'rect') {
+          pdf.rect(x + el.x, y + el.y, el.width, el.height, 'F');
+        } else {
+          pdf.setFont(el.mono ? 'courier' : 'helvetica', el.bold ? 'bold' : 'normal');
+          pdf.setFontSize(el.size / MM_PER_PT);
+          pdf.text(el.text, x + el.x, y + el.y, {
+            align: el.anchor === 'middle' ? 'center' : 'left',
+          });
+        }
+      }
+    }
+  });
+
+  return pdf.output('blob');
+}
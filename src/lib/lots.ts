@@ -0,0 +1,156 @@
+/* ============================================
+   TENAXIS - Stock Lots
+   Lot quantities, expiry and first-expiry-first-out picking
+   ============================================ */
+
+import { toMillis } from './reservations';
+import type { StockLot, StockLotMovement, Timestamp } from '@/types';
+
+export interface LotPick {
+  remaining: StockLot[];
+  picked: StockLotMovement[];
+  shortfall: number; // Quantity the lots could not cover
+}
+
+// ==========================================
+// EXPIRY
+// ==========================================
+
+/**
+ * Whether a lot has reached its expiry date
+ */
+export function isLotExpired(lot: Pick<StockLot, 'expiry_date'>, now: Date = new Date()): boolean {
+  return !!lot.expiry_date && toMillis(lot.expiry_date) <= now.getTime();
+}
+
+/**
+ * Total quantity held in lots
+ */
+export function getLotQuantity(lots: Pick<StockLot, 'quantity'>[] = []): number {
+  return lots.reduce((sum, lot) => sum + lot.quantity, 0);
+}
+
+/**
+ * Quantity of a stock record that may still be issued, i.e. everything
+ * except expired lots
+ */
+export function getUsableQuantity(
+  quantity: number,
+  lots: StockLot[] = [],
+  now: Date = new Date()
+): number {
+  return quantity - getLotQuantity(lots.filter(lot => isLotExpired(lot, now)));
+}
+
+/**
+ * Lots ordered for picking: earliest expiry first, lots without an expiry
+ * last, oldest receipt first within the same expiry
+ */
+export function sortLotsForPicking(lots: StockLot[]): StockLot[] {
+  const expiryOf = (lot: StockLot) => (lot.expiry_date ? toMillis(lot.expiry_date) : Infinity);
+  return [...lots].sort(
+    (a, b) => expiryOf(a) - expiryOf(b) || toMillis(a.received_at) - toMillis(b.received_at)
+  );
+}
+
+// ==========================================
+// MOVEMENTS
+// ==========================================
+
+/**
+ * Add received quantity to a lot, merging with the lot already held under
+ * the same number
+ */
+export function receiveLot(
+  lots: StockLot[] = [],
+  movement: StockLotMovement,
+  receivedAt: Timestamp,
+  receivedBy: string
+): StockLot[] {
+  const lotNumber = movement.lot_number.trim();
+  if (!lotNumber) {
+    throw new Error('Lot number is required');
+  }
+
+  const existing = lots.find(lot => lot.lot_number === lotNumber);
+  if (!existing) {
+    return [
+      ...lots,
+      {
+        lot_number: lotNumber,
+        quantity: movement.quantity,
+        ...(movement.expiry_date && { expiry_date: movement.expiry_date }),
+        received_at: receivedAt,
+        received_by: receivedBy,
+      },
+    ];
+  }
+
+  const sameExpiry =
+    (existing.expiry_date ? toMillis(existing.expiry_date) : null) ===
+    (movement.expiry_date ? toMillis(movement.expiry_date) : null);
+  if (!sameExpiry) {
+    throw new Error(`Lot ${lotNumber} is already held with a different expiry date`);
+  }
+
+  return lots.map(lot =>
+    lot === existing ? { ...lot, quantity: lot.quantity + movement.quantity } : lot
+  );
+}
+
+/**
+ * Take a quantity from lots first-expiry-first-out. Expired lots are
+ * skipped unless included explicitly (e.g. for a count correction).
+ */
+export function pickLots(
+  lots: StockLot[] = [],
+  quantity: number,
+  now: Date = new Date(),
+  includeExpired: boolean = false
+): LotPick {
+  const picked: StockLotMovement[] = [];
+  const taken = new Map<string, number>();
+  let outstanding = quantity;
+
+  for (const lot of sortLotsForPicking(lots)) {
+    if (outstanding <= 0) break;
+    if (!includeExpired && isLotExpired(lot, now)) continue;
+
+    const take = Math.min(lot.quantity, outstanding);
+    outstanding -= take;
+    taken.set(lot.lot_number, take);
+    picked.push({
+      lot_number: lot.lot_number,
+      quantity: take,
+      ...(lot.expiry_date && { expiry_date: lot.expiry_date }),
+    });
+  }
+
+  const remaining = lots
+    .map(lot => ({ ...lot, quantity: lot.quantity - (taken.get(lot.lot_number) || 0) }))
+    .filter(lot => lot.quantity > 0);
+
+  return { remaining, picked, shortfall: outstanding };
+}
+
+/**
+ * Split a quantity off a list of lot movements in order, e.g. the part of
+ * an in-transit transfer that arrived in good condition
+ */
+export function splitLots(
+  lots: StockLotMovement[] = [],
+  quantity: number
+): { taken: StockLotMovement[]; rest: StockLotMovement[] } {
+  const taken: StockLotMovement[] = [];
+  const rest: StockLotMovement[] = [];
+  let outstanding = quantity;
+
+  for (const lot of lots) {
+    const take = Math.min(lot.quantity, outstanding);
+    outstanding -= take;
+    if (take > 0) taken.push({ ...lot, quantity: take });
+    if (lot.quantity > take) rest.push({ ...lot, quantity: lot.quantity - take });
+  }
+
+  return { taken, rest };
+}
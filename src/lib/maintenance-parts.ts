@@ -0,0 +1,67 @@
+/* ============================================
+   TENAXIS - Maintenance Parts
+   Parts used on tickets: validation, stock lines and cost
+   ============================================ */
+
+import type { ConsumableKitComponent, MaintenancePart, StockTransaction } from '@/types';
+
+/**
+ * Throw unless every part is named and used in a positive quantity.
+ * Parts taken from stock must be whole units of the consumable.
+ */
+export function assertValidParts(parts: MaintenancePart[]): void {
+  for (const part of parts) {
+    if (!part.name.trim()) {
+      throw new Error('Name every part');
+    }
+    if (!(part.quantity > 0)) {
+      throw new Error(`Enter how many of ${part.name} were used`);
+    }
+    if (part.consumable_id && !Number.isInteger(part.quantity)) {
+      throw new Error(`${part.name} is taken from stock in whole units`);
+    }
+    if (part.unit_cost !== undefined && !(part.unit_cost >= 0)) {
+      throw new Error(`Unit cost of ${part.name} cannot be negative`);
+    }
+  }
+}
+
+/**
+ * Stock to issue for a ticket's parts, one line per consumable. Parts
+ * already issued and parts not held in stock are left out.
+ */
+export function getPartsToIssue(parts: MaintenancePart[]): ConsumableKitComponent[] {
+  const quantities = new Map<string, number>();
+  for (const part of parts) {
+    if (!part.consumable_id || part.stock_transaction_id) continue;
+    quantities.set(part.consumable_id, (quantities.get(part.consumable_id) ?? 0) + part.quantity);
+  }
+  return [...quantities].map(([consumable_id, quantity]) => ({ consumable_id, quantity }));
+}
+
+/**
+ * Stamp parts with the stock issue that covered them and the cost per unit
+ * it was issued at
+ */
+export function applyIssuedCosts(
+  parts: MaintenancePart[],
+  issued: StockTransaction[]
+): MaintenancePart[] {
+  const byConsumable = new Map(issued.map(t => [t.consumable_id, t]));
+  return parts.map(part => {
+    const transaction = part.consumable_id ? byConsumable.get(part.consumable_id) : undefined;
+    if (!transaction || part.stock_transaction_id) return part;
+    return {
+      ...part,
+      unit_cost: transaction.quantity > 0 ? (transaction.total_cost ?? 0) / transaction.quantity : 0,
+      stock_transaction_id: transaction.id,
+    };
+  });
+}
+
+/**
+ * Total cost of the parts used on a ticket
+ */
+export function getPartsCost(parts: MaintenancePart[]): number {
+  return parts.reduce((sum, part) => sum + part.quantity * (part.unit_cost ?? 0), 0);
+}
@@ -21,6 +21,8 @@ export const MODULES = {
   DEPARTMENTS: 'departments',
   USERS: 'users',
   VENDORS: 'vendors',
+  PURCHASING: 'purchasing',
+  STOCK_REQUESTS: 'stock_requests',
   REPORTS: 'reports',
   AUDIT_LOGS: 'audit_logs',
   SETTINGS: 'settings',
@@ -60,7 +62,7 @@ export const ROLE_PERMISSIONS: Record<UserRole, Record<ModuleValue, ActionValue[
   SUPER_ADMIN: {
     [MODULES.DASHBOARD]: ALL_ACTIONS,
     [MODULES.ASSETS]: ALL_ACTIONS,
-    [MODULES.CONSUMABLES]: ALL_ACTIONS,
+    [MODULES.CONSUMABLES]: [...ALL_ACTIONS, 'approve'],
     [MODULES.MAINTENANCE]: ALL_ACTIONS,
     [MODULES.PROJECTS]: ALL_ACTIONS,
     [MODULES.ORGANIZATIONS]: ALL_ACTIONS,
@@ -69,6 +71,8 @@ export const ROLE_PERMISSIONS: Record<UserRole, Record<ModuleValue, ActionValue[
     [MODULES.DEPARTMENTS]: ALL_ACTIONS,
     [MODULES.USERS]: ALL_ACTIONS,
     [MODULES.VENDORS]: ALL_ACTIONS,
+    [MODULES.PURCHASING]: [...ALL_ACTIONS, 'approve'],
+    [MODULES.STOCK_REQUESTS]: [...ALL_ACTIONS, 'approve'],
     [MODULES.REPORTS]: ALL_ACTIONS,
     [MODULES.AUDIT_LOGS]: ['read', 'export'],
     [MODULES.SETTINGS]: ALL_ACTIONS,
@@ -78,7 +82,7 @@ export const ROLE_PERMISSIONS: Record<UserRole, Record<ModuleValue, ActionValue[
   TENANT_ADMIN: {
     [MODULES.DASHBOARD]: ALL_ACTIONS,
     [MODULES.ASSETS]: ALL_ACTIONS,
-    [MODULES.CONSUMABLES]: ALL_ACTIONS,
+    [MODULES.CONSUMABLES]: [...ALL_ACTIONS, 'approve'],
     [MODULES.MAINTENANCE]: ALL_ACTIONS,
     [MODULES.PROJECTS]: ALL_ACTIONS,
     [MODULES.ORGANIZATIONS]: ALL_ACTIONS,
@@ -87,6 +91,8 @@ export const ROLE_PERMISSIONS: Record<UserRole, Record<ModuleValue, ActionValue[
     [MODULES.DEPARTMENTS]: ALL_ACTIONS,
     [MODULES.USERS]: ALL_ACTIONS,
     [MODULES.VENDORS]: ALL_ACTIONS,
+    [MODULES.PURCHASING]: [...ALL_ACTIONS, 'approve'],
+    [MODULES.STOCK_REQUESTS]: [...ALL_ACTIONS, 'approve'],
     [MODULES.REPORTS]: ALL_ACTIONS,
     [MODULES.AUDIT_LOGS]: ['read', 'export'],
     [MODULES.SETTINGS]: ALL_ACTIONS,
@@ -96,7 +102,7 @@ export const ROLE_PERMISSIONS: Record<UserRole, Record<ModuleValue, ActionValue[
   ORG_ADMIN: {
     [MODULES.DASHBOARD]: ['read'],
     [MODULES.ASSETS]: ALL_ACTIONS,
-    [MODULES.CONSUMABLES]: ALL_ACTIONS,
+    [MODULES.CONSUMABLES]: [...ALL_ACTIONS, 'approve'],
     [MODULES.MAINTENANCE]: ALL_ACTIONS,
     [MODULES.PROJECTS]: ALL_ACTIONS,
     [MODULES.ORGANIZATIONS]: ['read', 'update'],
@@ -105,6 +111,8 @@ export const ROLE_PERMISSIONS: Record<UserRole, Record<ModuleValue, ActionValue[
     [MODULES.DEPARTMENTS]: ALL_ACTIONS,
     [MODULES.USERS]: ALL_ACTIONS,
     [MODULES.VENDORS]: ALL_ACTIONS,
+    [MODULES.PURCHASING]: READ_CREATE_UPDATE,
+    [MODULES.STOCK_REQUESTS]: [...READ_CREATE_UPDATE, 'approve'],
     [MODULES.REPORTS]: ['read', 'export'],
     [MODULES.AUDIT_LOGS]: ['read'],
     [MODULES.SETTINGS]: ['read', 'update'],
@@ -114,7 +122,7 @@ export const ROLE_PERMISSIONS: Record<UserRole, Record<ModuleValue, ActionValue[
   IT_ADMIN: {
     [MODULES.DASHBOARD]: ['read'],
     [MODULES.ASSETS]: ALL_ACTIONS,
-    [MODULES.CONSUMABLES]: ALL_ACTIONS,
+    [MODULES.CONSUMABLES]: [...ALL_ACTIONS, 'approve'],
     [MODULES.MAINTENANCE]: ALL_ACTIONS,
     [MODULES.PROJECTS]: READ_CREATE_UPDATE,
     [MODULES.ORGANIZATIONS]: ['read'],
@@ -123,6 +131,8 @@ export const ROLE_PERMISSIONS: Record<UserRole, Record<ModuleValue, ActionValue[
     [MODULES.DEPARTMENTS]: ['read'],
     [MODULES.USERS]: ['read'],
     [MODULES.VENDORS]: READ_CREATE_UPDATE,
+    [MODULES.PURCHASING]: READ_CREATE_UPDATE,
+    [MODULES.STOCK_REQUESTS]: [...READ_CREATE_UPDATE, 'approve'],
     [MODULES.REPORTS]: ['read', 'export'],
     [MODULES.AUDIT_LOGS]: ['read'],
     [MODULES.SETTINGS]: ['read'],
@@ -141,6 +151,8 @@ export const ROLE_PERMISSIONS: Record<UserRole, Record<ModuleValue, ActionValue[
     [MODULES.DEPARTMENTS]: ['read'],
     [MODULES.USERS]: ['read'],
     [MODULES.VENDORS]: ['read'],
+    [MODULES.PURCHASING]: ['read', 'create'],
+    [MODULES.STOCK_REQUESTS]: ['read', 'create'],
     [MODULES.REPORTS]: ['read'],
     [MODULES.AUDIT_LOGS]: [],
     [MODULES.SETTINGS]: [],
@@ -159,6 +171,8 @@ export const ROLE_PERMISSIONS: Record<UserRole, Record<ModuleValue, ActionValue[
     [MODULES.DEPARTMENTS]: READ_CREATE_UPDATE,
     [MODULES.USERS]: ['read'],
     [MODULES.VENDORS]: ['read'],
+    [MODULES.PURCHASING]: READ_CREATE_UPDATE,
+    [MODULES.STOCK_REQUESTS]: [...READ_CREATE_UPDATE, 'approve'],
     [MODULES.REPORTS]: ['read', 'export'],
     [MODULES.AUDIT_LOGS]: [],
     [MODULES.SETTINGS]: ['read'],
@@ -177,6 +191,8 @@ export const ROLE_PERMISSIONS: Record<UserRole, Record<ModuleValue, ActionValue[
     [MODULES.DEPARTMENTS]: ['read'],
     [MODULES.USERS]: ['read'],
     [MODULES.VENDORS]: ['read', 'export'],
+    [MODULES.PURCHASING]: ['read', 'update', 'export', 'approve'],
+    [MODULES.STOCK_REQUESTS]: ['read', 'create'],
     [MODULES.REPORTS]: ['read', 'export'],
     [MODULES.AUDIT_LOGS]: ['read'],
     [MODULES.SETTINGS]: [],
@@ -195,6 +211,8 @@ export const ROLE_PERMISSIONS: Record<UserRole, Record<ModuleValue, ActionValue[
     [MODULES.DEPARTMENTS]: ['read'],
     [MODULES.USERS]: ['read'],
     [MODULES.VENDORS]: ['read'],
+    [MODULES.PURCHASING]: READ_ONLY,
+    [MODULES.STOCK_REQUESTS]: ['read', 'create'],
     [MODULES.REPORTS]: ['read', 'export'],
     [MODULES.AUDIT_LOGS]: ['read'],
     [MODULES.SETTINGS]: [],
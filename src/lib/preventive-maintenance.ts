@@ -0,0 +1,211 @@
+/* ============================================
+   TENAXIS - Preventive Maintenance
+   Due dates, ticket generation windows and compliance for PM plans
+   ============================================ */
+
+import { toMillis } from './reservations';
+import type {
+  MaintenanceCalendarRule,
+  MaintenanceComplianceSummary,
+  MaintenancePlan,
+  MaintenancePlanAssetState,
+  MaintenanceTicket,
+} from '@/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Guards the occurrence search against a plan whose rule never advances
+const MAX_OCCURRENCES = 10000;
+
+export type MaintenanceOutcome = keyof Omit<MaintenanceComplianceSummary, 'compliance_rate'>;
+
+// ==========================================
+// SCHEDULES
+// ==========================================
+
+/**
+ * Throw unless the plan's schedule settings are complete for its trigger
+ */
+export function assertValidSchedule(
+  plan: Pick<
+    MaintenancePlan,
+    'trigger' | 'interval_days' | 'usage_hours_interval' | 'calendar_rule' | 'lead_days'
+  >
+): void {
+  if (!Number.isInteger(plan.lead_days) || plan.lead_days < 0) {
+    throw new Error('Lead time must be zero or more whole days');
+  }
+
+  if (plan.trigger === 'interval_days') {
+    if (!Number.isInteger(plan.interval_days) || plan.interval_days! <= 0) {
+      throw new Error('Enter how many days apart the maintenance falls');
+    }
+  } else if (plan.trigger === 'usage_hours') {
+    if (!(plan.usage_hours_interval! > 0)) {
+      throw new Error('Enter how many usage hours apart the maintenance falls');
+    }
+  } else {
+    const rule = plan.calendar_rule;
+    if (!rule || !Number.isInteger(rule.interval) || rule.interval <= 0) {
+      throw new Error('Enter how often the calendar rule repeats');
+    }
+    if (rule.frequency === 'weekly' && !(rule.day_of_week! >= 0 && rule.day_of_week! <= 6)) {
+      throw new Error('Choose the day of the week');
+    }
+    if (rule.frequency !== 'weekly' && !(rule.day_of_month! >= 1 && rule.day_of_month! <= 28)) {
+      throw new Error('Choose a day of the month between 1 and 28');
+    }
+    if (rule.frequency === 'yearly' && !(rule.month! >= 1 && rule.month! <= 12)) {
+      throw new Error('Choose the month');
+    }
+  }
+}
+
+/**
+ * First date on or after the start that matches a calendar rule
+ */
+function getFirstCalendarDate(rule: MaintenanceCalendarRule, start: Date): Date {
+  const year = start.getFullYear();
+  const month = start.getMonth();
+
+  if (rule.frequency === 'weekly') {
+    const offset = (rule.day_of_week! - start.getDay() + 7) % 7;
+    return new Date(year, month, start.getDate() + offset);
+  }
+  if (rule.frequency === 'monthly') {
+    const date = new Date(year, month, rule.day_of_month!);
+    return date < start ? new Date(year, month + 1, rule.day_of_month!) : date;
+  }
+  const date = new Date(year, rule.month! - 1, rule.day_of_month!);
+  return date < start ? new Date(year + 1, rule.month! - 1, rule.day_of_month!) : date;
+}
+
+/**
+ * The nth due date of a day or calendar schedule, counting from zero
+ */
+export function getOccurrence(
+  plan: Pick<MaintenancePlan, 'trigger' | 'interval_days' | 'calendar_rule' | 'start_date'>,
+  index: number
+): Date {
+  const start = new Date(toMillis(plan.start_date));
+  start.setHours(0, 0, 0, 0);
+
+  if (plan.trigger === 'interval_days') {
+    const days = index * plan.interval_days!;
+    return new Date(start.getFullYear(), start.getMonth(), start.getDate() + days);
+  }
+
+  const rule = plan.calendar_rule!;
+  const first = getFirstCalendarDate(rule, start);
+  const step = index * rule.interval;
+  if (rule.frequency === 'weekly') {
+    return new Date(first.getFullYear(), first.getMonth(), first.getDate() + step * 7);
+  }
+  if (rule.frequency === 'monthly') {
+    return new Date(first.getFullYear(), first.getMonth() + step, first.getDate());
+  }
+  return new Date(first.getFullYear() + step, first.getMonth(), first.getDate());
+}
+
+/**
+ * Next due date of a day or calendar schedule for one asset: the first
+ * occurrence after the last ticket's due date. When the schedule has
+ * fallen behind, missed occurrences are skipped so only the latest one
+ * becomes an (overdue) ticket.
+ */
+export function getNextDueDate(
+  plan: Pick<MaintenancePlan, 'trigger' | 'interval_days' | 'calendar_rule' | 'start_date'>,
+  state: MaintenancePlanAssetState | undefined,
+  now: Date = new Date()
+): Date {
+  const lastDue = state?.last_due_at ? toMillis(state.last_due_at) : -Infinity;
+
+  let index = 0;
+  while (getOccurrence(plan, index).getTime() <= lastDue && index < MAX_OCCURRENCES) {
+    index++;
+  }
+  while (getOccurrence(plan, index + 1) <= now && index < MAX_OCCURRENCES) {
+    index++;
+  }
+  return getOccurrence(plan, index);
+}
+
+/**
+ * Whether a ticket due on the given date should be raised now
+ */
+export function isWithinLeadTime(dueDate: Date, leadDays: number, now: Date = new Date()): boolean {
+  return dueDate.getTime() - leadDays * DAY_MS <= now.getTime();
+}
+
+/**
+ * Usage reading at which the next usage-based ticket is due for an asset
+ */
+export function getNextUsageThreshold(
+  plan: Pick<MaintenancePlan, 'usage_hours_interval'>,
+  state: MaintenancePlanAssetState | undefined
+): number {
+  return (state?.last_usage_hours ?? 0) + plan.usage_hours_interval!;
+}
+
+/**
+ * Local calendar date as YYYYMMDD, the due point of a day or calendar ticket
+ */
+export function getDueDateKey(date: Date): string {
+  return [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0'),
+  ].join('');
+}
+
+/**
+ * Deterministic ID of the ticket a plan raises for an asset and due point,
+ * so overlapping generator runs never raise the same ticket twice
+ */
+export function getPlanTicketId(planId: string, assetId: string, dueKey: string): string {
+  return `pm-${planId}-${assetId}-${dueKey}`;
+}
+
+// ==========================================
+// COMPLIANCE
+// ==========================================
+
+/**
+ * How a preventive ticket stands against its due date. A ticket completed
+ * any time on its due day is on time. Cancelled and undated tickets do
+ * not count.
+ */
+export function getMaintenanceOutcome(
+  ticket: Pick<MaintenanceTicket, 'status' | 'due_date' | 'completed_at'>,
+  now: Date = new Date()
+): MaintenanceOutcome | null {
+  if (!ticket.due_date || ticket.status === 'cancelled') return null;
+
+  const dueEnd = new Date(toMillis(ticket.due_date));
+  dueEnd.setHours(23, 59, 59, 999);
+
+  if (ticket.status === 'completed') {
+    return ticket.completed_at && toMillis(ticket.completed_at) > dueEnd.getTime()
+      ? 'late'
+      : 'on_time';
+  }
+  return now > dueEnd ? 'overdue' : 'upcoming';
+}
+
+/**
+ * On-time, late, overdue and upcoming counts for a set of preventive
+ * tickets, with the share of due tickets done on time
+ */
+export function getComplianceSummary(
+  tickets: Pick<MaintenanceTicket, 'status' | 'due_date' | 'completed_at'>[],
+  now: Date = new Date()
+): MaintenanceComplianceSummary {
+  const summary = { on_time: 0, late: 0, overdue: 0, upcoming: 0 };
+  for (const ticket of tickets) {
+    const outcome = getMaintenanceOutcome(ticket, now);
+    if (outcome) summary[outcome]++;
+  }
+
+  const due = summary.on_time + summary.late + summary.overdue;
+  return { ...summary, compliance_rate: due > 0 ? (summary.on_time / due) * 100 : null };
+}
@@ -0,0 +1,131 @@
+/* ============================================
+   TENAXIS - Purchasing
+   Requisition lines, reorder quantities and goods receipt rules
+   ============================================ */
+
+import type {
+  Consumable,
+  GoodsReceiptLine,
+  PurchaseLine,
+  PurchaseOrderStatus,
+} from '@/types';
+
+// ==========================================
+// LINES
+// ==========================================
+
+/**
+ * Quantity to reorder for a consumable at or below its minimum. Uses the
+ * consumable's reorder quantity, or tops stock up to twice the minimum.
+ */
+export function getReorderQuantity(
+  consumable: Pick<Consumable, 'minimum_stock' | 'reorder_quantity'>,
+  onHand: number
+): number {
+  if (consumable.reorder_quantity && consumable.reorder_quantity > 0) {
+    return consumable.reorder_quantity;
+  }
+  return Math.max(consumable.minimum_stock * 2 - onHand, 1);
+}
+
+/**
+ * Total cost of a set of lines
+ */
+export function getLinesTotal(lines: Pick<PurchaseLine, 'quantity' | 'unit_cost'>[]): number {
+  return lines.reduce((sum, line) => sum + line.quantity * (line.unit_cost || 0), 0);
+}
+
+/**
+ * Quantity of a purchase order line still to be delivered
+ */
+export function getOutstandingQuantity(line: PurchaseLine): number {
+  return Math.max(line.quantity - (line.received_quantity || 0), 0);
+}
+
+/**
+ * Throw unless every line names its item and has a usable quantity and cost
+ */
+export function assertValidLines(lines: PurchaseLine[]): void {
+  if (lines.length === 0) {
+    throw new Error('Add at least one line');
+  }
+
+  for (const line of lines) {
+    if (!line.description.trim()) {
+      throw new Error('Every line needs a description');
+    }
+    if (line.item_type === 'consumable' && !line.consumable_id) {
+      throw new Error(`Select the consumable for "${line.description}"`);
+    }
+    if (line.item_type === 'asset' && !line.asset_category_id) {
+      throw new Error(`Select the asset category for "${line.description}"`);
+    }
+    if (!Number.isFinite(line.quantity) || line.quantity <= 0) {
+      throw new Error(`Quantity for "${line.description}" must be greater than zero`);
+    }
+    if (line.item_type === 'asset' && !Number.isInteger(line.quantity)) {
+      throw new Error(`Assets are received as whole units ("${line.description}")`);
+    }
+    if (!Number.isFinite(line.unit_cost) || line.unit_cost < 0) {
+      throw new Error(`Unit cost for "${line.description}" cannot be negative`);
+    }
+  }
+}
+
+// ==========================================
+// GOODS RECEIPT
+// ==========================================
+
+/**
+ * Apply received quantities to purchase order lines, refusing anything
+ * that would receive more than was ordered
+ */
+export function applyReceipt(
+  lines: PurchaseLine[],
+  received: Pick<GoodsReceiptLine, 'line_id' | 'quantity'>[]
+): PurchaseLine[] {
+  const updated = lines.map(line => ({ ...line }));
+
+  for (const entry of received) {
+    const line = updated.find(l => l.id === entry.line_id);
+    if (!line) {
+      throw new Error('Receipt refers to a line that is not on this order');
+    }
+    if (!Number.isFinite(entry.quantity) || entry.quantity <= 0) {
+      throw new Error(`Received quantity for "${line.description}" must be greater than zero`);
+    }
+    if (line.item_type === 'asset' && !Number.isInteger(entry.quantity)) {
+      throw new Error(`Assets are received as whole units ("${line.description}")`);
+    }
+
+    const outstanding = getOutstandingQuantity(line);
+    if (entry.quantity > outstanding) {
+      throw new Error(
+        `Cannot receive ${entry.quantity} of "${line.description}": only ${outstanding} outstanding`
+      );
+    }
+    line.received_quantity = (line.received_quantity || 0) + entry.quantity;
+  }
+
+  return updated;
+}
+
+/**
+ * Status of an open purchase order given what has been received so far
+ */
+export function getReceivingStatus(lines: PurchaseLine[]): PurchaseOrderStatus {
+  if (lines.every(line => getOutstandingQuantity(line) === 0)) {
+    return 'received';
+  }
+  if (lines.some(line => (line.received_quantity || 0) > 0)) {
+    return 'partially_received';
+  }
+  return 'issued';
+}
+
+/**
+ * Whether goods can still be received against an order
+ */
+export function isReceivable(status: PurchaseOrderStatus): boolean {
+  return status === 'issued' || status === 'partially_received';
+}
@@ -0,0 +1,150 @@
+/* ============================================
+   TENAXIS - Reorder Planning
+   Usage, lead times and reorder points for consumables
+   ============================================ */
+
+import { DEFAULT_LEAD_TIME_DAYS, REORDER_COVER_DAYS } from './constants';
+import { getOutstandingQuantity, getReorderQuantity } from './purchasing';
+import { toMillis } from './reservations';
+import { findUnitFactor } from './units';
+import type {
+  Consumable,
+  PurchaseLine,
+  PurchaseOrder,
+  ReorderSuggestion,
+  StockTransaction,
+  Vendor,
+} from '@/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ==========================================
+// DEMAND
+// ==========================================
+
+/**
+ * Average quantity issued per day over the lookback window
+ */
+export function getAverageDailyUsage(
+  issues: Pick<StockTransaction, 'quantity'>[],
+  lookbackDays: number
+): number {
+  if (lookbackDays <= 0) return 0;
+  const total = issues.reduce((sum, issue) => sum + issue.quantity, 0);
+  return total / lookbackDays;
+}
+
+// ==========================================
+// LEAD TIMES
+// ==========================================
+
+/**
+ * Average days from issuing an order to its first delivery, per vendor
+ */
+export function getVendorLeadTimes(
+  orders: Pick<PurchaseOrder, 'vendor_id' | 'created_at' | 'first_received_at'>[]
+): Map<string, number> {
+  const samples = new Map<string, number[]>();
+
+  for (const order of orders) {
+    if (!order.first_received_at) continue;
+    const days = (toMillis(order.first_received_at) - toMillis(order.created_at)) / DAY_MS;
+    samples.set(order.vendor_id, [...(samples.get(order.vendor_id) || []), Math.max(days, 0)]);
+  }
+
+  return new Map(
+    [...samples].map(([vendorId, days]) => [
+      vendorId,
+      Math.ceil(days.reduce((sum, d) => sum + d, 0) / days.length),
+    ])
+  );
+}
+
+/**
+ * Lead time to plan with: measured delivery history first, then the
+ * vendor's quoted lead time, then the default
+ */
+export function resolveLeadTime(
+  vendor: Pick<Vendor, 'id' | 'lead_time_days'> | undefined,
+  measured: Map<string, number>
+): Pick<ReorderSuggestion, 'lead_time_days' | 'lead_time_source'> {
+  if (vendor && measured.has(vendor.id)) {
+    return { lead_time_days: measured.get(vendor.id)!, lead_time_source: 'history' };
+  }
+  if (vendor?.lead_time_days) {
+    return { lead_time_days: vendor.lead_time_days, lead_time_source: 'vendor' };
+  }
+  return { lead_time_days: DEFAULT_LEAD_TIME_DAYS, lead_time_source: 'default' };
+}
+
+// ==========================================
+// PLAN
+// ==========================================
+
+/**
+ * Stock level at which to reorder: expected usage while the order is in
+ * transit, on top of the minimum held as safety stock
+ */
+export function getReorderPoint(
+  averageDailyUsage: number,
+  leadTimeDays: number,
+  minimumStock: number
+): number {
+  return Math.ceil(averageDailyUsage * leadTimeDays) + minimumStock;
+}
+
+/**
+ * Quantity to order so stock covers the lead time plus the cover period
+ * above the minimum, rounded up to whole reorder packs. Items with no
+ * usage history fall back to the consumable's reorder quantity. Either
+ * way the result is rounded up to whole purchase units.
+ */
+export function getSuggestedQuantity(
+  consumable: Pick<Consumable, 'minimum_stock' | 'reorder_quantity'>,
+  averageDailyUsage: number,
+  leadTimeDays: number,
+  position: number,
+  purchaseFactor: number = 1
+): number {
+  const toPurchaseUnits = (quantity: number) =>
+    Math.ceil(quantity / purchaseFactor) * purchaseFactor;
+
+  if (averageDailyUsage === 0) {
+    return toPurchaseUnits(getReorderQuantity(consumable, position));
+  }
+
+  const target =
+    Math.ceil(averageDailyUsage * (leadTimeDays + REORDER_COVER_DAYS)) + consumable.minimum_stock;
+  const needed = Math.max(target - position, 0);
+
+  const pack = consumable.reorder_quantity;
+  return toPurchaseUnits(pack && pack > 0 ? Math.ceil(needed / pack) * pack : needed);
+}
+
+/**
+ * Quantity of a consumable, in its base unit, still to arrive on open
+ * purchase orders and requisitions that have not been ordered yet. Lines
+ * in a unit the item no longer converts from are counted as base units.
+ */
+export function getOnOrderQuantity(
+  records: { lines: PurchaseLine[] }[],
+  consumable: Pick<Consumable, 'id' | 'unit' | 'unit_conversions'>
+): number {
+  return records
+    .flatMap(record => record.lines)
+    .filter(line => line.consumable_id === consumable.id)
+    .reduce(
+      (sum, line) =>
+        sum + getOutstandingQuantity(line) * (findUnitFactor(consumable, line.unit) ?? 1),
+      0
+    );
+}
+
+/**
+ * Whether a stock position has reached its reorder point
+ */
+export function needsReorder(
+  suggestion: Pick<ReorderSuggestion, 'on_hand' | 'on_order' | 'reorder_point'>
+): boolean {
+  return suggestion.on_hand + suggestion.on_order <= suggestion.reorder_point;
+}
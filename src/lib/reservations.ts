@@ -0,0 +1,166 @@
+/* ============================================
+   TENAXIS - Asset Reservations
+   Conflict checks, status transitions and calendar grids
+   ============================================ */
+
+import type { Asset, AssetReservation, Timestamp } from '@/types';
+
+type ReservationAsset = Pick<Asset, 'status' | 'current_checkout_id' | 'current_reservation_id'>;
+
+export interface ReservationTransition {
+  action: 'hold' | 'release';
+  reservation_id: string;
+}
+
+// Reservations that still occupy their time slot
+export const BLOCKING_RESERVATION_STATUSES = ['booked', 'active'] as const;
+
+// ==========================================
+// TIME RANGES
+// ==========================================
+
+/**
+ * Convert a Firestore timestamp to epoch milliseconds
+ */
+export function toMillis(value: Timestamp): number {
+  return value.seconds * 1000 + Math.floor(value.nanoseconds / 1e6);
+}
+
+/**
+ * Check whether two half-open ranges [start, end) overlap
+ */
+export function rangesOverlap(
+  startA: number,
+  endA: number,
+  startB: number,
+  endB: number
+): boolean {
+  return startA < endB && startB < endA;
+}
+
+/**
+ * Find reservations that still hold a slot overlapping [start, end)
+ */
+export function findReservationConflicts(
+  reservations: AssetReservation[],
+  start: Date,
+  end: Date,
+  excludeId?: string
+): AssetReservation[] {
+  return reservations.filter(
+    r =>
+      r.id !== excludeId &&
+      (BLOCKING_RESERVATION_STATUSES as readonly string[]).includes(r.status) &&
+      rangesOverlap(toMillis(r.start_at), toMillis(r.end_at), start.getTime(), end.getTime())
+  );
+}
+
+// ==========================================
+// STATUS TRANSITIONS
+// ==========================================
+
+/**
+ * Booked reservations whose window ended without a pick-up
+ */
+export function getExpiredReservations(
+  reservations: AssetReservation[],
+  now: Date
+): AssetReservation[] {
+  return reservations.filter(
+    r => r.status === 'booked' && toMillis(r.end_at) <= now.getTime()
+  );
+}
+
+/**
+ * Work out the asset status change a reservation window calls for.
+ *
+ * - An available asset is held (`reserved`) once a booked window starts.
+ * - A held asset is released (`available`) when its window ends unclaimed
+ *   or the reservation is no longer booked.
+ *
+ * Picked-up reservations move the asset to `in_use` explicitly and are
+ * never released automatically; an overdue return stays in use.
+ */
+export function getDueTransition(
+  asset: ReservationAsset,
+  reservations: AssetReservation[],
+  now: Date
+): ReservationTransition | null {
+  const nowMs = now.getTime();
+
+  if (asset.current_reservation_id) {
+    const held = reservations.find(r => r.id === asset.current_reservation_id);
+    const stillHeld =
+      !!held && held.status === 'booked' && toMillis(held.end_at) > nowMs;
+    if (asset.status === 'reserved' && !stillHeld) {
+      return { action: 'release', reservation_id: asset.current_reservation_id };
+    }
+    return null;
+  }
+
+  if (asset.status !== 'available' || asset.current_checkout_id) {
+    return null;
+  }
+
+  const due = reservations
+    .filter(
+      r =>
+        r.status === 'booked' &&
+        toMillis(r.start_at) <= nowMs &&
+        toMillis(r.end_at) > nowMs
+    )
+    .sort((a, b) => toMillis(a.start_at) - toMillis(b.start_at))[0];
+
+  return due ? { action: 'hold', reservation_id: due.id } : null;
+}
+
+// ==========================================
+// CALENDAR
+// ==========================================
+
+/**
+ * Build the weeks shown for a month, padded to whole weeks
+ */
+export function buildMonthGrid(month: Date, weekStartsOn: number = 1): Date[][] {
+  const first = new Date(month.getFullYear(), month.getMonth(), 1);
+  const last = new Date(month.getFullYear(), month.getMonth() + 1, 0);
+
+  const start = new Date(first);
+  start.setDate(first.getDate() - ((first.getDay() - weekStartsOn + 7) % 7));
+
+  const weeks: Date[][] = [];
+  const cursor = new Date(start);
+  while (cursor <= last) {
+    const week: Date[] = [];
+    for (let i = 0; i < 7; i++) {
+      week.push(new Date(cursor));
+      cursor.setDate(cursor.getDate() + 1);
+    }
+    weeks.push(week);
+  }
+
+  return weeks;
+}
+
+/**
+ * Get reservations overlapping a calendar day (local time)
+ */
+export function getReservationsOnDay(
+  reservations: AssetReservation[],
+  day: Date
+): AssetReservation[] {
+  const start = new Date(day.getFullYear(), day.getMonth(), day.getDate()).getTime();
+  const end = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1).getTime();
+
+  return reservations
+    .filter(r => rangesOverlap(toMillis(r.start_at), toMillis(r.end_at), start, end))
+    .sort((a, b) => toMillis(a.start_at) - toMillis(b.start_at));
+}
+
+/**
+ * Format a date for a datetime-local input
+ */
+export function toDateTimeLocalValue(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
@@ -0,0 +1,30 @@
+/* ============================================
+   TENAXIS - Scheduled Jobs
+   When a tenant-wide background job is due to run again
+   ============================================ */
+
+import { toMillis } from './reservations';
+import type { ScheduledJob } from '@/types';
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Whether a job should be started now: its last completed run is older
+ * than the interval, and no run started since is still within its lease.
+ * A run that failed or was abandoned is retried once its lease lapses.
+ */
+export function isJobDue(
+  job: Pick<ScheduledJob, 'last_started_at' | 'last_completed_at'> | null,
+  intervalMinutes: number,
+  leaseMinutes: number,
+  now: Date
+): boolean {
+  const completed = job?.last_completed_at ? toMillis(job.last_completed_at) : null;
+  if (completed !== null && now.getTime() - completed < intervalMinutes * MINUTE_MS) {
+    return false;
+  }
+
+  const started = job?.last_started_at ? toMillis(job.last_started_at) : null;
+  const running = started !== null && (completed === null || started > completed);
+  return !running || now.getTime() - started! >= leaseMinutes * MINUTE_MS;
+}
@@ -0,0 +1,272 @@
+/* ============================================
+   TENAXIS - Service Levels
+   Business-hours clocks, SLA targets and breach checks for tickets
+   ============================================ */
+
+import { toMillis } from './reservations';
+import type {
+  BusinessHours,
+  MaintenancePriority,
+  MaintenanceTicket,
+  MaintenanceType,
+  SlaPolicy,
+  SlaStatistics,
+} from '@/types';
+
+const MINUTE_MS = 60 * 1000;
+
+// Guards the day walk against hours that never open
+const MAX_DAYS = 3660;
+
+type SlaTicket = Pick<
+  MaintenanceTicket,
+  | 'status'
+  | 'due_date'
+  | 'completed_at'
+  | 'response_due_at'
+  | 'responded_at'
+  | 'sla_paused_at'
+  | 'response_breached'
+  | 'resolution_breached'
+>;
+
+// ==========================================
+// BUSINESS HOURS
+// ==========================================
+
+/**
+ * Throw unless business hours name a real timezone, at least one day and
+ * a start before the end
+ */
+export function assertValidBusinessHours(hours: BusinessHours): void {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: hours.timezone });
+  } catch {
+    throw new Error(`Unknown timezone ${hours.timezone}`);
+  }
+  if (hours.days.length === 0 || hours.days.some(d => !Number.isInteger(d) || d < 0 || d > 6)) {
+    throw new Error('Choose at least one business day');
+  }
+  if (!/^\d{2}:\d{2}$/.test(hours.start) || !/^\d{2}:\d{2}$/.test(hours.end)) {
+    throw new Error('Business hours must be given as HH:MM');
+  }
+  if (hours.start >= hours.end) {
+    throw new Error('Business hours must start before they end');
+  }
+}
+
+/**
+ * Wall-clock date and time of an instant in a timezone
+ */
+function getZonedParts(date: Date, timezone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find(p => p.type === type)?.value);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+}
+
+/**
+ * The instant a wall-clock time falls on in a timezone. Day overflow is
+ * allowed, so day + 1 is the next calendar day.
+ */
+function fromZonedTime(
+  year: number,
+  month: number,
+  day: number,
+  time: string,
+  timezone: string
+): Date {
+  const [hour, minute] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  // Offset of the zone at a nearby instant, corrected once for DST changes
+  const offsetAt = (instant: number) => {
+    const p = getZonedParts(new Date(instant), timezone);
+    return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - instant;
+  };
+  const guess = wallClock - offsetAt(wallClock);
+  return new Date(wallClock - offsetAt(guess));
+}
+
+/**
+ * Business windows from the day containing `from` onwards, in order
+ */
+function* getBusinessWindows(from: Date, hours: BusinessHours): Generator<[Date, Date]> {
+  const { year, month, day } = getZonedParts(from, hours.timezone);
+  for (let offset = 0; offset < MAX_DAYS; offset++) {
+    const weekday = new Date(Date.UTC(year, month - 1, day + offset)).getUTCDay();
+    if (!hours.days.includes(weekday)) continue;
+    yield [
+      fromZonedTime(year, month, day + offset, hours.start, hours.timezone),
+      fromZonedTime(year, month, day + offset, hours.end, hours.timezone),
+    ];
+  }
+}
+
+/**
+ * The instant a number of clock minutes after a start. With business hours
+ * only time inside them counts; without, the clock runs round the clock.
+ */
+export function addClockMinutes(
+  start: Date,
+  minutes: number,
+  hours: BusinessHours | null | undefined
+): Date {
+  if (!hours || minutes <= 0) {
+    return new Date(start.getTime() + Math.max(minutes, 0) * MINUTE_MS);
+  }
+
+  let remaining = minutes * MINUTE_MS;
+  for (const [open, close] of getBusinessWindows(start, hours)) {
+    const from = Math.max(start.getTime(), open.getTime());
+    const available = close.getTime() - from;
+    if (available <= 0) continue;
+    if (remaining <= available) return new Date(from + remaining);
+    remaining -= available;
+  }
+  throw new Error('Business hours never open');
+}
+
+/**
+ * Clock minutes between two instants, counting only business hours when
+ * they are given
+ */
+export function getClockMinutesBetween(
+  from: Date,
+  to: Date,
+  hours: BusinessHours | null | undefined
+): number {
+  if (to <= from) return 0;
+  if (!hours) return (to.getTime() - from.getTime()) / MINUTE_MS;
+
+  let total = 0;
+  for (const [open, close] of getBusinessWindows(from, hours)) {
+    if (open >= to) break;
+    const overlap =
+      Math.min(close.getTime(), to.getTime()) - Math.max(open.getTime(), from.getTime());
+    if (overlap > 0) total += overlap;
+  }
+  return total / MINUTE_MS;
+}
+
+// ==========================================
+// POLICIES
+// ==========================================
+
+/**
+ * The policy that applies to a ticket: one for its priority and type wins
+ * over one for its priority alone
+ */
+export function findSlaPolicy(
+  policies: SlaPolicy[],
+  priority: MaintenancePriority,
+  type: MaintenanceType
+): SlaPolicy | null {
+  const active = policies.filter(p => p.status === 'active' && p.priority === priority);
+  return active.find(p => p.type === type) || active.find(p => !p.type) || null;
+}
+
+/**
+ * Response and resolution deadlines for a ticket reported at a time
+ */
+export function getSlaTargets(
+  policy: Pick<SlaPolicy, 'response_hours' | 'resolution_hours'>,
+  reportedAt: Date,
+  hours: BusinessHours | null | undefined
+): { responseDueAt: Date; resolutionDueAt: Date } {
+  return {
+    responseDueAt: addClockMinutes(reportedAt, policy.response_hours * 60, hours),
+    resolutionDueAt: addClockMinutes(reportedAt, policy.resolution_hours * 60, hours),
+  };
+}
+
+// ==========================================
+// BREACHES
+// ==========================================
+
+/**
+ * Whether a ticket missed, or has already run past, its response target.
+ * Targets are not missed while the clock is paused.
+ */
+export function isResponseBreached(ticket: SlaTicket, now: Date = new Date()): boolean {
+  if (ticket.response_breached) return true;
+  if (!ticket.response_due_at) return false;
+
+  const due = toMillis(ticket.response_due_at);
+  if (ticket.responded_at) return toMillis(ticket.responded_at) > due;
+  if (ticket.status === 'cancelled' || ticket.sla_paused_at) return false;
+  return now.getTime() > due;
+}
+
+/**
+ * Whether a ticket missed, or has already run past, its resolution target
+ */
+export function isResolutionBreached(ticket: SlaTicket, now: Date = new Date()): boolean {
+  if (ticket.resolution_breached) return true;
+  if (!ticket.due_date) return false;
+
+  const due = toMillis(ticket.due_date);
+  if (ticket.status === 'completed') {
+    return !!ticket.completed_at && toMillis(ticket.completed_at) > due;
+  }
+  if (ticket.status === 'cancelled' || ticket.sla_paused_at) return false;
+  return now.getTime() > due;
+}
+
+/**
+ * Met and breached counts for tickets under an SLA. A response is decided
+ * once given or overdue, a resolution once completed or overdue.
+ */
+export function getSlaStatistics(
+  tickets: (SlaTicket & Pick<MaintenanceTicket, 'sla_policy_id'>)[],
+  now: Date = new Date()
+): SlaStatistics {
+  const stats = {
+    tracked: 0,
+    response_met: 0,
+    response_breached: 0,
+    resolution_met: 0,
+    resolution_breached: 0,
+    open_breached: 0,
+  };
+
+  for (const ticket of tickets) {
+    if (!ticket.sla_policy_id || ticket.status === 'cancelled') continue;
+    stats.tracked++;
+
+    const responseBreached = isResponseBreached(ticket, now);
+    const resolutionBreached = isResolutionBreached(ticket, now);
+    if (responseBreached) stats.response_breached++;
+    else if (ticket.responded_at) stats.response_met++;
+    if (resolutionBreached) stats.resolution_breached++;
+    else if (ticket.status === 'completed') stats.resolution_met++;
+    if (ticket.status !== 'completed' && (responseBreached || resolutionBreached)) {
+      stats.open_breached++;
+    }
+  }
+
+  const rate = (met: number, breached: number) =>
+    met + breached > 0 ? (met / (met + breached)) * 100 : null;
+  return {
+    ...stats,
+    response_compliance_rate: rate(stats.response_met, stats.response_breached),
+    resolution_compliance_rate: rate(stats.resolution_met, stats.resolution_breached),
+  };
+}
@@ -0,0 +1,54 @@
+/* ============================================
+   TENAXIS - Stock Requests
+   Line checks and fulfilment status for staff stock requests
+   ============================================ */
+
+import type { StockRequestLine, StockRequestStatus } from '@/types';
+
+/**
+ * Statuses in which approved stock can still be issued
+ */
+export const FULFILLABLE_STATUSES: StockRequestStatus[] = ['approved', 'partially_fulfilled'];
+
+/**
+ * Throw unless a request asks for at least one item, each in a positive
+ * whole quantity and listed once
+ */
+export function assertValidRequestLines(
+  lines: Pick<StockRequestLine, 'consumable_id' | 'quantity'>[]
+): void {
+  if (lines.length === 0) {
+    throw new Error('Add at least one item to the request');
+  }
+
+  const seen = new Set<string>();
+  for (const line of lines) {
+    if (!line.consumable_id) {
+      throw new Error('Select an item for every line');
+    }
+    if (!Number.isInteger(line.quantity) || line.quantity <= 0) {
+      throw new Error('Quantities must be whole numbers greater than zero');
+    }
+    if (seen.has(line.consumable_id)) {
+      throw new Error('Each item can only be requested once per request');
+    }
+    seen.add(line.consumable_id);
+  }
+}
+
+/**
+ * Approved quantity of a line not issued yet
+ */
+export function getUnissuedQuantity(line: StockRequestLine): number {
+  return Math.max((line.approved_quantity ?? 0) - (line.issued_quantity ?? 0), 0);
+}
+
+/**
+ * Status of an approved request after an issue: fulfilled once every
+ * approved unit is out, partially fulfilled once anything is
+ */
+export function getFulfilmentStatus(lines: StockRequestLine[]): StockRequestStatus {
+  if (lines.every(line => getUnissuedQuantity(line) === 0)) return 'fulfilled';
+  if (lines.some(line => (line.issued_quantity ?? 0) > 0)) return 'partially_fulfilled';
+  return 'approved';
+}
@@ -0,0 +1,48 @@
+/* ============================================
+   TENAXIS - Stock
+   Invariants and document IDs for stock mutations
+   ============================================ */
+
+const IDEMPOTENCY_KEY_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+/**
+ * Deterministic ID for an office's stock record of a consumable, so
+ * transactions can read it directly instead of querying for it
+ */
+export function getStockDocId(officeId: string, consumableId: string): string {
+  return `${officeId}_${consumableId}`;
+}
+
+/**
+ * ID of the stock transaction record written for an idempotency key.
+ * Transfers write two records, told apart by a suffix the key itself
+ * can never contain.
+ */
+export function getIdempotentTransactionId(key: string, leg?: 'in' | 'out'): string {
+  if (!IDEMPOTENCY_KEY_PATTERN.test(key)) {
+    throw new Error('Idempotency key may only contain letters, numbers, - and _ (max 128)');
+  }
+  return leg ? `${key}.${leg}` : key;
+}
+
+/**
+ * Throw unless a movement quantity is a positive, finite number
+ */
+export function assertPositiveQuantity(quantity: number): void {
+  if (!Number.isFinite(quantity) || quantity <= 0) {
+    throw new Error('Quantity must be greater than zero');
+  }
+}
+
+/**
+ * Throw if taking a quantity out of stock would leave it negative
+ */
+export function assertSufficientStock(
+  available: number,
+  quantity: number,
+  message: string = 'Insufficient stock'
+): void {
+  if (available < quantity) {
+    throw new Error(`${message}: ${available} available, ${quantity} requested`);
+  }
+}
@@ -0,0 +1,146 @@
+/* ============================================
+   TENAXIS - Units of Measure
+   Converting consumable quantities to and from their base unit
+   ============================================ */
+
+import { roundUnitCost } from './costing';
+import type { Consumable, ConsumableUnitConversion } from '@/types';
+
+type UnitSource = Pick<Consumable, 'unit' | 'unit_conversions'>;
+
+/**
+ * Quantity in the base unit, with the unit and quantity as entered when
+ * they were not the base unit
+ */
+export interface UnitEntry {
+  quantity: number;
+  unit?: string;
+  unit_quantity?: number;
+}
+
+// ==========================================
+// CONVERSIONS
+// ==========================================
+
+/**
+ * Base units in one of the given unit, or undefined when the consumable
+ * has no conversion for it. No unit means the base unit.
+ */
+export function findUnitFactor(consumable: UnitSource, unit?: string): number | undefined {
+  if (!unit || unit === consumable.unit) return 1;
+  return consumable.unit_conversions?.find(c => c.unit === unit)?.factor;
+}
+
+/**
+ * Base units in one of the given unit. Throws when the consumable cannot
+ * be converted from that unit.
+ */
+export function getUnitFactor(consumable: UnitSource, unit?: string): number {
+  const factor = findUnitFactor(consumable, unit);
+  if (factor === undefined) {
+    throw new Error(`No conversion from ${unit} to ${consumable.unit} for this item`);
+  }
+  return factor;
+}
+
+/**
+ * Quantity in the base unit
+ */
+export function toBaseQuantity(consumable: UnitSource, quantity: number, unit?: string): number {
+  return quantity * getUnitFactor(consumable, unit);
+}
+
+/**
+ * Entry of a quantity in any unit of the consumable, converted to the base
+ * unit. The unit and quantity entered are only kept when not the base unit.
+ */
+export function toBaseUnitEntry(consumable: UnitSource, quantity: number, unit?: string): UnitEntry {
+  if (!unit || unit === consumable.unit) return { quantity };
+  return { quantity: toBaseQuantity(consumable, quantity, unit), unit, unit_quantity: quantity };
+}
+
+/**
+ * Cost of one base unit from a cost per given unit
+ */
+export function toBaseUnitCost(consumable: UnitSource, unitCost: number, unit?: string): number {
+  return roundUnitCost(unitCost / getUnitFactor(consumable, unit));
+}
+
+/**
+ * Unit the consumable is bought in. Falls back to the base unit when no
+ * purchase unit is set or its conversion has been removed.
+ */
+export function getPurchaseUnit(
+  consumable: Pick<Consumable, 'unit' | 'unit_conversions' | 'purchase_unit'>
+): string {
+  const unit = consumable.purchase_unit;
+  return unit && findUnitFactor(consumable, unit) !== undefined ? unit : consumable.unit;
+}
+
+/**
+ * Units a quantity of the consumable can be entered in, base unit first
+ */
+export function getConsumableUnits(consumable: UnitSource): string[] {
+  return [consumable.unit, ...(consumable.unit_conversions || []).map(c => c.unit)];
+}
+
+/**
+ * Throw unless every conversion names a distinct unit other than the base
+ * unit and converts to a whole number of base units greater than one
+ */
+export function assertValidConversions(
+  baseUnit: string,
+  conversions: ConsumableUnitConversion[]
+): void {
+  const seen = new Set<string>();
+  for (const conversion of conversions) {
+    if (!conversion.unit || conversion.unit === baseUnit) {
+      throw new Error(`Choose a unit other than the base unit (${baseUnit})`);
+    }
+    if (seen.has(conversion.unit)) {
+      throw new Error(`${conversion.unit} is converted more than once`);
+    }
+    if (!Number.isInteger(conversion.factor) || conversion.factor <= 1) {
+      throw new Error(`One ${conversion.unit} must hold a whole number of ${baseUnit} above 1`);
+    }
+    seen.add(conversion.unit);
+  }
+}
+
+// ==========================================
+// DISPLAY
+// ==========================================
+
+/**
+ * Base quantity broken down into the largest units first, e.g. 30 pcs
+ * with a 12 pcs box reads "2 box + 6 pcs"
+ */
+export function formatUnitBreakdown(consumable: UnitSource, quantity: number): string {
+  const units = [...(consumable.unit_conversions || [])].sort((a, b) => b.factor - a.factor);
+  const parts: string[] = [];
+  let remaining = quantity;
+
+  for (const { unit, factor } of units) {
+    const whole = Math.floor(remaining / factor);
+    if (whole > 0) {
+      parts.push(`${whole} ${unit}`);
+      remaining -= whole * factor;
+    }
+  }
+  if (remaining > 0 || parts.length === 0) {
+    parts.push(`${remaining} ${consumable.unit}`);
+  }
+
+  return parts.join(' + ');
+}
+
+/**
+ * Entry as it was made, with the base quantity alongside when entered in
+ * another unit, e.g. "2 box (24 pcs)"
+ */
+export function formatUnitEntry(baseUnit: string, entry: UnitEntry): string {
+  const base = `${entry.quantity} ${baseUnit}`.trim();
+  return entry.unit && entry.unit_quantity !== undefined
+    ? `${entry.unit_quantity} ${entry.unit} (${base})`
+    : base;
+}
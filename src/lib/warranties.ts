@@ -0,0 +1,113 @@
+/* ============================================
+   TENAXIS - Warranties
+   Coverage checks and expiry alert scheduling
+   ============================================ */
+
+import { WARRANTY_ALERT_DAYS } from './constants';
+import { toMillis } from './reservations';
+import type { Timestamp, WarrantyClaimStatus, WarrantyContract } from '@/types';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export type WarrantyContractState =
+  | 'upcoming'
+  | 'active'
+  | 'expiring'
+  | 'expired'
+  | 'cancelled';
+
+export interface WarrantyAlert {
+  threshold: number;
+  covered: number[]; // Thresholds this alert also satisfies
+}
+
+type ContractDates = Pick<WarrantyContract, 'status' | 'start_date' | 'end_date'>;
+
+/**
+ * Claim statuses reachable from each status. Rejected and resolved
+ * claims are final.
+ */
+export const WARRANTY_CLAIM_TRANSITIONS: Record<WarrantyClaimStatus, WarrantyClaimStatus[]> = {
+  submitted: ['approved', 'rejected'],
+  approved: ['resolved', 'rejected'],
+  rejected: [],
+  resolved: [],
+};
+
+// ==========================================
+// COVERAGE
+// ==========================================
+
+/**
+ * Whole days from now until a date; negative once it has passed
+ */
+export function getDaysUntil(date: Timestamp, now: Date = new Date()): number {
+  return Math.ceil((toMillis(date) - now.getTime()) / DAY_MS);
+}
+
+/**
+ * Check whether a contract covers a point in time
+ */
+export function isContractCovering(contract: ContractDates, at: Date = new Date()): boolean {
+  const atMs = at.getTime();
+  return (
+    contract.status === 'active' &&
+    toMillis(contract.start_date) <= atMs &&
+    toMillis(contract.end_date) >= atMs
+  );
+}
+
+/**
+ * Describe where a contract is in its term. Contracts within the largest
+ * alert window count as expiring.
+ */
+export function getContractState(
+  contract: ContractDates,
+  now: Date = new Date()
+): WarrantyContractState {
+  if (contract.status === 'cancelled') return 'cancelled';
+  if (toMillis(contract.start_date) > now.getTime()) return 'upcoming';
+
+  const daysLeft = getDaysUntil(contract.end_date, now);
+  if (daysLeft < 0) return 'expired';
+  if (daysLeft <= Math.max(...WARRANTY_ALERT_DAYS)) return 'expiring';
+  return 'active';
+}
+
+// ==========================================
+// EXPIRY ALERTS
+// ==========================================
+
+/**
+ * Work out which expiry alert is due for a contract.
+ *
+ * Only the nearest passed threshold fires. Larger thresholds that were
+ * skipped (e.g. a contract created 20 days before expiry) are marked as
+ * covered so they never fire late. Nothing fires once the contract ends.
+ */
+export function getDueWarrantyAlert(
+  daysLeft: number,
+  alertsSent: number[] = [],
+  thresholds: readonly number[] = WARRANTY_ALERT_DAYS
+): WarrantyAlert | null {
+  if (daysLeft < 0) return null;
+
+  const passed = thresholds.filter(t => daysLeft <= t);
+  if (passed.length === 0) return null;
+
+  const threshold = Math.min(...passed);
+  if (alertsSent.includes(threshold)) return null;
+
+  return { threshold, covered: passed };
+}
+
+// ==========================================
+// CLAIMS
+// ==========================================
+
+/**
+ * Check whether a claim may move between two statuses
+ */
+export function canTransitionClaim(from: WarrantyClaimStatus, to: WarrantyClaimStatus): boolean {
+  return WARRANTY_CLAIM_TRANSITIONS[from].includes(to);
+}
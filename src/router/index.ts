@@ -59,6 +59,42 @@ const routes: RouteRecordRaw[] = [
         component: () => import('@/views/assets/AssetFormView.vue'),
         meta: { title: 'New Asset', module: MODULES.ASSETS, action: 'create' },
       },
+      {
+        path: 'assets/scan/:tag?',
+        name: 'asset-scan',
+        component: () => import('@/views/assets/AssetScanView.vue'),
+        meta: { title: 'Scan Asset', module: MODULES.ASSETS },
+      },
+      {
+        path: 'assets/reservations',
+        name: 'asset-reservations',
+        component: () => import('@/views/assets/ReservationCalendarView.vue'),
+        meta: { title: 'Reservations', module: MODULES.ASSETS },
+      },
+      {
+        path: 'assets/warranties',
+        name: 'warranties',
+        component: () => import('@/views/assets/WarrantyListView.vue'),
+        meta: { title: 'Warranties & Contracts', module: MODULES.ASSETS },
+      },
+      {
+        path: 'assets/warranties/:id',
+        name: 'warranty-detail',
+        component: () => import('@/views/assets/WarrantyDetailView.vue'),
+        meta: { title: 'Contract Details', module: MODULES.ASSETS },
+      },
+      {
+        path: 'assets/audits',
+        name: 'inventory-audits',
+        component: () => import('@/views/assets/InventoryAuditListView.vue'),
+        meta: { title: 'Inventory Audits', module: MODULES.ASSETS },
+      },
+      {
+        path: 'assets/audits/:id',
+        name: 'inventory-audit-detail',
+        component: () => import('@/views/assets/InventoryAuditView.vue'),
+        meta: { title: 'Inventory Audit', module: MODULES.ASSETS },
+      },
       {
         path: 'assets/:id',
         name: 'asset-detail',
@@ -79,6 +115,48 @@ const routes: RouteRecordRaw[] = [
         component: () => import('@/views/stock/StockListView.vue'),
         meta: { title: 'Consumables', module: MODULES.CONSUMABLES },
       },
+      {
+        path: 'consumables/valuation',
+        name: 'stock-valuation',
+        component: () => import('@/views/stock/StockValuationView.vue'),
+        meta: { title: 'Stock Valuation', module: MODULES.CONSUMABLES },
+      },
+      {
+        path: 'consumables/lots',
+        name: 'stock-lots',
+        component: () => import('@/views/stock/StockLotsView.vue'),
+        meta: { title: 'Lots & Expiry', module: MODULES.CONSUMABLES },
+      },
+      {
+        path: 'consumables/transfers',
+        name: 'stock-transfers',
+        component: () => import('@/views/stock/StockTransfersView.vue'),
+        meta: { title: 'Stock Transfers', module: MODULES.CONSUMABLES },
+      },
+      {
+        path: 'consumables/counts',
+        name: 'cycle-counts',
+        component: () => import('@/views/stock/CycleCountsView.vue'),
+        meta: { title: 'Cycle Counts', module: MODULES.CONSUMABLES },
+      },
+      {
+        path: 'consumables/counts/variance',
+        name: 'cycle-count-variance',
+        component: () => import('@/views/stock/CycleCountVarianceView.vue'),
+        meta: { title: 'Count Variance History', module: MODULES.CONSUMABLES },
+      },
+      {
+        path: 'consumables/counts/:id',
+        name: 'cycle-count-detail',
+        component: () => import('@/views/stock/CycleCountDetailView.vue'),
+        meta: { title: 'Cycle Count', module: MODULES.CONSUMABLES },
+      },
+      {
+        path: 'consumables/kits',
+        name: 'consumable-kits',
+        component: () => import('@/views/stock/ConsumableKitsView.vue'),
+        meta: { title: 'Kits', module: MODULES.CONSUMABLES },
+      },
       {
         path: 'consumables/new',
         name: 'consumable-create',
@@ -98,6 +176,20 @@ const routes: RouteRecordRaw[] = [
         meta: { title: 'Stock Management', module: MODULES.CONSUMABLES },
       },
 
+      // Stock requests
+      {
+        path: 'stock-requests',
+        name: 'stock-requests',
+        component: () => import('@/views/stock-requests/StockRequestsView.vue'),
+        meta: { title: 'Stock Requests', module: MODULES.STOCK_REQUESTS },
+      },
+      {
+        path: 'stock-requests/:id',
+        name: 'stock-request-detail',
+        component: () => import('@/views/stock-requests/StockRequestDetailView.vue'),
+        meta: { title: 'Stock Request', module: MODULES.STOCK_REQUESTS },
+      },
+
       // Maintenance
       {
         path: 'maintenance',
@@ -111,6 +203,24 @@ const routes: RouteRecordRaw[] = [
         component: () => import('@/views/maintenance/MaintenanceFormView.vue'),
         meta: { title: 'New Ticket', module: MODULES.MAINTENANCE, action: 'create' },
       },
+      {
+        path: 'maintenance/plans',
+        name: 'maintenance-plans',
+        component: () => import('@/views/maintenance/MaintenancePlansView.vue'),
+        meta: { title: 'Preventive Maintenance', module: MODULES.MAINTENANCE },
+      },
+      {
+        path: 'maintenance/sla',
+        name: 'sla-policies',
+        component: () => import('@/views/maintenance/SlaPoliciesView.vue'),
+        meta: { title: 'SLA Policies', module: MODULES.MAINTENANCE },
+      },
+      {
+        path: 'maintenance/checklists',
+        name: 'checklist-templates',
+        component: () => import('@/views/maintenance/ChecklistTemplatesView.vue'),
+        meta: { title: 'Checklist Templates', module: MODULES.MAINTENANCE },
+      },
       {
         path: 'maintenance/:id',
         name: 'maintenance-detail',
@@ -118,6 +228,32 @@ const routes: RouteRecordRaw[] = [
         meta: { title: 'Ticket Details', module: MODULES.MAINTENANCE },
       },
 
+      // Purchasing
+      {
+        path: 'purchasing',
+        name: 'purchasing',
+        component: () => import('@/views/purchasing/PurchasingView.vue'),
+        meta: { title: 'Purchasing', module: MODULES.PURCHASING },
+      },
+      {
+        path: 'purchasing/reorder',
+        name: 'reorder-plan',
+        component: () => import('@/views/purchasing/ReorderPlanView.vue'),
+        meta: { title: 'Reorder Planner', module: MODULES.PURCHASING, action: 'create' },
+      },
+      {
+        path: 'purchasing/requisitions/:id',
+        name: 'requisition-detail',
+        component: () => import('@/views/purchasing/RequisitionDetailView.vue'),
+        meta: { title: 'Requisition Details', module: MODULES.PURCHASING },
+      },
+      {
+        path: 'purchasing/orders/:id',
+        name: 'purchase-order-detail',
+        component: () => import('@/views/purchasing/PurchaseOrderDetailView.vue'),
+        meta: { title: 'Purchase Order Details', module: MODULES.PURCHASING },
+      },
+
       // Projects
       {
         path: 'projects',
@@ -185,6 +321,12 @@ const routes: RouteRecordRaw[] = [
         component: () => import('@/views/reports/ReportsView.vue'),
         meta: { title: 'Reports', module: MODULES.REPORTS },
       },
+      {
+        path: 'reports/depreciation',
+        name: 'depreciation-report',
+        component: () => import('@/views/reports/DepreciationReportView.vue'),
+        meta: { title: 'Depreciation', module: MODULES.REPORTS },
+      },
 
       // Audit Logs
       {
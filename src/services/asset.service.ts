@@ -14,16 +14,50 @@ import {
   limit,
   Timestamp,
   writeBatch,
+  runTransaction,
+  type DocumentData,
+  type Transaction,
+  type WriteBatch,
 } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
 import { BaseService } from './base.service';
+import { userService } from './user.service';
+import { tenantService } from './organization.service';
 import { COLLECTIONS } from '@/lib/constants';
+import { isAdminRole } from '@/lib/permissions';
+import {
+  INITIAL_ASSET_STATUSES,
+  TERMINAL_ASSET_STATUSES,
+  assertTransition,
+  describeTransition,
+  isAdminTransition,
+} from '@/lib/asset-lifecycle';
+import {
+  getCategoryFields,
+  isValidCustomFieldKey,
+  validateCustomFields,
+} from '@/lib/custom-fields';
+import {
+  buildDepreciationSchedule,
+  getAccumulatedDepreciation,
+  getFiscalYear,
+  getFiscalYearToDateDepreciation,
+  getNetBookValue,
+  getPeriodDepreciation,
+  toPeriodKey,
+} from '@/lib/depreciation';
 import type {
   Asset,
   AssetEvent,
   AssetEventType,
   AssetStatus,
   AssetCategory,
+  CustomFieldDefinition,
+  CustomFieldValue,
+  DepreciationSchedule,
+  DepreciationSnapshot,
+  DepreciationSnapshotLine,
+  AuditFields,
 } from '@/types';
 
 // ==========================================
@@ -105,20 +139,259 @@ class AssetService extends BaseService<Asset> {
   }
 
   /**
-   * Create asset with initial event
+   * Get an asset by its exact asset tag (e.g. from a scanned label)
+   */
+  async getByTag(assetTag: string): Promise<Asset | null> {
+    const assets = await this.getAll([
+      where('asset_tag', '==', assetTag.trim().toUpperCase()),
+      limit(1),
+    ]);
+    return assets[0] || null;
+  }
+
+  /**
+   * Validate custom field values against the definitions attached to the
+   * asset's category. Returns the normalized values.
+   */
+  private async validateCustomFieldValues(
+    categoryId: string | undefined,
+    values: Record<string, unknown> | undefined
+  ): Promise<Record<string, CustomFieldValue>> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+
+    // Values pass through untouched while the feature is switched off
+    const settings = await tenantService.getSettings(this.tenantId);
+    if (!settings?.features?.custom_fields) {
+      return (values || {}) as Record<string, CustomFieldValue>;
+    }
+
+    assetCategoryService.setTenant(this.tenantId);
+    customFieldService.setTenant(this.tenantId);
+
+    const category = categoryId ? await assetCategoryService.getById(categoryId) : null;
+    const definitions = category?.custom_field_ids?.length
+      ? getCategoryFields(await customFieldService.getActive(), category)
+      : [];
+
+    const result = validateCustomFields(definitions, values);
+
+    // User references must point at a user in this tenant
+    userService.setTenant(this.tenantId);
+    for (const definition of definitions) {
+      const userId = result.values[definition.key];
+      if (definition.type !== 'user' || !userId || result.errors[definition.key]) continue;
+      if (!(await userService.getById(String(userId)))) {
+        result.errors[definition.key] = `${definition.label} must reference an existing user`;
+      }
+    }
+
+    const errors = Object.values(result.errors);
+    if (errors.length > 0) {
+      throw new Error(`Invalid custom fields: ${errors.join('; ')}`);
+    }
+
+    return result.values;
+  }
+
+  /**
+   * Create asset, validating custom fields
+   */
+  async create(data: Omit<Asset, 'id'>, userId: string): Promise<Asset> {
+    this.assertInitialStatus(data.status);
+    const customFields = await this.validateCustomFieldValues(
+      data.category_id,
+      data.custom_fields
+    );
+    return super.create({ ...data, custom_fields: customFields }, userId);
+  }
+
+  /**
+   * Update asset, re-validating custom fields when they or the category
+   * change. A status change must follow the asset lifecycle and is logged
+   * as a status_changed event.
+   */
+  async update(id: string, data: Partial<Asset>, userId: string): Promise<void> {
+    const needsExisting =
+      data.custom_fields !== undefined ||
+      data.category_id !== undefined ||
+      data.status !== undefined;
+    if (!needsExisting) {
+      return super.update(id, data, userId);
+    }
+
+    const existing = await this.getById(id);
+    if (!existing) {
+      throw new Error('Asset not found');
+    }
+
+    if (data.custom_fields !== undefined || data.category_id !== undefined) {
+      data = {
+        ...data,
+        custom_fields: await this.validateCustomFieldValues(
+          data.category_id ?? existing.category_id,
+          data.custom_fields ?? existing.custom_fields
+        ),
+      };
+    }
+
+    if (data.status === undefined || data.status === existing.status) {
+      return super.update(id, data, userId);
+    }
+    if (data.status === 'disposed') {
+      throw new Error('Use dispose to retire an asset');
+    }
+
+    const batch = writeBatch(db);
+    const isAdmin = await this.isAdminFor(existing, data.status, userId);
+    this.queueStatusChange(batch, existing, data.status, userId, Timestamp.now(), { isAdmin });
+    batch.update(this.getDocRef(id), this.addAuditFields(data, userId, false) as DocumentData);
+    await batch.commit();
+  }
+
+  /**
+   * Move an asset to another status. Admins use this to reverse a lost or
+   * disposed asset.
+   */
+  async changeStatus(
+    assetId: string,
+    toStatus: AssetStatus,
+    userId: string,
+    reason?: string
+  ): Promise<void> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+
+    const asset = await this.getById(assetId);
+    if (!asset) {
+      throw new Error('Asset not found');
+    }
+    if (asset.current_checkout_id) {
+      throw new Error('Asset is checked out; check it in before changing its status');
+    }
+    if (asset.current_reservation_id) {
+      throw new Error('Asset is held by a reservation; return or cancel it before changing its status');
+    }
+    if (toStatus === 'disposed') {
+      return this.dispose(assetId, reason || 'Status changed to disposed', undefined, userId);
+    }
+
+    const isAdmin = await this.isAdminFor(asset, toStatus, userId);
+    const batch = writeBatch(db);
+    const now = Timestamp.now();
+
+    this.queueStatusChange(batch, asset, toStatus, userId, now, {
+      isAdmin,
+      ...(reason && { description: `${describeTransition(asset.status, toStatus)}: ${reason}` }),
+    });
+    batch.update(this.getDocRef(assetId), {
+      status: toStatus,
+      // A reversed disposal no longer carries disposal details
+      ...(asset.status === 'disposed' && {
+        disposal_date: null,
+        disposal_reason: null,
+        disposal_value: null,
+      }),
+      updated_at: now,
+      updated_by: userId,
+    });
+
+    await batch.commit();
+  }
+
+  /**
+   * Check a status change against the lifecycle and queue its
+   * status_changed event in a batch or transaction. Staying in the same
+   * status queues nothing. Throws AssetTransitionError for a disallowed change.
+   */
+  queueStatusChange(
+    writer: WriteBatch | Transaction,
+    asset: Pick<Asset, 'id' | 'status'>,
+    toStatus: AssetStatus,
+    userId: string,
+    now: Timestamp,
+    options: {
+      description?: string;
+      metadata?: Record<string, unknown>;
+      isAdmin?: boolean;
+    } = {}
+  ): void {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+
+    assertTransition(asset.status, toStatus, options.isAdmin);
+    if (asset.status === toStatus) return;
+
+    const assetRef = doc(db, 'tenants', this.tenantId, COLLECTIONS.ASSETS, asset.id);
+    const eventData: Omit<AssetEvent, 'id'> = {
+      tenant_id: this.tenantId,
+      asset_id: asset.id,
+      event_type: 'status_changed',
+      description: options.description || describeTransition(asset.status, toStatus),
+      metadata: {
+        ...options.metadata,
+        from_status: asset.status,
+        to_status: toStatus,
+      },
+      created_at: now,
+      created_by: userId,
+    };
+    // Transaction.set takes the same arguments; the cast only satisfies the
+    // compiler, which cannot call a union of overloaded methods
+    (writer as WriteBatch).set(doc(collection(assetRef, COLLECTIONS.ASSET_EVENTS)), eventData);
+  }
+
+  /**
+   * Resolve whether a user may make an admin-only transition. Only looks
+   * the user up when the transition needs it.
+   */
+  private async isAdminFor(
+    asset: Pick<Asset, 'status'>,
+    toStatus: AssetStatus,
+    userId: string
+  ): Promise<boolean> {
+    if (!this.tenantId || !isAdminTransition(asset.status, toStatus)) {
+      return false;
+    }
+
+    userService.setTenant(this.tenantId);
+    const user = await userService.getById(userId);
+    return !!user && isAdminRole(user.role);
+  }
+
+  private assertInitialStatus(status: AssetStatus): void {
+    if (!INITIAL_ASSET_STATUSES.includes(status)) {
+      throw new Error(`Assets cannot be created with status ${status}`);
+    }
+  }
+
+  /**
+   * Create asset with initial event. Callers that may retry (goods
+   * receipt) pass a deterministic asset ID.
    */
   async createWithEvent(
     data: Omit<Asset, 'id'>,
-    userId: string
+    userId: string,
+    assetId?: string
   ): Promise<Asset> {
     if (!this.tenantId) {
       throw new Error('Tenant ID must be set');
     }
 
+    this.assertInitialStatus(data.status);
+    data = {
+      ...data,
+      custom_fields: await this.validateCustomFieldValues(data.category_id, data.custom_fields),
+    };
+
     const batch = writeBatch(db);
     
     // Create asset document
-    const assetRef = doc(collection(db, 'tenants', this.tenantId, COLLECTIONS.ASSETS));
+    const assetsRef = collection(db, 'tenants', this.tenantId, COLLECTIONS.ASSETS);
+    const assetRef = assetId ? doc(assetsRef, assetId) : doc(assetsRef);
     const now = Timestamp.now();
     const assetData = {
       ...data,
@@ -167,16 +440,34 @@ class AssetService extends BaseService<Asset> {
     if (!asset) {
       throw new Error('Asset not found');
     }
+    if (asset.current_checkout_id) {
+      throw new Error('Asset is checked out; check it in before reassigning');
+    }
+    if (asset.current_reservation_id) {
+      throw new Error('Asset is held by a reservation; return or cancel it before reassigning');
+    }
+    this.assertNotComponent(asset, 'assign');
+    const components = await this.getCascadeComponents(asset, 'assigning');
     
     // Update asset
     const assetRef = doc(db, 'tenants', this.tenantId, COLLECTIONS.ASSETS, assetId);
-    batch.update(assetRef, {
+    const update = {
       assigned_to: userId,
       assigned_at: now,
       status: 'in_use',
       updated_at: now,
       updated_by: assignedBy,
-    });
+    };
+    this.queueStatusChange(batch, asset, 'in_use', assignedBy, now);
+    batch.update(assetRef, update);
+    
+    // Components follow the bundle
+    this.cascadeToComponents(batch, asset, components, update, assignedBy, (component) => ({
+      event_type: 'assigned',
+      description: `Assigned with bundle ${asset.asset_tag}`,
+      ...(component.assigned_to && { from_user_id: component.assigned_to }),
+      to_user_id: userId,
+    }));
     
     // Create assignment event
     const eventRef = doc(collection(assetRef, COLLECTIONS.ASSET_EVENTS));
@@ -211,16 +502,33 @@ class AssetService extends BaseService<Asset> {
     if (!asset) {
       throw new Error('Asset not found');
     }
+    if (asset.current_checkout_id) {
+      throw new Error('Asset is checked out; use check-in to return it');
+    }
+    if (asset.current_reservation_id) {
+      throw new Error('Asset is held by a reservation; return or cancel it instead');
+    }
+    this.assertNotComponent(asset, 'unassign');
+    const components = await this.getCascadeComponents(asset, 'unassigning');
     
     // Update asset
     const assetRef = doc(db, 'tenants', this.tenantId, COLLECTIONS.ASSETS, assetId);
-    batch.update(assetRef, {
+    const update = {
       assigned_to: null,
       assigned_at: null,
       status: 'available',
       updated_at: now,
       updated_by: unassignedBy,
-    });
+    };
+    this.queueStatusChange(batch, asset, 'available', unassignedBy, now);
+    batch.update(assetRef, update);
+    
+    // Components follow the bundle
+    this.cascadeToComponents(batch, asset, components, update, unassignedBy, (component) => ({
+      event_type: 'unassigned',
+      description: `Unassigned with bundle ${asset.asset_tag}`,
+      ...(component.assigned_to && { from_user_id: component.assigned_to }),
+    }));
     
     // Create unassignment event
     const eventRef = doc(collection(assetRef, COLLECTIONS.ASSET_EVENTS));
@@ -259,19 +567,37 @@ class AssetService extends BaseService<Asset> {
     if (!asset) {
       throw new Error('Asset not found');
     }
+    if (asset.current_checkout_id) {
+      throw new Error('Asset is checked out; check it in before transferring');
+    }
+    if (asset.current_reservation_id) {
+      throw new Error('Asset is held by a reservation; return or cancel it before transferring');
+    }
+    this.assertNotComponent(asset, 'transfer');
+    const components = await this.getCascadeComponents(asset, 'transferring');
     
     const fromOfficeId = asset.office_id;
     
     // Update asset
     const assetRef = doc(db, 'tenants', this.tenantId, COLLECTIONS.ASSETS, assetId);
-    batch.update(assetRef, {
+    const update = {
       office_id: toOfficeId,
       assigned_to: null, // Unassign when transferring
       assigned_at: null,
       status: 'available',
       updated_at: now,
       updated_by: transferredBy,
-    });
+    };
+    this.queueStatusChange(batch, asset, 'available', transferredBy, now);
+    batch.update(assetRef, update);
+    
+    // Components follow the bundle
+    this.cascadeToComponents(batch, asset, components, update, transferredBy, (component) => ({
+      event_type: 'transferred',
+      description: `Transferred with bundle ${asset.asset_tag}`,
+      from_office_id: component.office_id,
+      to_office_id: toOfficeId,
+    }));
     
     // Create transfer event
     const eventRef = doc(collection(assetRef, COLLECTIONS.ASSET_EVENTS));
@@ -306,6 +632,20 @@ class AssetService extends BaseService<Asset> {
     const batch = writeBatch(db);
     const now = Timestamp.now();
     
+    const asset = await this.getById(assetId);
+    if (!asset) {
+      throw new Error('Asset not found');
+    }
+    if (asset.current_checkout_id) {
+      throw new Error('Asset is checked out; check it in before disposing of it');
+    }
+    if (asset.current_reservation_id) {
+      throw new Error('Asset is held by a reservation; return or cancel it before disposing of it');
+    }
+    const components = await this.getCascadeComponents(asset, 'disposing');
+    const isAdmin = await this.isAdminFor(asset, 'disposed', disposedBy);
+    this.queueStatusChange(batch, asset, 'disposed', disposedBy, now, { isAdmin });
+    
     // Update asset
     const assetRef = doc(db, 'tenants', this.tenantId, COLLECTIONS.ASSETS, assetId);
     batch.update(assetRef, {
@@ -315,10 +655,48 @@ class AssetService extends BaseService<Asset> {
       disposal_value: disposalValue || null,
       assigned_to: null,
       assigned_at: null,
+      // A disposed component leaves its bundle
+      ...(asset.parent_asset_id && { parent_asset_id: null }),
       updated_at: now,
       updated_by: disposedBy,
     });
     
+    if (asset.parent_asset_id) {
+      const parentRef = doc(db, 'tenants', this.tenantId, COLLECTIONS.ASSETS, asset.parent_asset_id);
+      const parentEvent: Omit<AssetEvent, 'id'> = {
+        tenant_id: this.tenantId,
+        asset_id: asset.parent_asset_id,
+        event_type: 'component_detached',
+        description: `Component ${asset.asset_tag} disposed`,
+        metadata: { component_asset_id: assetId },
+        created_at: now,
+        created_by: disposedBy,
+      };
+      batch.set(doc(collection(parentRef, COLLECTIONS.ASSET_EVENTS)), parentEvent);
+    }
+    
+    // Components are disposed with the bundle; the recovered value stays on the parent
+    this.cascadeToComponents(
+      batch,
+      asset,
+      components,
+      {
+        status: 'disposed',
+        disposal_date: now,
+        disposal_reason: reason,
+        disposal_value: null,
+        assigned_to: null,
+        assigned_at: null,
+        updated_at: now,
+        updated_by: disposedBy,
+      },
+      disposedBy,
+      () => ({
+        event_type: 'disposed',
+        description: `Disposed with bundle ${asset.asset_tag}: ${reason}`,
+      })
+    );
+    
     // Create disposal event
     const eventRef = doc(collection(assetRef, COLLECTIONS.ASSET_EVENTS));
     const eventData: Omit<AssetEvent, 'id'> = {
@@ -335,6 +713,311 @@ class AssetService extends BaseService<Asset> {
     await batch.commit();
   }
 
+  /**
+   * Record an asset's usage hour meter reading. Readings only go up; usage
+   * based maintenance plans raise their tickets from the latest one.
+   */
+  async recordUsageHours(assetId: string, hours: number, userId: string): Promise<void> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+    if (!Number.isFinite(hours) || hours < 0) {
+      throw new Error('Usage hours must be zero or more');
+    }
+
+    const asset = await this.getById(assetId);
+    if (!asset) {
+      throw new Error('Asset not found');
+    }
+    if (asset.usage_hours !== undefined && hours < asset.usage_hours) {
+      throw new Error(`Reading is below the last recorded ${asset.usage_hours} hours`);
+    }
+
+    const batch = writeBatch(db);
+    const now = Timestamp.now();
+    const assetRef = this.getDocRef(assetId);
+    batch.update(assetRef, {
+      usage_hours: hours,
+      usage_hours_recorded_at: now,
+      updated_at: now,
+      updated_by: userId,
+    });
+
+    const eventData: Omit<AssetEvent, 'id'> = {
+      tenant_id: this.tenantId,
+      asset_id: assetId,
+      event_type: 'updated',
+      description: `Usage reading recorded: ${hours} hours`,
+      metadata: { previous_usage_hours: asset.usage_hours ?? null, usage_hours: hours },
+      created_at: now,
+      created_by: userId,
+    };
+    batch.set(doc(collection(assetRef, COLLECTIONS.ASSET_EVENTS)), eventData);
+
+    await batch.commit();
+  }
+
+  /**
+   * Get the direct components of an asset
+   */
+  async getComponents(assetId: string): Promise<Asset[]> {
+    const components = await this.getAll([where('parent_asset_id', '==', assetId)]);
+    return components.sort((a, b) => a.asset_tag.localeCompare(b.asset_tag));
+  }
+
+  /**
+   * Get every component below an asset, level by level
+   */
+  async getDescendants(assetId: string): Promise<Asset[]> {
+    const descendants: Asset[] = [];
+    const seen = new Set([assetId]);
+    let level = [assetId];
+
+    while (level.length > 0) {
+      const children = (await Promise.all(level.map(id => this.getComponents(id))))
+        .flat()
+        .filter(c => !seen.has(c.id));
+      children.forEach(c => seen.add(c.id));
+      descendants.push(...children);
+      level = children.map(c => c.id);
+    }
+
+    return descendants;
+  }
+
+  /**
+   * Get the top-level asset of the bundle an asset belongs to
+   */
+  async getBundleRoot(asset: Asset): Promise<Asset> {
+    const seen = new Set([asset.id]);
+    let current = asset;
+
+    while (current.parent_asset_id && !seen.has(current.parent_asset_id)) {
+      const parent = await this.getById(current.parent_asset_id);
+      if (!parent) break;
+      seen.add(parent.id);
+      current = parent;
+    }
+
+    return current;
+  }
+
+  /**
+   * Make an asset a component of another. The component takes over the
+   * bundle's assignment.
+   */
+  async attachComponent(
+    parentId: string,
+    componentId: string,
+    attachedBy: string
+  ): Promise<void> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+    if (parentId === componentId) {
+      throw new Error('An asset cannot be a component of itself');
+    }
+
+    const [parent, component] = await Promise.all([
+      this.getById(parentId),
+      this.getById(componentId),
+    ]);
+    if (!parent || !component) {
+      throw new Error('Asset not found');
+    }
+    if (parent.status === 'disposed' || component.status === 'disposed') {
+      throw new Error('Disposed assets cannot be bundled');
+    }
+    if (component.parent_asset_id) {
+      throw new Error(`${component.asset_tag} is already part of a bundle; detach it first`);
+    }
+    if (component.office_id !== parent.office_id) {
+      throw new Error('Component must be in the same office as the bundle');
+    }
+    if (component.current_checkout_id || component.current_reservation_id) {
+      throw new Error(`${component.asset_tag} is checked out or reserved`);
+    }
+    if (component.assigned_to && component.assigned_to !== parent.assigned_to) {
+      throw new Error(`${component.asset_tag} is assigned to someone else; unassign it first`);
+    }
+
+    const descendants = await this.getDescendants(componentId);
+    if (descendants.some(a => a.id === parentId)) {
+      throw new Error(`${parent.asset_tag} is already a component of ${component.asset_tag}`);
+    }
+
+    const batch = writeBatch(db);
+    const now = Timestamp.now();
+    const parentRef = doc(db, 'tenants', this.tenantId, COLLECTIONS.ASSETS, parentId);
+    const componentRef = doc(db, 'tenants', this.tenantId, COLLECTIONS.ASSETS, componentId);
+
+    const takesAssignment = !!parent.assigned_to && !component.assigned_to;
+    if (takesAssignment) {
+      this.queueStatusChange(batch, component, 'in_use', attachedBy, now);
+    }
+    batch.update(componentRef, {
+      parent_asset_id: parentId,
+      ...(takesAssignment && {
+        assigned_to: parent.assigned_to,
+        assigned_at: now,
+        status: 'in_use',
+      }),
+      updated_at: now,
+      updated_by: attachedBy,
+    });
+
+    const componentEvent: Omit<AssetEvent, 'id'> = {
+      tenant_id: this.tenantId,
+      asset_id: componentId,
+      event_type: 'component_attached',
+      description: `Attached to bundle ${parent.asset_tag}`,
+      metadata: { bundle_asset_id: parentId },
+      ...(takesAssignment && { to_user_id: parent.assigned_to }),
+      created_at: now,
+      created_by: attachedBy,
+    };
+    batch.set(doc(collection(componentRef, COLLECTIONS.ASSET_EVENTS)), componentEvent);
+
+    const parentEvent: Omit<AssetEvent, 'id'> = {
+      tenant_id: this.tenantId,
+      asset_id: parentId,
+      event_type: 'component_attached',
+      description: `Component ${component.asset_tag} attached`,
+      metadata: { component_asset_id: componentId },
+      created_at: now,
+      created_by: attachedBy,
+    };
+    batch.set(doc(collection(parentRef, COLLECTIONS.ASSET_EVENTS)), parentEvent);
+
+    await batch.commit();
+  }
+
+  /**
+   * Remove a component from its bundle. It keeps its current office and
+   * assignment.
+   */
+  async detachComponent(componentId: string, detachedBy: string): Promise<void> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+
+    const component = await this.getById(componentId);
+    if (!component) {
+      throw new Error('Asset not found');
+    }
+    if (!component.parent_asset_id) {
+      throw new Error('Asset is not part of a bundle');
+    }
+
+    const batch = writeBatch(db);
+    const now = Timestamp.now();
+    const parentId = component.parent_asset_id;
+    const parent = await this.getById(parentId);
+    const componentRef = doc(db, 'tenants', this.tenantId, COLLECTIONS.ASSETS, componentId);
+
+    batch.update(componentRef, {
+      parent_asset_id: null,
+      updated_at: now,
+      updated_by: detachedBy,
+    });
+
+    const componentEvent: Omit<AssetEvent, 'id'> = {
+      tenant_id: this.tenantId,
+      asset_id: componentId,
+      event_type: 'component_detached',
+      description: `Detached from bundle ${parent?.asset_tag || parentId}`,
+      metadata: { bundle_asset_id: parentId },
+      created_at: now,
+      created_by: detachedBy,
+    };
+    batch.set(doc(collection(componentRef, COLLECTIONS.ASSET_EVENTS)), componentEvent);
+
+    if (parent) {
+      const parentRef = doc(db, 'tenants', this.tenantId, COLLECTIONS.ASSETS, parentId);
+      const parentEvent: Omit<AssetEvent, 'id'> = {
+        tenant_id: this.tenantId,
+        asset_id: parentId,
+        event_type: 'component_detached',
+        description: `Component ${component.asset_tag} detached`,
+        metadata: { component_asset_id: componentId },
+        created_at: now,
+        created_by: detachedBy,
+      };
+      batch.set(doc(collection(parentRef, COLLECTIONS.ASSET_EVENTS)), parentEvent);
+    }
+
+    await batch.commit();
+  }
+
+  /**
+   * Components move with their bundle, so they cannot be handled on their own
+   */
+  assertNotComponent(asset: Asset, action: string): void {
+    if (asset.parent_asset_id) {
+      throw new Error(`Asset is a component of a bundle; ${action} the bundle or detach it first`);
+    }
+  }
+
+  /**
+   * Load the live components of a bundle and check that none of them is
+   * tied up elsewhere
+   */
+  async getCascadeComponents(asset: Asset, action: string): Promise<Asset[]> {
+    // Lost and disposed components no longer follow the bundle
+    const components = (await this.getDescendants(asset.id)).filter(
+      c => !TERMINAL_ASSET_STATUSES.includes(c.status)
+    );
+
+    const blocked = components.find(c => c.current_checkout_id || c.current_reservation_id);
+    if (blocked) {
+      throw new Error(
+        `Component ${blocked.asset_tag} is checked out or reserved; resolve it before ${action} the bundle`
+      );
+    }
+
+    return components;
+  }
+
+  /**
+   * Apply a bundle change to each component in the same batch or
+   * transaction, with an event per component
+   */
+  cascadeToComponents(
+    writer: WriteBatch | Transaction,
+    bundle: Asset,
+    components: Asset[],
+    update: Record<string, unknown>,
+    userId: string,
+    buildEvent: (component: Asset) => Pick<
+      AssetEvent,
+      'event_type' | 'description' | 'from_office_id' | 'to_office_id' | 'from_user_id' | 'to_user_id'
+    >
+  ): void {
+    const now = Timestamp.now();
+    // Transaction takes the same arguments; see queueStatusChange
+    const batch = writer as WriteBatch;
+
+    for (const component of components) {
+      const componentRef = doc(db, 'tenants', this.tenantId!, COLLECTIONS.ASSETS, component.id);
+      if (update.status) {
+        this.queueStatusChange(writer, component, update.status as AssetStatus, userId, now, {
+          metadata: { bundle_asset_id: bundle.id },
+        });
+      }
+      batch.update(componentRef, update);
+
+      const eventData: Omit<AssetEvent, 'id'> = {
+        tenant_id: this.tenantId!,
+        asset_id: component.id,
+        ...buildEvent(component),
+        metadata: { bundle_asset_id: bundle.id },
+        created_at: now,
+        created_by: userId,
+      };
+      batch.set(doc(collection(componentRef, COLLECTIONS.ASSET_EVENTS)), eventData);
+    }
+  }
+
   /**
    * Get asset events/history
    */
@@ -395,6 +1078,45 @@ class AssetService extends BaseService<Asset> {
     });
   }
 
+  /**
+   * Get the depreciation schedule for an asset using its category settings
+   */
+  async getDepreciationSchedule(
+    assetId: string,
+    fiscalYearStart: number = 1
+  ): Promise<DepreciationSchedule | null> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+
+    const asset = await this.getById(assetId);
+    if (!asset) {
+      throw new Error('Asset not found');
+    }
+
+    const categoryService = new AssetCategoryService();
+    categoryService.setTenant(this.tenantId);
+    const category = await categoryService.getById(asset.category_id);
+
+    return buildDepreciationSchedule(asset, category, fiscalYearStart);
+  }
+
+  /**
+   * Get current net book value of an asset (purchase price if not depreciable)
+   */
+  async getNetBookValue(
+    assetId: string,
+    asOf: Date = new Date(),
+    fiscalYearStart: number = 1
+  ): Promise<number> {
+    const schedule = await this.getDepreciationSchedule(assetId, fiscalYearStart);
+    if (!schedule) {
+      const asset = await this.getById(assetId);
+      return asset?.purchase_price || 0;
+    }
+    return getNetBookValue(schedule, toPeriodKey(asOf));
+  }
+
   /**
    * Get asset statistics
    */
@@ -461,9 +1183,218 @@ class AssetCategoryService extends BaseService<AssetCategory> {
   }
 }
 
+// ==========================================
+// CUSTOM FIELD SERVICE
+// ==========================================
+
+class CustomFieldService extends BaseService<CustomFieldDefinition> {
+  constructor() {
+    super(COLLECTIONS.CUSTOM_FIELDS);
+  }
+
+  /**
+   * Get active field definitions
+   */
+  async getActive(): Promise<CustomFieldDefinition[]> {
+    return this.getAll([
+      where('status', '==', 'active'),
+      orderBy('label', 'asc'),
+    ]);
+  }
+
+  /**
+   * Check a definition's type-specific settings
+   */
+  private validateDefinition(data: Partial<CustomFieldDefinition>): void {
+    if (data.type === 'select' && !data.options?.length) {
+      throw new Error('Select fields need at least one option');
+    }
+    if (
+      data.type === 'number' &&
+      data.min !== undefined &&
+      data.max !== undefined &&
+      data.min > data.max
+    ) {
+      throw new Error('Minimum must not exceed maximum');
+    }
+  }
+
+  /**
+   * Create a field definition with a unique key
+   */
+  async createDefinition(
+    data: Omit<CustomFieldDefinition, 'id' | keyof AuditFields>,
+    userId: string
+  ): Promise<CustomFieldDefinition> {
+    if (!isValidCustomFieldKey(data.key)) {
+      throw new Error('Key must start with a letter and use only lowercase letters, digits and underscores');
+    }
+    this.validateDefinition(data);
+
+    const existing = await this.getAll([where('key', '==', data.key), limit(1)]);
+    if (existing.length > 0) {
+      throw new Error(`A custom field with key "${data.key}" already exists`);
+    }
+
+    return this.create(data as Omit<CustomFieldDefinition, 'id'>, userId);
+  }
+
+  /**
+   * Update a field definition. Keys and types are fixed once created so
+   * stored asset values keep their meaning.
+   */
+  async updateDefinition(
+    id: string,
+    data: Partial<Omit<CustomFieldDefinition, 'id' | 'key' | 'type'>>,
+    userId: string
+  ): Promise<void> {
+    const definition = await this.getById(id);
+    if (!definition) {
+      throw new Error('Custom field not found');
+    }
+    this.validateDefinition({ ...definition, ...data });
+
+    await this.update(id, data, userId);
+  }
+}
+
+// ==========================================
+// DEPRECIATION SNAPSHOT SERVICE
+// ==========================================
+
+class DepreciationSnapshotService extends BaseService<DepreciationSnapshot> {
+  constructor() {
+    super(COLLECTIONS.DEPRECIATION_SNAPSHOTS);
+  }
+
+  // One snapshot per organization and period, so a period can only be closed once
+  private getSnapshotId(organizationId: string, period: string): string {
+    return `${organizationId}_${period}`;
+  }
+
+  /**
+   * Get the snapshot for a closed period
+   */
+  async getByPeriod(
+    organizationId: string,
+    period: string
+  ): Promise<DepreciationSnapshot | null> {
+    return this.getById(this.getSnapshotId(organizationId, period));
+  }
+
+  /**
+   * Get all closed periods for a fiscal year
+   */
+  async getByFiscalYear(
+    organizationId: string,
+    fiscalYear: number
+  ): Promise<DepreciationSnapshot[]> {
+    return this.getAll([
+      where('organization_id', '==', organizationId),
+      where('fiscal_year', '==', fiscalYear),
+      orderBy('period', 'asc'),
+    ]);
+  }
+
+  /**
+   * Close a period (YYYY-MM): compute depreciation for every asset held at
+   * period end and persist the result as an immutable snapshot.
+   */
+  async closePeriod(
+    organizationId: string,
+    period: string,
+    fiscalYearStart: number,
+    userId: string
+  ): Promise<DepreciationSnapshot> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+
+    const existing = await this.getByPeriod(organizationId, period);
+    if (existing) {
+      throw new Error(`Period ${period} is already closed`);
+    }
+
+    const assetService = new AssetService();
+    assetService.setTenant(this.tenantId);
+    const categoryService = new AssetCategoryService();
+    categoryService.setTenant(this.tenantId);
+
+    const [assets, categories] = await Promise.all([
+      assetService.getAll([where('organization_id', '==', organizationId)]),
+      categoryService.getAll([]),
+    ]);
+    const categoryMap = new Map(categories.map(c => [c.id, c]));
+
+    const lines: DepreciationSnapshotLine[] = [];
+
+    for (const asset of assets) {
+      if (!asset.purchase_date || toPeriodKey(asset.purchase_date) > period) continue;
+      if (asset.disposal_date && toPeriodKey(asset.disposal_date) <= period) continue;
+
+      const schedule = buildDepreciationSchedule(
+        asset,
+        categoryMap.get(asset.category_id),
+        fiscalYearStart
+      );
+      if (!schedule) continue;
+
+      lines.push({
+        asset_id: asset.id,
+        asset_tag: asset.asset_tag,
+        category_id: asset.category_id,
+        office_id: asset.office_id,
+        method: schedule.method,
+        cost: schedule.cost,
+        accumulated_depreciation: getAccumulatedDepreciation(schedule, period),
+        period_depreciation: getPeriodDepreciation(schedule, period),
+        fiscal_year_depreciation: getFiscalYearToDateDepreciation(
+          schedule,
+          period,
+          fiscalYearStart
+        ),
+        net_book_value: getNetBookValue(schedule, period),
+      });
+    }
+
+    const sum = (key: keyof DepreciationSnapshotLine) =>
+      Math.round(lines.reduce((total, line) => total + (line[key] as number), 0) * 100) / 100;
+
+    const snapshotRef = this.getDocRef(this.getSnapshotId(organizationId, period));
+    const data = this.addAuditFields(
+      {
+        tenant_id: this.tenantId,
+        organization_id: organizationId,
+        period,
+        fiscal_year: getFiscalYear(period, fiscalYearStart),
+        fiscal_year_start: fiscalYearStart,
+        lines,
+        total_cost: sum('cost'),
+        total_accumulated_depreciation: sum('accumulated_depreciation'),
+        total_period_depreciation: sum('period_depreciation'),
+        total_net_book_value: sum('net_book_value'),
+      },
+      userId
+    );
+
+    // Another close of the same period may have finished while the lines
+    // were being built; only the first one is kept
+    await runTransaction(db, async (transaction) => {
+      if ((await transaction.get(snapshotRef)).exists()) {
+        throw new Error(`Period ${period} is already closed`);
+      }
+      transaction.set(snapshotRef, data);
+    });
+
+    return { id: snapshotRef.id, ...data } as DepreciationSnapshot;
+  }
+}
+
 // ==========================================
 // SINGLETON EXPORTS
 // ==========================================
 
 export const assetService = new AssetService();
 export const assetCategoryService = new AssetCategoryService();
+export const customFieldService = new CustomFieldService();
+export const depreciationSnapshotService = new DepreciationSnapshotService();
@@ -0,0 +1,328 @@
+/* ============================================
+   TENAXIS - Asset Attachment Service
+   Document and photo uploads to Firebase Storage
+   ============================================ */
+
+import {
+  collection,
+  doc,
+  runTransaction,
+  Timestamp,
+} from 'firebase/firestore';
+import {
+  ref as storageRef,
+  uploadBytesResumable,
+  getDownloadURL,
+  deleteObject,
+} from 'firebase/storage';
+import { FirebaseError } from 'firebase/app';
+import { db, storage } from '@/lib/firebase';
+import { BaseService } from './base.service';
+import { ASSET_DOCUMENT_CATEGORIES, COLLECTIONS } from '@/lib/constants';
+import { generateId } from '@/lib/utils';
+import {
+  createImageThumbnail,
+  getAttachmentFolder,
+  getDocumentStoragePaths,
+  getPhotoUrls,
+  sanitizeFileName,
+  validateAttachment,
+} from '@/lib/attachments';
+import type {
+  Asset,
+  AssetDocument,
+  AssetDocumentCategory,
+  AssetDocumentVersion,
+  AssetEvent,
+} from '@/types';
+
+export interface UploadOptions {
+  name?: string;
+  onProgress?: (percent: number) => void;
+}
+
+// ==========================================
+// ASSET ATTACHMENT SERVICE
+// ==========================================
+
+class AssetAttachmentService extends BaseService<Asset> {
+  constructor() {
+    super(COLLECTIONS.ASSETS);
+  }
+
+  /**
+   * Get the documents attached to an asset, newest first
+   */
+  async getDocuments(assetId: string): Promise<AssetDocument[]> {
+    const asset = await this.getById(assetId);
+    return [...(asset?.documents || [])].sort(
+      (a, b) => b.uploaded_at.seconds - a.uploaded_at.seconds
+    );
+  }
+
+  /**
+   * Upload a file and attach it to an asset as a new document
+   */
+  async upload(
+    assetId: string,
+    file: File,
+    category: AssetDocumentCategory,
+    userId: string,
+    options: UploadOptions = {}
+  ): Promise<AssetDocument> {
+    const error = validateAttachment(file, category);
+    if (error) {
+      throw new Error(error);
+    }
+
+    const documentId = generateId();
+    const version = await this.storeVersion(assetId, documentId, 1, file, userId, options);
+    const document: AssetDocument = { ...version, id: documentId, category };
+
+    try {
+      await this.writeDocuments(
+        assetId,
+        userId,
+        (documents) => [...documents, document],
+        {
+          event_type: 'document_added',
+          description: `${this.getCategoryLabel(category)} "${document.name}" uploaded`,
+          metadata: { document_id: documentId, category },
+        }
+      );
+    } catch (err) {
+      await this.deleteFiles([version.storage_path, version.thumbnail_path]);
+      throw err;
+    }
+
+    return document;
+  }
+
+  /**
+   * Upload a new version of a document. Earlier versions are kept in
+   * storage and listed in previous_versions.
+   */
+  async uploadVersion(
+    assetId: string,
+    documentId: string,
+    file: File,
+    userId: string,
+    options: UploadOptions = {}
+  ): Promise<AssetDocument> {
+    const current = (await this.getDocuments(assetId)).find(d => d.id === documentId);
+    if (!current) {
+      throw new Error('Document not found');
+    }
+
+    const error = validateAttachment(file, current.category);
+    if (error) {
+      throw new Error(error);
+    }
+
+    const version = await this.storeVersion(
+      assetId,
+      documentId,
+      current.version + 1,
+      file,
+      userId,
+      { name: options.name || current.name, onProgress: options.onProgress }
+    );
+
+    const { id, category, previous_versions, ...previous } = current;
+    const updated: AssetDocument = {
+      ...version,
+      id,
+      category,
+      previous_versions: [...(previous_versions || []), previous],
+    };
+
+    try {
+      await this.writeDocuments(
+        assetId,
+        userId,
+        (documents) => {
+          const existing = documents.find(d => d.id === documentId);
+          if (!existing) {
+            throw new Error('Document not found');
+          }
+          if (existing.version !== current.version) {
+            throw new Error('Document was changed by someone else. Reload and try again.');
+          }
+          return documents.map(d => (d.id === documentId ? updated : d));
+        },
+        {
+          event_type: 'document_added',
+          description: `"${version.name}" updated to version ${version.version}`,
+          metadata: { document_id: documentId, version: version.version },
+        }
+      );
+    } catch (err) {
+      await this.deleteFiles([version.storage_path, version.thumbnail_path]);
+      throw err;
+    }
+
+    return updated;
+  }
+
+  /**
+   * Remove a document and delete every stored version of it
+   */
+  async remove(assetId: string, documentId: string, userId: string): Promise<void> {
+    const current = (await this.getDocuments(assetId)).find(d => d.id === documentId);
+    if (!current) {
+      throw new Error('Document not found');
+    }
+
+    let removed = current;
+    await this.writeDocuments(
+      assetId,
+      userId,
+      (documents) => {
+        const existing = documents.find(d => d.id === documentId);
+        if (!existing) {
+          throw new Error('Document not found');
+        }
+        removed = existing;
+        return documents.filter(d => d.id !== documentId);
+      },
+      {
+        event_type: 'document_removed',
+        description: `${this.getCategoryLabel(current.category)} "${current.name}" removed`,
+        metadata: { document_id: documentId, category: current.category },
+      }
+    );
+
+    // Files go after the record so a failed delete never leaves a dangling link
+    await this.deleteFiles(getDocumentStoragePaths(removed));
+  }
+
+  /**
+   * Upload the file and its thumbnail for one document version
+   */
+  private async storeVersion(
+    assetId: string,
+    documentId: string,
+    version: number,
+    file: File,
+    userId: string,
+    options: UploadOptions
+  ): Promise<AssetDocumentVersion> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+
+    const folder = getAttachmentFolder(this.tenantId, assetId, documentId, version);
+    const storagePath = `${folder}/${sanitizeFileName(file.name)}`;
+    const metadata = {
+      contentType: file.type,
+      customMetadata: { asset_id: assetId, uploaded_by: userId },
+    };
+
+    const task = uploadBytesResumable(storageRef(storage, storagePath), file, metadata);
+    task.on('state_changed', (snapshot) => {
+      options.onProgress?.(Math.round((snapshot.bytesTransferred / snapshot.totalBytes) * 100));
+    });
+    await task;
+
+    const result: AssetDocumentVersion = {
+      version,
+      name: options.name?.trim() || file.name,
+      url: await getDownloadURL(storageRef(storage, storagePath)),
+      type: file.type,
+      size: file.size,
+      storage_path: storagePath,
+      uploaded_at: Timestamp.now(),
+      uploaded_by: userId,
+    };
+
+    const thumbnail = await createImageThumbnail(file);
+    if (thumbnail) {
+      const thumbnailPath = `${folder}/thumbnail.jpg`;
+      try {
+        const thumbnailRef = storageRef(storage, thumbnailPath);
+        await uploadBytesResumable(thumbnailRef, thumbnail, {
+          ...metadata,
+          contentType: 'image/jpeg',
+        });
+        result.thumbnail_path = thumbnailPath;
+        result.thumbnail_url = await getDownloadURL(thumbnailRef);
+      } catch (err) {
+        // The original is usable without a thumbnail
+        console.warn('Thumbnail upload failed:', err);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Read-modify-write the asset's document list in a transaction and log
+   * an asset event
+   */
+  private async writeDocuments(
+    assetId: string,
+    userId: string,
+    change: (documents: AssetDocument[]) => AssetDocument[],
+    event: Pick<AssetEvent, 'event_type' | 'description' | 'metadata'>
+  ): Promise<void> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+
+    const assetRef = doc(db, 'tenants', this.tenantId, COLLECTIONS.ASSETS, assetId);
+    const now = Timestamp.now();
+
+    await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(assetRef);
+      if (!snapshot.exists()) {
+        throw new Error('Asset not found');
+      }
+
+      const documents = change((snapshot.data() as Asset).documents || []);
+      transaction.update(assetRef, {
+        documents,
+        images: getPhotoUrls(documents),
+        updated_at: now,
+        updated_by: userId,
+      });
+
+      const eventData: Omit<AssetEvent, 'id'> = {
+        tenant_id: this.tenantId!,
+        asset_id: assetId,
+        ...event,
+        created_at: now,
+        created_by: userId,
+      };
+      transaction.set(doc(collection(assetRef, COLLECTIONS.ASSET_EVENTS)), eventData);
+    });
+  }
+
+  /**
+   * Delete storage objects, ignoring ones that are already gone
+   */
+  private async deleteFiles(paths: (string | undefined)[]): Promise<void> {
+    await Promise.all(
+      paths
+        .filter((path): path is string => !!path)
+        .map(async (path) => {
+          try {
+            await deleteObject(storageRef(storage, path));
+          } catch (err) {
+            if (!(err instanceof FirebaseError && err.code === 'storage/object-not-found')) {
+              console.warn(`Failed to delete ${path}:`, err);
+            }
+          }
+        })
+    );
+  }
+
+  private getCategoryLabel(category: AssetDocumentCategory): string {
+    return ASSET_DOCUMENT_CATEGORIES.find(c => c.value === category)?.label || category;
+  }
+}
+
+// ==========================================
+// SINGLETON EXPORT
+// ==========================================
+
+export const assetAttachmentService = new AssetAttachmentService();
@@ -0,0 +1,110 @@
+/* ============================================
+   TENAXIS - Checklist Template Service
+   Reusable inspection checklists for maintenance tickets
+   ============================================ */
+
+import { where, orderBy, updateDoc } from 'firebase/firestore';
+import { BaseService } from './base.service';
+import { COLLECTIONS } from '@/lib/constants';
+import { assertValidTemplateItems } from '@/lib/checklists';
+import type { AuditFields, ChecklistTemplate, ChecklistTemplateItem } from '@/types';
+
+export type ChecklistTemplateInput = Pick<
+  ChecklistTemplate,
+  'name' | 'description' | 'ticket_types' | 'category_ids' | 'items' | 'raise_corrective'
+>;
+
+// ==========================================
+// CHECKLIST TEMPLATE SERVICE
+// ==========================================
+
+class ChecklistTemplateService extends BaseService<ChecklistTemplate> {
+  constructor() {
+    super(COLLECTIONS.CHECKLIST_TEMPLATES);
+  }
+
+  /**
+   * Get active templates
+   */
+  async getActive(): Promise<ChecklistTemplate[]> {
+    return this.getAll([
+      where('status', '==', 'active'),
+      orderBy('name', 'asc'),
+    ]);
+  }
+
+  /**
+   * Create a template. New tickets of its types, or on assets in its
+   * categories, get its items on their checklist.
+   */
+  async createTemplate(data: ChecklistTemplateInput, userId: string): Promise<ChecklistTemplate> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+    this.assertValidTemplate(data);
+
+    const templateData: Omit<ChecklistTemplate, 'id' | keyof AuditFields> = {
+      tenant_id: this.tenantId,
+      ...this.normalize(data),
+      status: 'active',
+    };
+
+    return this.create(templateData as Omit<ChecklistTemplate, 'id'>, userId);
+  }
+
+  /**
+   * Change a template. Tickets already raised keep the checklist they were given.
+   */
+  async updateTemplate(id: string, data: ChecklistTemplateInput, userId: string): Promise<void> {
+    this.assertValidTemplate(data);
+
+    const { description, ...rest } = this.normalize(data);
+    await updateDoc(this.getDocRef(id), {
+      ...this.addAuditFields(rest, userId, false),
+      description: description || null,
+    });
+  }
+
+  private assertValidTemplate(data: ChecklistTemplateInput): void {
+    if (!data.name.trim()) {
+      throw new Error('Give the template a name');
+    }
+    if (data.ticket_types.length === 0 && data.category_ids.length === 0) {
+      throw new Error('Choose the ticket types or asset categories the template applies to');
+    }
+    assertValidTemplateItems(data.items);
+  }
+
+  private normalize(data: ChecklistTemplateInput): ChecklistTemplateInput {
+    return {
+      name: data.name.trim(),
+      ...(data.description?.trim() && { description: data.description.trim() }),
+      ticket_types: data.ticket_types,
+      category_ids: data.category_ids,
+      items: data.items.map(item => this.normalizeItem(item)),
+      raise_corrective: data.raise_corrective,
+    };
+  }
+
+  // Thresholds and units only mean something on readings
+  private normalizeItem(item: ChecklistTemplateItem): ChecklistTemplateItem {
+    const unit = item.unit?.trim();
+    return {
+      id: item.id,
+      label: item.label.trim(),
+      kind: item.kind,
+      required: item.required,
+      ...(item.kind === 'reading' && {
+        ...(unit && { unit }),
+        ...(item.min !== undefined && { min: item.min }),
+        ...(item.max !== undefined && { max: item.max }),
+      }),
+    };
+  }
+}
+
+// ==========================================
+// SINGLETON EXPORT
+// ==========================================
+
+export const checklistTemplateService = new ChecklistTemplateService();
@@ -0,0 +1,434 @@
+/* ============================================
+   TENAXIS - Asset Checkout Service
+   Loan periods with check-out / check-in tracking
+   ============================================ */
+
+import {
+  collection,
+  doc,
+  where,
+  orderBy,
+  runTransaction,
+  Timestamp,
+  type Transaction,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { BaseService } from './base.service';
+import { assetService } from './asset.service';
+import { assetReservationService } from './reservation.service';
+import { COLLECTIONS } from '@/lib/constants';
+import { formatDateTime } from '@/lib/utils';
+import { TERMINAL_ASSET_STATUSES } from '@/lib/asset-lifecycle';
+import { findReservationConflicts, toMillis } from '@/lib/reservations';
+import type {
+  Asset,
+  AssetCheckout,
+  AssetCondition,
+  AssetEvent,
+  AssetReservation,
+} from '@/types';
+
+// ==========================================
+// ASSET CHECKOUT SERVICE
+// ==========================================
+
+class AssetCheckoutService extends BaseService<AssetCheckout> {
+  constructor() {
+    super(COLLECTIONS.ASSET_CHECKOUTS);
+  }
+
+  /**
+   * Get the open checkout for an asset, if any
+   */
+  async getActiveForAsset(assetId: string): Promise<AssetCheckout | null> {
+    const checkouts = await this.getAll([
+      where('asset_id', '==', assetId),
+      where('status', '==', 'checked_out'),
+    ]);
+    return checkouts[0] || null;
+  }
+
+  /**
+   * Get checkout history for an asset
+   */
+  async getByAsset(assetId: string): Promise<AssetCheckout[]> {
+    return this.getAll([
+      where('asset_id', '==', assetId),
+      orderBy('checked_out_at', 'desc'),
+    ]);
+  }
+
+  /**
+   * Get open checkouts held by a user
+   */
+  async getByUser(userId: string): Promise<AssetCheckout[]> {
+    return this.getAll([
+      where('checked_out_to', '==', userId),
+      where('status', '==', 'checked_out'),
+      orderBy('expected_return_at', 'asc'),
+    ]);
+  }
+
+  /**
+   * Get all open checkouts, optionally for one office
+   */
+  async getOpen(officeId?: string): Promise<AssetCheckout[]> {
+    return this.getAll([
+      where('status', '==', 'checked_out'),
+      ...(officeId ? [where('office_id', '==', officeId)] : []),
+      orderBy('expected_return_at', 'asc'),
+    ]);
+  }
+
+  /**
+   * Get checkouts past their expected return date
+   */
+  async getOverdue(officeId?: string): Promise<AssetCheckout[]> {
+    return this.getAll([
+      where('status', '==', 'checked_out'),
+      where('expected_return_at', '<', Timestamp.now()),
+      ...(officeId ? [where('office_id', '==', officeId)] : []),
+      orderBy('expected_return_at', 'asc'),
+    ]);
+  }
+
+  /**
+   * Check an asset out to a user for a loan period. A bundle goes out
+   * whole: its components are checked out under the same loan, and a
+   * component cannot be checked out on its own. The asset is re-read in the
+   * transaction, so two check-outs at the same time cannot both open a loan.
+   */
+  async checkOut(
+    assetId: string,
+    userId: string,
+    expectedReturnAt: Date,
+    condition: AssetCondition,
+    checkedOutBy: string,
+    notes?: string
+  ): Promise<AssetCheckout> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+
+    assetService.setTenant(this.tenantId);
+    assetReservationService.setTenant(this.tenantId);
+    const asset = await assetService.getById(assetId);
+    if (!asset) {
+      throw new Error('Asset not found');
+    }
+    assetService.assertNotComponent(asset, 'check out');
+    const candidates = await assetService.getCascadeComponents(asset, 'checking out');
+
+    if (expectedReturnAt.getTime() <= Date.now()) {
+      throw new Error('Expected return date must be in the future');
+    }
+
+    const checkoutRef = doc(this.getCollectionRef());
+    return assetReservationService.runWithBookings(
+      assetId,
+      async (transaction, current, reservations) => {
+        const components = await this.readAssets(transaction, candidates);
+        if (current.status !== 'available' || current.current_checkout_id) {
+          throw new Error('Asset is not available for checkout');
+        }
+        assetService.assertNotComponent(current, 'check out');
+        const blocked = components.find(
+          c => c.parent_asset_id && (c.current_checkout_id || c.current_reservation_id)
+        );
+        if (blocked) {
+          throw new Error(
+            `Component ${blocked.asset_tag} is checked out or reserved; resolve it before checking out the bundle`
+          );
+        }
+
+        const now = Timestamp.now();
+        const expectedReturn = Timestamp.fromDate(expectedReturnAt);
+
+        // Loans may not run into a booked reservation window
+        this.assertNoReservationConflict(reservations, now.toDate(), expectedReturnAt);
+
+        // Create checkout record
+        const checkoutData: Omit<AssetCheckout, 'id'> = {
+          tenant_id: this.tenantId!,
+          asset_id: assetId,
+          asset_tag: current.asset_tag,
+          office_id: current.office_id,
+          status: 'checked_out',
+          checked_out_to: userId,
+          checked_out_at: now,
+          checked_out_by: checkedOutBy,
+          expected_return_at: expectedReturn,
+          condition_out: condition,
+          ...(notes ? { notes_out: notes } : {}),
+          created_at: now,
+          created_by: checkedOutBy,
+          updated_at: now,
+          updated_by: checkedOutBy,
+        };
+        transaction.set(checkoutRef, checkoutData);
+
+        // Update asset
+        const assetRef = doc(db, 'tenants', this.tenantId!, COLLECTIONS.ASSETS, assetId);
+        assetService.queueStatusChange(transaction, current, 'in_use', checkedOutBy, now, {
+          metadata: { checkout_id: checkoutRef.id },
+        });
+        const update = {
+          assigned_to: userId,
+          assigned_at: now,
+          status: 'in_use',
+          current_checkout_id: checkoutRef.id,
+          updated_at: now,
+          updated_by: checkedOutBy,
+        };
+        transaction.update(assetRef, { ...update, condition });
+
+        // Components follow the bundle; ones detached meanwhile stay behind
+        assetService.cascadeToComponents(
+          transaction,
+          current,
+          components.filter(c => c.parent_asset_id),
+          update,
+          checkedOutBy,
+          (component) => ({
+            event_type: 'assigned',
+            description: `Checked out with bundle ${current.asset_tag}`,
+            ...(component.assigned_to && { from_user_id: component.assigned_to }),
+            to_user_id: userId,
+          })
+        );
+
+        // Create assignment event
+        const eventRef = doc(collection(assetRef, COLLECTIONS.ASSET_EVENTS));
+        const eventData: Omit<AssetEvent, 'id'> = {
+          tenant_id: this.tenantId!,
+          asset_id: assetId,
+          event_type: 'assigned',
+          description: notes || 'Asset checked out',
+          to_user_id: userId,
+          metadata: {
+            checkout_id: checkoutRef.id,
+            expected_return_at: expectedReturn,
+            condition,
+          },
+          created_at: now,
+          created_by: checkedOutBy,
+        };
+        transaction.set(eventRef, eventData);
+
+        return { id: checkoutRef.id, ...checkoutData };
+      }
+    );
+  }
+
+  /**
+   * Check an asset back in, recording its condition at return. Components
+   * checked out with a bundle come back with it. The loan is re-read in the
+   * transaction, so a second check-in of the same loan is refused.
+   */
+  async checkIn(
+    checkoutId: string,
+    condition: AssetCondition,
+    returnedBy: string,
+    notes?: string
+  ): Promise<void> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+
+    const checkout = await this.getById(checkoutId);
+    if (!checkout) {
+      throw new Error('Checkout not found');
+    }
+    if (checkout.status !== 'checked_out') {
+      throw new Error('Asset has already been returned');
+    }
+
+    // Components detached since the check-out keep their loan marker until
+    // checked in here too, so look them up by the loan rather than the tree
+    assetService.setTenant(this.tenantId);
+    const candidates = (await assetService.getDescendants(checkout.asset_id)).filter(
+      c => c.current_checkout_id === checkoutId
+    );
+
+    const checkoutRef = this.getDocRef(checkoutId);
+    const assetRef = doc(db, 'tenants', this.tenantId, COLLECTIONS.ASSETS, checkout.asset_id);
+
+    await runTransaction(db, async (transaction) => {
+      const checkoutSnapshot = await transaction.get(checkoutRef);
+      const assetSnapshot = await transaction.get(assetRef);
+      const components = (await this.readAssets(transaction, candidates)).filter(
+        c => c.current_checkout_id === checkoutId
+      );
+      if (!checkoutSnapshot.exists()) {
+        throw new Error('Checkout not found');
+      }
+      const current = { id: checkoutSnapshot.id, ...checkoutSnapshot.data() } as AssetCheckout;
+      if (current.status !== 'checked_out') {
+        throw new Error('Asset has already been returned');
+      }
+      if (!assetSnapshot.exists()) {
+        throw new Error('Asset not found');
+      }
+      const asset = { id: assetSnapshot.id, ...assetSnapshot.data() } as Asset;
+
+      const now = Timestamp.now();
+      const overdue = current.expected_return_at.seconds < now.seconds;
+
+      // Close checkout record
+      transaction.update(checkoutRef, {
+        status: 'returned',
+        returned_at: now,
+        returned_by: returnedBy,
+        condition_in: condition,
+        ...(notes ? { notes_in: notes } : {}),
+        updated_at: now,
+        updated_by: returnedBy,
+      });
+
+      // Update asset; one reassigned since keeps its new holder
+      const update = {
+        assigned_to: null,
+        assigned_at: null,
+        status: 'available',
+        current_checkout_id: null,
+        updated_at: now,
+        updated_by: returnedBy,
+      };
+      if (asset.current_checkout_id === checkoutId) {
+        assetService.queueStatusChange(transaction, asset, 'available', returnedBy, now, {
+          metadata: { checkout_id: checkoutId },
+        });
+        transaction.update(assetRef, { ...update, condition });
+      }
+
+      // Components follow the bundle; ones lost or disposed meanwhile keep
+      // their status and only drop the loan
+      const isWrittenOff = (c: Asset) => TERMINAL_ASSET_STATUSES.includes(c.status);
+      const returning = components.filter(c => !isWrittenOff(c));
+      assetService.cascadeToComponents(
+        transaction,
+        asset,
+        returning,
+        update,
+        returnedBy,
+        (component) => ({
+          event_type: 'unassigned',
+          description: `Checked in with bundle ${asset.asset_tag}`,
+          ...(component.assigned_to && { from_user_id: component.assigned_to }),
+        })
+      );
+      for (const component of components.filter(isWrittenOff)) {
+        transaction.update(doc(db, 'tenants', this.tenantId!, COLLECTIONS.ASSETS, component.id), {
+          current_checkout_id: null,
+          updated_at: now,
+          updated_by: returnedBy,
+        });
+      }
+
+      // Create unassignment event
+      const eventRef = doc(collection(assetRef, COLLECTIONS.ASSET_EVENTS));
+      const eventData: Omit<AssetEvent, 'id'> = {
+        tenant_id: this.tenantId!,
+        asset_id: current.asset_id,
+        event_type: 'unassigned',
+        description: notes || 'Asset checked in',
+        from_user_id: current.checked_out_to,
+        metadata: {
+          checkout_id: checkoutId,
+          expected_return_at: current.expected_return_at,
+          condition_out: current.condition_out,
+          condition_in: condition,
+          overdue,
+        },
+        created_at: now,
+        created_by: returnedBy,
+      };
+      transaction.set(eventRef, eventData);
+    });
+  }
+
+  /**
+   * Extend the loan period of an open checkout. The new return date must
+   * be later than the current one and may not run into a booked reservation.
+   */
+  async extend(
+    checkoutId: string,
+    expectedReturnAt: Date,
+    userId: string
+  ): Promise<void> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+
+    const checkout = await this.getById(checkoutId);
+    if (!checkout || checkout.status !== 'checked_out') {
+      throw new Error('Checkout is not open');
+    }
+
+    const checkoutRef = this.getDocRef(checkoutId);
+    assetReservationService.setTenant(this.tenantId);
+    await assetReservationService.runWithBookings(
+      checkout.asset_id,
+      async (transaction, _asset, reservations) => {
+        const snapshot = await transaction.get(checkoutRef);
+        const current = { id: snapshot.id, ...snapshot.data() } as AssetCheckout;
+        if (!snapshot.exists() || current.status !== 'checked_out') {
+          throw new Error('Checkout is not open');
+        }
+
+        const now = new Date();
+        if (expectedReturnAt.getTime() <= now.getTime()) {
+          throw new Error('Expected return date must be in the future');
+        }
+        if (expectedReturnAt.getTime() <= toMillis(current.expected_return_at)) {
+          throw new Error('New return date must be later than the current one');
+        }
+        this.assertNoReservationConflict(reservations, now, expectedReturnAt);
+
+        transaction.update(checkoutRef, {
+          expected_return_at: Timestamp.fromDate(expectedReturnAt),
+          updated_at: Timestamp.now(),
+          updated_by: userId,
+        });
+      }
+    );
+  }
+
+  /**
+   * Re-read assets inside a transaction, dropping any deleted since
+   */
+  private async readAssets(transaction: Transaction, assets: Asset[]): Promise<Asset[]> {
+    const current: Asset[] = [];
+    for (const asset of assets) {
+      const snapshot = await transaction.get(
+        doc(db, 'tenants', this.tenantId!, COLLECTIONS.ASSETS, asset.id)
+      );
+      if (snapshot.exists()) {
+        current.push({ id: snapshot.id, ...snapshot.data() } as Asset);
+      }
+    }
+    return current;
+  }
+
+  /**
+   * Throw when a loan from start to end would run into a reservation
+   */
+  private assertNoReservationConflict(
+    reservations: AssetReservation[],
+    start: Date,
+    end: Date
+  ): void {
+    const conflicts = findReservationConflicts(reservations, start, end);
+    if (conflicts.length > 0) {
+      throw new Error(
+        `Asset is reserved from ${formatDateTime(conflicts[0]!.start_at)}; return it before then`
+      );
+    }
+  }
+}
+
+// ==========================================
+// SINGLETON EXPORT
+// ==========================================
+
+export const assetCheckoutService = new AssetCheckoutService();
@@ -0,0 +1,286 @@
+/* ============================================
+   TENAXIS - Stock Service Tests
+   Concurrent and retried stock movements against the Firestore emulator
+   ============================================ */
+
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { initializeTestEnvironment, type RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import { collection, doc, getDocs, query, setDoc, Timestamp, where } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { COLLECTIONS } from '@/lib/constants';
+import { stockService } from './consumable.service';
+import type { StockTransaction, StockTransactionType } from '@/types';
+
+const TENANT_ID = 'tenant-1';
+const OFFICE_ID = 'office-1';
+const BRANCH_ID = 'office-2';
+const CONSUMABLE_ID = 'toner';
+const USER_ID = 'admin-1';
+
+// Only the stock transactions are under test, not the security rules
+const OPEN_RULES = `
+rules_version = '2';
+service cloud.firestore {
+  match /databases/{database}/documents {
+    match /{document=**} {
+      allow read, write: if true;
+    }
+  }
+}`;
+
+let testEnv: RulesTestEnvironment;
+
+const issue = (quantity: number, issuedTo: string, idempotencyKey?: string) =>
+  stockService.issue(OFFICE_ID, CONSUMABLE_ID, quantity, issuedTo, USER_ID, undefined, {
+    ...(idempotencyKey && { idempotencyKey }),
+  });
+
+const restock = (quantity: number, idempotencyKey?: string) =>
+  stockService.restock(OFFICE_ID, CONSUMABLE_ID, quantity, USER_ID, undefined, {
+    ...(idempotencyKey && { idempotencyKey }),
+  });
+
+const dispatch = (quantity: number, idempotencyKey?: string) =>
+  stockService.dispatchTransfer(OFFICE_ID, BRANCH_ID, CONSUMABLE_ID, quantity, USER_ID, undefined, {
+    ...(idempotencyKey && { idempotencyKey }),
+  });
+
+const postCount = (variance: number, idempotencyKey?: string) =>
+  stockService.postCount(
+    OFFICE_ID,
+    CONSUMABLE_ID,
+    variance,
+    Timestamp.now(),
+    USER_ID,
+    'Cycle count',
+    { ...(idempotencyKey && { idempotencyKey }) }
+  );
+
+const getStockLevel = async (officeId = OFFICE_ID) =>
+  (await stockService.getConsumableStock(officeId, CONSUMABLE_ID))?.quantity;
+
+const getTransactions = async (type?: StockTransactionType) => {
+  const snapshot = await getDocs(
+    query(
+      collection(db, 'tenants', TENANT_ID, COLLECTIONS.STOCK_TRANSACTIONS),
+      ...(type ? [where('type', '==', type)] : [])
+    )
+  );
+  return snapshot.docs.map(d => ({ id: d.id, ...d.data() }) as StockTransaction);
+};
+
+const getTransfers = async () =>
+  (await getDocs(collection(db, 'tenants', TENANT_ID, COLLECTIONS.STOCK_TRANSFERS))).docs;
+
+// Level the ledger adds up to for an office; it must match the stock record
+const getLedgerBalance = async (officeId = OFFICE_ID) => {
+  const outgoing: StockTransactionType[] = ['issue', 'transfer_out'];
+  return (await getTransactions())
+    .filter(t => t.office_id === officeId)
+    .reduce((sum, t) => sum + (outgoing.includes(t.type) ? -t.quantity : t.quantity), 0);
+};
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: import.meta.env.VITE_FIREBASE_PROJECT_ID,
+    firestore: { host: 'localhost', port: 8080, rules: OPEN_RULES },
+  });
+});
+
+afterAll(async () => {
+  await testEnv?.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  stockService.setTenant(TENANT_ID);
+  await setDoc(doc(db, 'tenants', TENANT_ID, COLLECTIONS.OFFICES, BRANCH_ID), {
+    tenant_id: TENANT_ID,
+    name: 'Branch',
+  });
+  await stockService.restock(OFFICE_ID, CONSUMABLE_ID, 5, USER_ID, undefined, { unitCost: 10 });
+});
+
+describe('stockService.issue', () => {
+  it('never issues more than is in stock when two issues race', async () => {
+    const results = await Promise.allSettled([
+      issue(3, 'user-a'),
+      issue(3, 'user-b'),
+    ]);
+
+    const rejected = results.filter(r => r.status === 'rejected');
+    expect(rejected).toHaveLength(1);
+    expect(String(rejected[0]!.reason)).toContain('2 available, 3 requested');
+    expect(await getStockLevel()).toBe(2);
+    expect(await getTransactions('issue')).toHaveLength(1);
+  });
+
+  it('applies a retried issue only once', async () => {
+    const first = await issue(2, 'user-a', 'issue-1');
+    const retry = await issue(2, 'user-a', 'issue-1');
+
+    expect(retry.id).toBe(first.id);
+    expect(retry.balance_after).toBe(3);
+    expect(await getStockLevel()).toBe(3);
+    expect(await getTransactions('issue')).toHaveLength(1);
+  });
+
+  it('applies an issue sent twice at once only once', async () => {
+    const [first, second] = await Promise.all([
+      issue(2, 'user-a', 'issue-1'),
+      issue(2, 'user-a', 'issue-1'),
+    ]);
+
+    expect(second.id).toBe(first.id);
+    expect(await getStockLevel()).toBe(3);
+    expect(await getTransactions('issue')).toHaveLength(1);
+  });
+
+  it('rejects a key reused for a different movement', async () => {
+    await issue(1, 'user-a', 'issue-1');
+
+    await expect(restock(1, 'issue-1')).rejects.toThrow(
+      'Idempotency key was already used for a different stock movement'
+    );
+    expect(await getStockLevel()).toBe(4);
+  });
+});
+
+describe('stockService.restock', () => {
+  it('keeps both of two restocks made at once', async () => {
+    await Promise.all([restock(3), restock(4)]);
+
+    expect(await getStockLevel()).toBe(12);
+    expect(await getLedgerBalance()).toBe(12);
+  });
+
+  it('applies a retried restock only once', async () => {
+    const first = await restock(3, 'restock-1');
+    const retry = await restock(3, 'restock-1');
+
+    expect(retry.id).toBe(first.id);
+    expect(await getStockLevel()).toBe(8);
+    expect(await getTransactions('restock')).toHaveLength(2);
+  });
+
+  it('applies a restock sent twice at once only once', async () => {
+    const [first, second] = await Promise.all([restock(3, 'restock-1'), restock(3, 'restock-1')]);
+
+    expect(second.id).toBe(first.id);
+    expect(await getStockLevel()).toBe(8);
+    expect(await getLedgerBalance()).toBe(8);
+  });
+});
+
+describe('stockService.dispatchTransfer', () => {
+  it('never dispatches more than is in stock when two dispatches race', async () => {
+    const results = await Promise.allSettled([dispatch(3), dispatch(3)]);
+
+    expect(results.filter(r => r.status === 'rejected')).toHaveLength(1);
+    expect(await getStockLevel()).toBe(2);
+    expect(await getTransfers()).toHaveLength(1);
+    expect(await getLedgerBalance()).toBe(2);
+  });
+
+  it('applies a retried dispatch only once', async () => {
+    const first = await dispatch(2, 'transfer-1');
+    const retry = await dispatch(2, 'transfer-1');
+
+    expect(retry.id).toBe(first.id);
+    expect(await getStockLevel()).toBe(3);
+    expect(await getTransfers()).toHaveLength(1);
+  });
+
+  it('applies a dispatch sent twice at once only once', async () => {
+    const [first, second] = await Promise.all([
+      dispatch(2, 'transfer-1'),
+      dispatch(2, 'transfer-1'),
+    ]);
+
+    expect(second.id).toBe(first.id);
+    expect(await getStockLevel()).toBe(3);
+    expect(await getTransactions('transfer_out')).toHaveLength(1);
+  });
+});
+
+describe('stockService.receiveTransfer', () => {
+  it('receives a transfer only once when two receipts race', async () => {
+    const transfer = await dispatch(4);
+
+    const results = await Promise.allSettled([
+      stockService.receiveTransfer(transfer.id, { received_quantity: 4 }, USER_ID),
+      stockService.receiveTransfer(transfer.id, { received_quantity: 4 }, USER_ID),
+    ]);
+
+    const rejected = results.filter(r => r.status === 'rejected');
+    expect(rejected).toHaveLength(1);
+    expect(String(rejected[0]!.reason)).toContain('already been received');
+    expect(await getStockLevel(BRANCH_ID)).toBe(4);
+    expect(await getLedgerBalance(BRANCH_ID)).toBe(4);
+  });
+
+  it('refuses a retried receipt', async () => {
+    const transfer = await dispatch(4);
+    await stockService.receiveTransfer(transfer.id, { received_quantity: 4 }, USER_ID);
+
+    await expect(
+      stockService.receiveTransfer(transfer.id, { received_quantity: 4 }, USER_ID)
+    ).rejects.toThrow('This transfer has already been received');
+    expect(await getStockLevel(BRANCH_ID)).toBe(4);
+    expect(await getTransactions('transfer_in')).toHaveLength(1);
+  });
+});
+
+describe('stockService.adjust', () => {
+  it('keeps the ledger in step with stock when an adjustment races an issue', async () => {
+    await Promise.all([
+      stockService.adjust(OFFICE_ID, CONSUMABLE_ID, 10, USER_ID, 'Recount'),
+      issue(2, 'user-a'),
+    ]);
+
+    // Either order is valid, but the adjustment must be measured against
+    // the level it actually replaced
+    const level = await getStockLevel();
+    expect([8, 10]).toContain(level);
+    expect(await getLedgerBalance()).toBe(level);
+  });
+
+  it('applies a retried adjustment only once', async () => {
+    const first = await stockService.adjust(OFFICE_ID, CONSUMABLE_ID, 3, USER_ID, 'Recount', {
+      idempotencyKey: 'adjust-1',
+    });
+    await issue(1, 'user-a');
+    const retry = await stockService.adjust(OFFICE_ID, CONSUMABLE_ID, 3, USER_ID, 'Recount', {
+      idempotencyKey: 'adjust-1',
+    });
+
+    expect(retry.id).toBe(first.id);
+    expect(await getStockLevel()).toBe(2);
+    expect(await getTransactions('adjustment')).toHaveLength(1);
+  });
+});
+
+describe('stockService.postCount', () => {
+  it('applies both of two variances posted at once', async () => {
+    await Promise.all([postCount(-2), postCount(-2)]);
+
+    expect(await getStockLevel()).toBe(1);
+    expect(await getLedgerBalance()).toBe(1);
+  });
+
+  it('applies a retried count only once', async () => {
+    const first = await postCount(-2, 'count-1');
+    const retry = await postCount(-2, 'count-1');
+
+    expect(retry?.id).toBe(first?.id);
+    expect(await getStockLevel()).toBe(3);
+    expect(await getTransactions('adjustment')).toHaveLength(1);
+  });
+
+  it('refuses a variance that stock has moved past', async () => {
+    await issue(4, 'user-a');
+
+    await expect(postCount(-2)).rejects.toThrow('posting it would take stock below zero');
+    expect(await getStockLevel()).toBe(1);
+  });
+});
@@ -6,24 +6,97 @@
 import {
   collection,
   doc,
+  getDoc,
   getDocs,
   query,
   where,
   orderBy,
+  runTransaction,
   Timestamp,
-  writeBatch,
-  increment,
+  type DocumentReference,
+  type Transaction,
 } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
 import { BaseService } from './base.service';
-import { COLLECTIONS } from '@/lib/constants';
+import { COLLECTIONS, DEFAULT_COSTING_METHOD, LOT_EXPIRY_ALERT_DAYS } from '@/lib/constants';
+import {
+  consumeCost,
+  getCostState,
+  getStockValue,
+  receiveCost,
+  replayLedger,
+  roundMoney,
+  roundUnitCost,
+  type CostState,
+} from '@/lib/costing';
+import { assertValidKitComponents, getKitShortages, StockShortageError } from '@/lib/kits';
+import { getLotQuantity, getUsableQuantity, pickLots, receiveLot, splitLots } from '@/lib/lots';
+import {
+  assertValidConversions,
+  findUnitFactor,
+  getUnitFactor,
+  toBaseUnitEntry,
+  type UnitEntry,
+} from '@/lib/units';
+import { formatDate, generateTicketNumber } from '@/lib/utils';
+import { getDaysUntil, getDueWarrantyAlert } from '@/lib/warranties';
+import { officeService } from './organization.service';
+import { notificationService } from './notification.service';
+import {
+  assertPositiveQuantity,
+  assertSufficientStock,
+  getIdempotentTransactionId,
+  getStockDocId,
+} from '@/lib/stock';
 import type {
+  AuditFields,
   Consumable,
   ConsumableCategory,
+  ConsumableKit,
+  ConsumableKitComponent,
+  ConsumableUnitConversion,
+  CostingMethod,
   OfficeStock,
+  StockAdjustmentReason,
+  StockLot,
+  StockLotMovement,
   StockTransaction,
+  StockTransactionType,
+  StockTransfer,
+  StockValuationLine,
+  Tenant,
 } from '@/types';
 
+export interface StockMutationOptions {
+  /**
+   * Client-generated key for one logical mutation. Retrying with the same
+   * key returns the original record instead of moving stock again.
+   */
+  idempotencyKey?: string;
+  referenceNumber?: string;
+  /**
+   * Purchase cost per unit of a restock. Defaults to the current average
+   * cost, so restocks without a price do not change the stock's value per unit.
+   */
+  unitCost?: number;
+  /**
+   * Lot the restocked quantity belongs to. Required for lot-tracked consumables.
+   */
+  lot?: Omit<StockLotMovement, 'quantity'>;
+  /**
+   * Unit the quantity and unit cost are given in. Converted to the
+   * consumable's base unit; the original is kept on the transaction.
+   */
+  unit?: string;
+  reasonCode?: StockAdjustmentReason;
+}
+
+export interface StockTransferReceiptInput {
+  received_quantity: number;
+  damaged_quantity?: number;
+  notes?: string; // Required when anything is damaged or missing
+}
+
 // ==========================================
 // CONSUMABLE SERVICE
 // ==========================================
@@ -68,6 +141,59 @@ class ConsumableService extends BaseService<Consumable> {
 
     return bySku;
   }
+
+  /**
+   * Set the units a consumable can be bought and issued in besides its base
+   * unit. Stock stays recorded in the base unit.
+   */
+  async updateUnits(
+    id: string,
+    conversions: ConsumableUnitConversion[],
+    purchaseUnit: string,
+    userId: string
+  ): Promise<void> {
+    const consumable = await this.getById(id);
+    if (!consumable) {
+      throw new Error('Consumable not found');
+    }
+
+    assertValidConversions(consumable.unit, conversions);
+    const updated = { unit: consumable.unit, unit_conversions: conversions };
+    if (findUnitFactor(updated, purchaseUnit) === undefined) {
+      throw new Error('The purchase unit must be the base unit or one of its conversions');
+    }
+
+    await this.update(
+      id,
+      { unit_conversions: conversions, purchase_unit: purchaseUnit },
+      userId
+    );
+  }
+
+  /**
+   * Convert lines entered in any unit of their consumable to its base unit.
+   * Lines not taken from stock keep their quantity and lose any unit.
+   */
+  async toBaseUnitEntries<T extends UnitEntry & { consumable_id?: string }>(
+    lines: T[]
+  ): Promise<Array<Omit<T, 'unit' | 'unit_quantity'> & UnitEntry>> {
+    const ids = new Set(lines.filter(l => l.consumable_id && l.unit).map(l => l.consumable_id!));
+    const consumables = new Map<string, Consumable>();
+    for (const consumable of await Promise.all([...ids].map(id => this.getById(id)))) {
+      if (consumable) consumables.set(consumable.id, consumable);
+    }
+
+    return lines.map(line => {
+      const { unit, unit_quantity: _entered, ...rest } = line;
+      if (!line.consumable_id || !unit) return { ...rest, quantity: line.quantity };
+
+      const consumable = consumables.get(line.consumable_id);
+      if (!consumable) {
+        throw new Error('Consumable not found');
+      }
+      return { ...rest, ...toBaseUnitEntry(consumable, line.quantity, unit) };
+    });
+  }
 }
 
 // ==========================================
@@ -90,6 +216,112 @@ class ConsumableCategoryService extends BaseService<ConsumableCategory> {
   }
 }
 
+// ==========================================
+// CONSUMABLE KIT SERVICE
+// ==========================================
+
+// Component quantities are in their unit, or the base unit when none is given
+export type ConsumableKitInput = Pick<ConsumableKit, 'name' | 'description' | 'components'>;
+
+class ConsumableKitService extends BaseService<ConsumableKit> {
+  constructor() {
+    super(COLLECTIONS.CONSUMABLE_KITS);
+  }
+
+  /**
+   * Get active kits
+   */
+  async getActive(): Promise<ConsumableKit[]> {
+    return this.getAll([
+      where('status', '==', 'active'),
+      orderBy('name', 'asc'),
+    ]);
+  }
+
+  /**
+   * Define a kit
+   */
+  async createKit(data: ConsumableKitInput, userId: string): Promise<ConsumableKit> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+    if (!data.name.trim()) {
+      throw new Error('Give the kit a name');
+    }
+    assertValidKitComponents(data.components);
+
+    consumableService.setTenant(this.tenantId);
+    const kitData: Omit<ConsumableKit, 'id' | keyof AuditFields> = {
+      tenant_id: this.tenantId,
+      name: data.name.trim(),
+      components: await consumableService.toBaseUnitEntries(data.components),
+      status: 'active',
+      ...(data.description?.trim() && { description: data.description.trim() }),
+    };
+
+    return this.create(kitData as Omit<ConsumableKit, 'id'>, userId);
+  }
+
+  /**
+   * Change a kit's name, description or contents
+   */
+  async updateKit(id: string, data: ConsumableKitInput, userId: string): Promise<void> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+    if (!data.name.trim()) {
+      throw new Error('Give the kit a name');
+    }
+    assertValidKitComponents(data.components);
+
+    consumableService.setTenant(this.tenantId);
+    await this.update(
+      id,
+      {
+        name: data.name.trim(),
+        description: data.description?.trim() || '',
+        components: await consumableService.toBaseUnitEntries(data.components),
+      },
+      userId
+    );
+  }
+
+  /**
+   * Issue a kit from an office to a person. All items are issued or none
+   * are; their transactions share one kit reference number.
+   */
+  async issue(
+    kitId: string,
+    officeId: string,
+    issuedTo: string,
+    userId: string,
+    options: { notes?: string; idempotencyKey?: string } = {}
+  ): Promise<StockTransaction[]> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+
+    const kit = await this.getById(kitId);
+    if (!kit || kit.status !== 'active') {
+      throw new Error('This kit is no longer available');
+    }
+
+    stockService.setTenant(this.tenantId);
+    return stockService.issueKit(
+      officeId,
+      kit.components,
+      issuedTo,
+      userId,
+      options.notes?.trim() || `Kit: ${kit.name}`,
+      {
+        referenceNumber: generateTicketNumber('KIT'),
+        kitId,
+        ...(options.idempotencyKey && { idempotencyKey: options.idempotencyKey }),
+      }
+    );
+  }
+}
+
 // ==========================================
 // STOCK SERVICE
 // ==========================================
@@ -111,6 +343,11 @@ class StockService {
     return collection(db, 'tenants', this.tenantId, COLLECTIONS.STOCK_TRANSACTIONS);
   }
 
+  private getTransferCollectionRef() {
+    if (!this.tenantId) throw new Error('Tenant ID must be set');
+    return collection(db, 'tenants', this.tenantId, COLLECTIONS.STOCK_TRANSFERS);
+  }
+
   /**
    * Get stock for an office
    */
@@ -171,6 +408,148 @@ class StockService {
       }));
   }
 
+  /**
+   * Find the stock record for a consumable in an office. Records created
+   * before stock IDs were deterministic keep their generated ID.
+   */
+  private async resolveStockRef(officeId: string, consumableId: string) {
+    const existing = await this.getConsumableStock(officeId, consumableId);
+    return doc(
+      this.getStockCollectionRef(),
+      existing?.id || getStockDocId(officeId, consumableId)
+    );
+  }
+
+  private getTransactionRef(idempotencyKey?: string, leg?: 'in' | 'out') {
+    return idempotencyKey
+      ? doc(this.getTransactionCollectionRef(), getIdempotentTransactionId(idempotencyKey, leg))
+      : doc(this.getTransactionCollectionRef());
+  }
+
+  /**
+   * Return the record of a mutation that already ran under this key, so a
+   * retry reports the original result instead of applying it twice
+   */
+  private async getReplay(
+    transaction: Transaction,
+    transactionRef: DocumentReference,
+    type: StockTransactionType,
+    consumableId: string,
+    idempotencyKey?: string
+  ): Promise<StockTransaction | null> {
+    if (!idempotencyKey) return null;
+
+    const snapshot = await transaction.get(transactionRef);
+    if (!snapshot.exists()) return null;
+
+    const existing = { id: snapshot.id, ...snapshot.data() } as StockTransaction;
+    if (existing.type !== type || existing.consumable_id !== consumableId) {
+      throw new Error('Idempotency key was already used for a different stock movement');
+    }
+    return existing;
+  }
+
+  /**
+   * Costing method configured for the tenant
+   */
+  async getCostingMethod(): Promise<CostingMethod> {
+    if (!this.tenantId) throw new Error('Tenant ID must be set');
+
+    const snapshot = await getDoc(doc(db, COLLECTIONS.TENANTS, this.tenantId));
+    const settings = snapshot.exists() ? (snapshot.data() as Tenant).settings : undefined;
+    return settings?.costing_method ?? DEFAULT_COSTING_METHOD;
+  }
+
+  /**
+   * Read the current level and cost of a stock record inside a transaction
+   */
+  private async readQuantity(transaction: Transaction, stockRef: DocumentReference) {
+    const snapshot = await transaction.get(stockRef);
+    const data = snapshot.exists() ? (snapshot.data() as OfficeStock) : null;
+    const cost = getCostState(data);
+    return {
+      exists: snapshot.exists(),
+      quantity: cost.quantity,
+      cost,
+      lots: data?.lots ?? [],
+    };
+  }
+
+  /**
+   * Take a quantity out of stock first-expiry-first-out. Whatever the
+   * unexpired lots cannot cover comes from stock received without a lot.
+   */
+  private pickStock(
+    stock: { quantity: number; lots: StockLot[] },
+    quantity: number,
+    now: Date,
+    message?: string
+  ) {
+    const usable = getUsableQuantity(stock.quantity, stock.lots, now);
+    assertSufficientStock(
+      usable,
+      quantity,
+      usable < stock.quantity ? `${message || 'Insufficient stock'} (expired lots excluded)` : message
+    );
+    return pickLots(stock.lots, quantity, now);
+  }
+
+  /**
+   * Stock record fields holding a cost state
+   */
+  private toCostFields(cost: CostState): Pick<OfficeStock, 'average_cost' | 'cost_layers'> {
+    return { average_cost: cost.average_cost, cost_layers: cost.cost_layers };
+  }
+
+  /**
+   * Convert a quantity entered in a unit of the consumable to its base
+   * unit. Entries in anything but the base unit are recorded as entered.
+   */
+  private async toBaseUnits(consumableId: string, quantity: number, unit?: string) {
+    const snapshot = unit
+      ? await getDoc(doc(db, 'tenants', this.tenantId!, COLLECTIONS.CONSUMABLES, consumableId))
+      : null;
+    if (snapshot && !snapshot.exists()) {
+      throw new Error('Consumable not found');
+    }
+    const consumable = snapshot?.data() as Consumable | undefined;
+    if (!unit || !consumable || unit === consumable.unit) {
+      return { quantity, factor: 1, entered: {} };
+    }
+
+    const factor = getUnitFactor(consumable, unit);
+    return {
+      quantity: quantity * factor,
+      factor,
+      entered: { unit, unit_quantity: quantity },
+    };
+  }
+
+  /**
+   * Write a new stock level, creating the record if needed
+   */
+  private writeQuantity(
+    transaction: Transaction,
+    stockRef: DocumentReference,
+    exists: boolean,
+    officeId: string,
+    consumableId: string,
+    quantity: number,
+    changes: Partial<OfficeStock>
+  ): void {
+    if (exists) {
+      transaction.update(stockRef, { ...changes, quantity });
+    } else {
+      transaction.set(stockRef, {
+        tenant_id: this.tenantId,
+        office_id: officeId,
+        consumable_id: consumableId,
+        ...changes,
+        quantity,
+      });
+    }
+  }
+
   /**
    * Restock consumable
    */
@@ -179,52 +558,81 @@ class StockService {
     consumableId: string,
     quantity: number,
     userId: string,
-    notes?: string
-  ): Promise<void> {
+    notes?: string,
+    options: StockMutationOptions = {}
+  ): Promise<StockTransaction> {
     if (!this.tenantId) throw new Error('Tenant ID must be set');
+    assertPositiveQuantity(quantity);
+    if (options.unitCost !== undefined && !(options.unitCost >= 0)) {
+      throw new Error('Unit cost cannot be negative');
+    }
+
+    const [stockRef, entry] = await Promise.all([
+      this.resolveStockRef(officeId, consumableId),
+      this.toBaseUnits(consumableId, quantity, options.unit),
+    ]);
+    const baseQuantity = entry.quantity;
+    const transactionRef = this.getTransactionRef(options.idempotencyKey);
 
-    const batch = writeBatch(db);
-    const now = Timestamp.now();
+    return runTransaction(db, async (transaction) => {
+      const replay = await this.getReplay(
+        transaction,
+        transactionRef,
+        'restock',
+        consumableId,
+        options.idempotencyKey
+      );
+      if (replay) return replay;
 
-    // Check if stock record exists
-    const existingStock = await this.getConsumableStock(officeId, consumableId);
+      const stock = await this.readQuantity(transaction, stockRef);
+      const consumable = await transaction.get(
+        doc(db, 'tenants', this.tenantId!, COLLECTIONS.CONSUMABLES, consumableId)
+      );
+      const lot: StockLotMovement | undefined = options.lot?.lot_number.trim()
+        ? {
+            lot_number: options.lot.lot_number.trim(),
+            quantity: baseQuantity,
+            ...(options.lot.expiry_date && { expiry_date: options.lot.expiry_date }),
+          }
+        : undefined;
+      if (!lot && (consumable.data() as Consumable | undefined)?.track_lots) {
+        throw new Error('A lot number is required to restock a lot-tracked consumable');
+      }
 
-    if (existingStock) {
-      // Update existing stock
-      const stockRef = doc(this.getStockCollectionRef(), existingStock.id);
-      batch.update(stockRef, {
-        quantity: increment(quantity),
+      const now = Timestamp.now();
+      const balance = stock.quantity + baseQuantity;
+      const unitCost = roundUnitCost(
+        options.unitCost !== undefined ? options.unitCost / entry.factor : stock.cost.average_cost
+      );
+
+      this.writeQuantity(transaction, stockRef, stock.exists, officeId, consumableId, balance, {
+        ...this.toCostFields(receiveCost(stock.cost, baseQuantity, unitCost)),
+        ...(lot && { lots: receiveLot(stock.lots, lot, now, userId) }),
         last_restocked: now,
         updated_at: now,
       });
-    } else {
-      // Create new stock record
-      const stockRef = doc(this.getStockCollectionRef());
-      batch.set(stockRef, {
-        tenant_id: this.tenantId,
+
+      const transactionData: Omit<StockTransaction, 'id'> = {
+        tenant_id: this.tenantId!,
         office_id: officeId,
         consumable_id: consumableId,
-        quantity: quantity,
-        last_restocked: now,
-        updated_at: now,
-      });
-    }
-
-    // Create transaction record
-    const transactionRef = doc(this.getTransactionCollectionRef());
-    const transactionData: Omit<StockTransaction, 'id'> = {
-      tenant_id: this.tenantId,
-      office_id: officeId,
-      consumable_id: consumableId,
-      type: 'restock',
-      quantity: quantity,
-      notes,
-      created_at: now,
-      created_by: userId,
-    };
-    batch.set(transactionRef, transactionData);
+        type: 'restock',
+        quantity: baseQuantity,
+        ...entry.entered,
+        balance_after: balance,
+        unit_cost: unitCost,
+        total_cost: roundMoney(baseQuantity * unitCost),
+        ...(lot && { lots: [lot] }),
+        ...(notes && { notes }),
+        ...(options.referenceNumber && { reference_number: options.referenceNumber }),
+        ...(options.idempotencyKey && { idempotency_key: options.idempotencyKey }),
+        created_at: now,
+        created_by: userId,
+      };
+      transaction.set(transactionRef, transactionData);
 
-    await batch.commit();
+      return { id: transactionRef.id, ...transactionData };
+    });
   }
 
   /**
@@ -236,121 +644,442 @@ class StockService {
     quantity: number,
     issuedTo: string,
     userId: string,
-    notes?: string
-  ): Promise<void> {
+    notes?: string,
+    options: StockMutationOptions = {}
+  ): Promise<StockTransaction> {
     if (!this.tenantId) throw new Error('Tenant ID must be set');
+    assertPositiveQuantity(quantity);
 
-    const existingStock = await this.getConsumableStock(officeId, consumableId);
-    if (!existingStock || existingStock.quantity < quantity) {
-      throw new Error('Insufficient stock');
-    }
+    const [stockRef, method, entry] = await Promise.all([
+      this.resolveStockRef(officeId, consumableId),
+      this.getCostingMethod(),
+      this.toBaseUnits(consumableId, quantity, options.unit),
+    ]);
+    const baseQuantity = entry.quantity;
+    const transactionRef = this.getTransactionRef(options.idempotencyKey);
+
+    return runTransaction(db, async (transaction) => {
+      const replay = await this.getReplay(
+        transaction,
+        transactionRef,
+        'issue',
+        consumableId,
+        options.idempotencyKey
+      );
+      if (replay) return replay;
+
+      // Checked against the level read in this transaction, so concurrent
+      // issues retry instead of driving stock negative
+      const stock = await this.readQuantity(transaction, stockRef);
+      const now = Timestamp.now();
+      const pick = this.pickStock(stock, baseQuantity, now.toDate());
+
+      const balance = stock.quantity - baseQuantity;
+      const costed = consumeCost(stock.cost, baseQuantity, method);
 
-    const batch = writeBatch(db);
-    const now = Timestamp.now();
+      transaction.update(stockRef, {
+        ...this.toCostFields(costed.state),
+        ...(stock.lots.length > 0 && { lots: pick.remaining }),
+        quantity: balance,
+        last_issued: now,
+        updated_at: now,
+      });
+
+      const transactionData: Omit<StockTransaction, 'id'> = {
+        tenant_id: this.tenantId!,
+        office_id: officeId,
+        consumable_id: consumableId,
+        type: 'issue',
+        quantity: baseQuantity,
+        ...entry.entered,
+        issued_to: issuedTo,
+        balance_after: balance,
+        unit_cost: costed.unit_cost,
+        total_cost: costed.total_cost,
+        ...(pick.picked.length > 0 && { lots: pick.picked }),
+        ...(notes && { notes }),
+        ...(options.referenceNumber && { reference_number: options.referenceNumber }),
+        ...(options.idempotencyKey && { idempotency_key: options.idempotencyKey }),
+        created_at: now,
+        created_by: userId,
+      };
+      transaction.set(transactionRef, transactionData);
 
-    // Update stock
-    const stockRef = doc(this.getStockCollectionRef(), existingStock.id);
-    batch.update(stockRef, {
-      quantity: increment(-quantity),
-      last_issued: now,
-      updated_at: now,
+      return { id: transactionRef.id, ...transactionData };
     });
+  }
 
-    // Create transaction record
-    const transactionRef = doc(this.getTransactionCollectionRef());
-    const transactionData: Omit<StockTransaction, 'id'> = {
-      tenant_id: this.tenantId,
-      office_id: officeId,
-      consumable_id: consumableId,
-      type: 'issue',
-      quantity: quantity,
-      issued_to: issuedTo,
-      notes,
-      created_at: now,
-      created_by: userId,
-    };
-    batch.set(transactionRef, transactionData);
+  /**
+   * Issue every item of a kit to one person at once. Stock is checked for
+   * all of them before anything moves, and each item gets its own
+   * transaction under the shared reference number. Throws
+   * StockShortageError when any item is short.
+   */
+  async issueKit(
+    officeId: string,
+    components: ConsumableKitComponent[],
+    issuedTo: string,
+    userId: string,
+    notes: string | undefined,
+    options: { referenceNumber: string; kitId?: string; idempotencyKey?: string }
+  ): Promise<StockTransaction[]> {
+    if (!this.tenantId) throw new Error('Tenant ID must be set');
+    assertValidKitComponents(components);
+
+    const [stockRefs, method, consumables] = await Promise.all([
+      Promise.all(components.map(c => this.resolveStockRef(officeId, c.consumable_id))),
+      this.getCostingMethod(),
+      Promise.all(
+        components.map(c =>
+          getDoc(doc(db, 'tenants', this.tenantId!, COLLECTIONS.CONSUMABLES, c.consumable_id))
+        )
+      ),
+    ]);
+    const names = new Map(
+      consumables.map(snapshot => [
+        snapshot.id,
+        snapshot.exists() ? (snapshot.data() as Consumable).name : snapshot.id,
+      ])
+    );
+    // One record per item, keyed on the item so a retry finds each of them
+    const transactionRefs = components.map(c =>
+      this.getTransactionRef(
+        options.idempotencyKey ? `${options.idempotencyKey}-${c.consumable_id}` : undefined
+      )
+    );
+
+    return runTransaction(db, async (transaction) => {
+      const replays: StockTransaction[] = [];
+      for (const [index, component] of components.entries()) {
+        const replay = await this.getReplay(
+          transaction,
+          transactionRefs[index]!,
+          'issue',
+          component.consumable_id,
+          options.idempotencyKey
+        );
+        if (replay) replays.push(replay);
+      }
+      // Items are written together, so either all of them ran or none did
+      if (replays.length > 0) return replays;
+
+      const stocks: Awaited<ReturnType<StockService['readQuantity']>>[] = [];
+      for (const stockRef of stockRefs) {
+        stocks.push(await this.readQuantity(transaction, stockRef));
+      }
+
+      const now = Timestamp.now();
+      const shortages = getKitShortages(
+        components,
+        new Map(
+          stocks.map((stock, index) => [
+            components[index]!.consumable_id,
+            getUsableQuantity(stock.quantity, stock.lots, now.toDate()),
+          ])
+        )
+      );
+      if (shortages.length > 0) {
+        throw new StockShortageError(shortages, names);
+      }
+
+      return components.map((component, index) => {
+        const stock = stocks[index]!;
+        const pick = this.pickStock(stock, component.quantity, now.toDate());
+        const balance = stock.quantity - component.quantity;
+        const costed = consumeCost(stock.cost, component.quantity, method);
 
-    await batch.commit();
+        transaction.update(stockRefs[index]!, {
+          ...this.toCostFields(costed.state),
+          ...(stock.lots.length > 0 && { lots: pick.remaining }),
+          quantity: balance,
+          last_issued: now,
+          updated_at: now,
+        });
+
+        const transactionData: Omit<StockTransaction, 'id'> = {
+          tenant_id: this.tenantId!,
+          office_id: officeId,
+          consumable_id: component.consumable_id,
+          type: 'issue',
+          quantity: component.quantity,
+          issued_to: issuedTo,
+          balance_after: balance,
+          unit_cost: costed.unit_cost,
+          total_cost: costed.total_cost,
+          ...(pick.picked.length > 0 && { lots: pick.picked }),
+          ...(notes && { notes }),
+          reference_number: options.referenceNumber,
+          ...(options.kitId && { kit_id: options.kitId }),
+          ...(options.idempotencyKey && { idempotency_key: options.idempotencyKey }),
+          created_at: now,
+          created_by: userId,
+        };
+        transaction.set(transactionRefs[index]!, transactionData);
+
+        return { id: transactionRefs[index]!.id, ...transactionData };
+      });
+    });
   }
 
   /**
-   * Transfer stock between offices
+   * Dispatch stock to another office. The quantity leaves the source
+   * office now and stays in transit until the destination confirms what
+   * arrived.
    */
-  async transfer(
+  async dispatchTransfer(
     fromOfficeId: string,
     toOfficeId: string,
     consumableId: string,
     quantity: number,
     userId: string,
-    notes?: string
-  ): Promise<void> {
+    notes?: string,
+    options: StockMutationOptions = {}
+  ): Promise<StockTransfer> {
     if (!this.tenantId) throw new Error('Tenant ID must be set');
+    assertPositiveQuantity(quantity);
+    if (fromOfficeId === toOfficeId) {
+      throw new Error('Source and destination office must differ');
+    }
 
-    // Check source stock
-    const sourceStock = await this.getConsumableStock(fromOfficeId, consumableId);
-    if (!sourceStock || sourceStock.quantity < quantity) {
-      throw new Error('Insufficient stock in source office');
+    officeService.setTenant(this.tenantId);
+    notificationService.setTenant(this.tenantId);
+
+    const [sourceRef, method, destOffice] = await Promise.all([
+      this.resolveStockRef(fromOfficeId, consumableId),
+      this.getCostingMethod(),
+      officeService.getById(toOfficeId),
+    ]);
+    if (!destOffice) {
+      throw new Error('Destination office not found');
     }
 
-    const batch = writeBatch(db);
-    const now = Timestamp.now();
+    const outTransactionRef = this.getTransactionRef(options.idempotencyKey, 'out');
+    const transferRef = options.idempotencyKey
+      ? doc(this.getTransferCollectionRef(), getIdempotentTransactionId(options.idempotencyKey))
+      : doc(this.getTransferCollectionRef());
 
-    // Decrease source office stock
-    const sourceRef = doc(this.getStockCollectionRef(), sourceStock.id);
-    batch.update(sourceRef, {
-      quantity: increment(-quantity),
-      updated_at: now,
-    });
+    return runTransaction(db, async (transaction) => {
+      const replay = await this.getReplay(
+        transaction,
+        outTransactionRef,
+        'transfer_out',
+        consumableId,
+        options.idempotencyKey
+      );
+      if (replay) {
+        const snapshot = await transaction.get(transferRef);
+        return { id: snapshot.id, ...snapshot.data() } as StockTransfer;
+      }
+
+      const source = await this.readQuantity(transaction, sourceRef);
+
+      const now = Timestamp.now();
+      const pick = this.pickStock(
+        source,
+        quantity,
+        now.toDate(),
+        'Insufficient stock in source office'
+      );
+      const balance = source.quantity - quantity;
+      const costed = consumeCost(source.cost, quantity, method);
 
-    // Increase destination office stock
-    const destStock = await this.getConsumableStock(toOfficeId, consumableId);
-    if (destStock) {
-      const destRef = doc(this.getStockCollectionRef(), destStock.id);
-      batch.update(destRef, {
-        quantity: increment(quantity),
+      transaction.update(sourceRef, {
+        ...this.toCostFields(costed.state),
+        ...(source.lots.length > 0 && { lots: pick.remaining }),
+        quantity: balance,
         updated_at: now,
       });
-    } else {
-      const destRef = doc(this.getStockCollectionRef());
-      batch.set(destRef, {
-        tenant_id: this.tenantId,
-        office_id: toOfficeId,
+
+      const outData: Omit<StockTransaction, 'id'> = {
+        tenant_id: this.tenantId!,
+        office_id: fromOfficeId,
         consumable_id: consumableId,
+        type: 'transfer_out',
         quantity: quantity,
-        updated_at: now,
-      });
-    }
+        transferred_to_office: toOfficeId,
+        stock_transfer_id: transferRef.id,
+        balance_after: balance,
+        unit_cost: costed.unit_cost,
+        total_cost: costed.total_cost,
+        ...(pick.picked.length > 0 && { lots: pick.picked }),
+        ...(notes && { notes }),
+        ...(options.referenceNumber && { reference_number: options.referenceNumber }),
+        ...(options.idempotencyKey && { idempotency_key: options.idempotencyKey }),
+        created_at: now,
+        created_by: userId,
+      };
+      transaction.set(outTransactionRef, outData);
 
-    // Create transfer out transaction
-    const outTransactionRef = doc(this.getTransactionCollectionRef());
-    batch.set(outTransactionRef, {
-      tenant_id: this.tenantId,
-      office_id: fromOfficeId,
-      consumable_id: consumableId,
-      type: 'transfer_out',
-      quantity: quantity,
-      transferred_to_office: toOfficeId,
-      notes,
-      created_at: now,
-      created_by: userId,
+      const transferData: Omit<StockTransfer, 'id'> = {
+        tenant_id: this.tenantId!,
+        transfer_number: options.referenceNumber || generateTicketNumber('TRF'),
+        consumable_id: consumableId,
+        from_office_id: fromOfficeId,
+        to_office_id: toOfficeId,
+        status: 'in_transit',
+        quantity,
+        unit_cost: costed.unit_cost,
+        total_cost: costed.total_cost,
+        ...(pick.picked.length > 0 && { lots: pick.picked }),
+        ...(notes && { notes }),
+        out_transaction_id: outTransactionRef.id,
+        dispatched_at: now,
+        dispatched_by: userId,
+      };
+      transaction.set(transferRef, transferData);
+
+      if (destOffice.manager_id) {
+        notificationService.queue(
+          transaction,
+          {
+            user_id: destOffice.manager_id,
+            type: 'info',
+            title: `Transfer ${transferData.transfer_number} is on its way`,
+            message:
+              `${quantity} ${quantity === 1 ? 'unit is' : 'units are'} in transit to ` +
+              `${destOffice.name}. Confirm what arrives when it is delivered.`,
+            action_url: '/consumables/transfers',
+            action_label: 'View transfers',
+          },
+          now
+        );
+      }
+
+      return { id: transferRef.id, ...transferData };
     });
+  }
 
-    // Create transfer in transaction
-    const inTransactionRef = doc(this.getTransactionCollectionRef());
-    batch.set(inTransactionRef, {
-      tenant_id: this.tenantId,
-      office_id: toOfficeId,
-      consumable_id: consumableId,
-      type: 'transfer_in',
-      quantity: quantity,
-      transferred_from_office: fromOfficeId,
-      notes,
-      created_at: now,
-      created_by: userId,
+  /**
+   * Confirm what arrived on an in-transit transfer. Good units are posted
+   * to the destination office at the cost they were dispatched at; damaged
+   * and missing units are recorded on the transfer as a discrepancy.
+   */
+  async receiveTransfer(
+    transferId: string,
+    input: StockTransferReceiptInput,
+    userId: string
+  ): Promise<StockTransfer> {
+    if (!this.tenantId) throw new Error('Tenant ID must be set');
+
+    const receivedQuantity = input.received_quantity;
+    const damagedQuantity = input.damaged_quantity ?? 0;
+    if (
+      !Number.isFinite(receivedQuantity) ||
+      !Number.isFinite(damagedQuantity) ||
+      receivedQuantity < 0 ||
+      damagedQuantity < 0
+    ) {
+      throw new Error('Received and damaged quantities cannot be negative');
+    }
+
+    const transferRef = doc(this.getTransferCollectionRef(), transferId);
+    const initial = await getDoc(transferRef);
+    if (!initial.exists()) {
+      throw new Error('Transfer not found');
+    }
+    const { to_office_id, consumable_id } = initial.data() as StockTransfer;
+    const destRef = await this.resolveStockRef(to_office_id, consumable_id);
+    const inTransactionRef = doc(
+      this.getTransactionCollectionRef(),
+      getIdempotentTransactionId(transferId, 'in')
+    );
+
+    return runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(transferRef);
+      const transfer = { id: snapshot.id, ...snapshot.data() } as StockTransfer;
+      if (transfer.status !== 'in_transit') {
+        throw new Error('This transfer has already been received');
+      }
+      if (receivedQuantity + damagedQuantity > transfer.quantity) {
+        throw new Error(
+          `Received and damaged units cannot exceed the ${transfer.quantity} dispatched`
+        );
+      }
+
+      const dest = await this.readQuantity(transaction, destRef);
+      const now = Timestamp.now();
+      const shortQuantity = transfer.quantity - receivedQuantity - damagedQuantity;
+      const hasDiscrepancy = receivedQuantity < transfer.quantity;
+
+      if (hasDiscrepancy && !input.notes?.trim()) {
+        throw new Error('Describe the shortage or damage');
+      }
+
+      const changes: Partial<StockTransfer> = {
+        status: hasDiscrepancy ? 'discrepancy' : 'received',
+        received_quantity: receivedQuantity,
+        damaged_quantity: damagedQuantity,
+        short_quantity: shortQuantity,
+        ...(input.notes?.trim() && { receipt_notes: input.notes.trim() }),
+        received_at: now,
+        received_by: userId,
+      };
+
+      if (receivedQuantity > 0) {
+        const lots = splitLots(transfer.lots, receivedQuantity).taken;
+        const balance = dest.quantity + receivedQuantity;
+
+        // Lots keep their number and expiry in the destination office
+        this.writeQuantity(transaction, destRef, dest.exists, to_office_id, consumable_id, balance, {
+          ...this.toCostFields(receiveCost(dest.cost, receivedQuantity, transfer.unit_cost)),
+          ...(lots.length > 0 && {
+            lots: lots.reduce((held, lot) => receiveLot(held, lot, now, userId), dest.lots),
+          }),
+          updated_at: now,
+        });
+
+        const inData: Omit<StockTransaction, 'id'> = {
+          tenant_id: this.tenantId!,
+          office_id: to_office_id,
+          consumable_id,
+          type: 'transfer_in',
+          quantity: receivedQuantity,
+          transferred_from_office: transfer.from_office_id,
+          stock_transfer_id: transfer.id,
+          balance_after: balance,
+          unit_cost: transfer.unit_cost,
+          total_cost: roundMoney(receivedQuantity * transfer.unit_cost),
+          ...(lots.length > 0 && { lots }),
+          reference_number: transfer.transfer_number,
+          ...(hasDiscrepancy && {
+            notes: `${damagedQuantity} damaged, ${shortQuantity} missing of ${transfer.quantity} dispatched`,
+          }),
+          created_at: now,
+          created_by: userId,
+        };
+        transaction.set(inTransactionRef, inData);
+        changes.in_transaction_id = inTransactionRef.id;
+      }
+
+      transaction.update(transferRef, changes);
+      return { ...transfer, ...changes };
     });
+  }
+
+  /**
+   * Get transfers, newest first
+   */
+  async getTransfers(): Promise<StockTransfer[]> {
+    const q = query(this.getTransferCollectionRef(), orderBy('dispatched_at', 'desc'));
+    
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })) as StockTransfer[];
+  }
 
-    await batch.commit();
+  /**
+   * Get transfers still in transit to an office, oldest first
+   */
+  async getInboundTransfers(officeId: string): Promise<StockTransfer[]> {
+    const q = query(
+      this.getTransferCollectionRef(),
+      where('to_office_id', '==', officeId),
+      where('status', '==', 'in_transit')
+    );
+    
+    const snapshot = await getDocs(q);
+    return (snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })) as StockTransfer[]).sort(
+      (a, b) => a.dispatched_at.seconds - b.dispatched_at.seconds
+    );
   }
 
   /**
@@ -361,48 +1090,311 @@ class StockService {
     consumableId: string,
     newQuantity: number,
     userId: string,
-    reason: string
-  ): Promise<void> {
+    reason: string,
+    options: StockMutationOptions = {}
+  ): Promise<StockTransaction> {
+    if (!Number.isFinite(newQuantity) || newQuantity < 0) {
+      throw new Error('Stock cannot be adjusted below zero');
+    }
+
+    const adjusted = await this.writeAdjustment(
+      officeId,
+      consumableId,
+      () => newQuantity,
+      {},
+      userId,
+      reason,
+      options
+    );
+    return adjusted!;
+  }
+
+  /**
+   * Post a cycle count variance. The variance is applied to the level at
+   * posting time, so movements between the count and its approval are kept.
+   * Returns null when the count matched and there was nothing to post.
+   */
+  async postCount(
+    officeId: string,
+    consumableId: string,
+    variance: number,
+    countedAt: NonNullable<OfficeStock['last_counted_at']>,
+    userId: string,
+    reason: string,
+    options: StockMutationOptions = {}
+  ): Promise<StockTransaction | null> {
+    return this.writeAdjustment(
+      officeId,
+      consumableId,
+      (current) => {
+        if (current + variance < 0) {
+          throw new Error('Stock has moved since the count; posting it would take stock below zero');
+        }
+        return current + variance;
+      },
+      { last_counted_at: countedAt },
+      userId,
+      reason,
+      options
+    );
+  }
+
+  /**
+   * Set stock to the level returned for the current one, recording the
+   * difference as an adjustment along with any extra changes. When there is
+   * no difference but extra changes are given, only those are written.
+   */
+  private async writeAdjustment(
+    officeId: string,
+    consumableId: string,
+    getNewQuantity: (current: number) => number,
+    changes: Partial<OfficeStock>,
+    userId: string,
+    reason: string,
+    options: StockMutationOptions
+  ): Promise<StockTransaction | null> {
     if (!this.tenantId) throw new Error('Tenant ID must be set');
 
-    const existingStock = await this.getConsumableStock(officeId, consumableId);
-    const oldQuantity = existingStock?.quantity || 0;
-    const difference = newQuantity - oldQuantity;
+    const [stockRef, method] = await Promise.all([
+      this.resolveStockRef(officeId, consumableId),
+      this.getCostingMethod(),
+    ]);
+    const transactionRef = this.getTransactionRef(options.idempotencyKey);
+
+    return runTransaction(db, async (transaction) => {
+      const replay = await this.getReplay(
+        transaction,
+        transactionRef,
+        'adjustment',
+        consumableId,
+        options.idempotencyKey
+      );
+      if (replay) return replay;
+
+      const stock = await this.readQuantity(transaction, stockRef);
+      const now = Timestamp.now();
+      const newQuantity = getNewQuantity(stock.quantity);
+      const delta = newQuantity - stock.quantity;
+
+      if (delta === 0 && Object.keys(changes).length > 0) {
+        if (stock.exists) transaction.update(stockRef, { ...changes, updated_at: now });
+        return null;
+      }
 
-    const batch = writeBatch(db);
-    const now = Timestamp.now();
+      // Found stock comes in at the average cost; losses are costed like issues
+      const costed =
+        delta >= 0
+          ? {
+              state: receiveCost(stock.cost, delta, stock.cost.average_cost),
+              unit_cost: stock.cost.average_cost,
+              total_cost: roundMoney(delta * stock.cost.average_cost),
+            }
+          : consumeCost(stock.cost, -delta, method);
 
-    if (existingStock) {
-      const stockRef = doc(this.getStockCollectionRef(), existingStock.id);
-      batch.update(stockRef, {
-        quantity: newQuantity,
+      // Stock found on a count has no lot; losses come out of stock without
+      // a lot first, then from the lots closest to expiry
+      const fromLots = Math.max(-delta - (stock.quantity - getLotQuantity(stock.lots)), 0);
+      const pick = pickLots(stock.lots, fromLots, now.toDate(), true);
+
+      this.writeQuantity(transaction, stockRef, stock.exists, officeId, consumableId, newQuantity, {
+        ...changes,
+        ...(delta !== 0 && this.toCostFields(costed.state)),
+        ...(fromLots > 0 && { lots: pick.remaining }),
         updated_at: now,
       });
-    } else {
-      const stockRef = doc(this.getStockCollectionRef());
-      batch.set(stockRef, {
-        tenant_id: this.tenantId,
+
+      const transactionData: Omit<StockTransaction, 'id'> = {
+        tenant_id: this.tenantId!,
         office_id: officeId,
         consumable_id: consumableId,
-        quantity: newQuantity,
+        type: 'adjustment',
+        quantity: delta,
+        balance_after: newQuantity,
+        unit_cost: costed.unit_cost,
+        total_cost: costed.total_cost,
+        ...(pick.picked.length > 0 && { lots: pick.picked }),
+        ...(options.reasonCode && { reason_code: options.reasonCode }),
+        notes: `Adjusted from ${stock.quantity} to ${newQuantity}. Reason: ${reason}`,
+        ...(options.referenceNumber && { reference_number: options.referenceNumber }),
+        ...(options.idempotencyKey && { idempotency_key: options.idempotencyKey }),
+        created_at: now,
+        created_by: userId,
+      };
+      transaction.set(transactionRef, transactionData);
+
+      return { id: transactionRef.id, ...transactionData };
+    });
+  }
+
+  /**
+   * Write off a whole lot, e.g. once it has expired. Recorded as an
+   * adjustment carrying the reason code and the lot.
+   */
+  async writeOffLot(
+    officeId: string,
+    consumableId: string,
+    lotNumber: string,
+    reasonCode: StockAdjustmentReason,
+    userId: string,
+    notes?: string,
+    options: StockMutationOptions = {}
+  ): Promise<StockTransaction> {
+    if (!this.tenantId) throw new Error('Tenant ID must be set');
+
+    const [stockRef, method] = await Promise.all([
+      this.resolveStockRef(officeId, consumableId),
+      this.getCostingMethod(),
+    ]);
+    const transactionRef = this.getTransactionRef(options.idempotencyKey);
+
+    return runTransaction(db, async (transaction) => {
+      const replay = await this.getReplay(
+        transaction,
+        transactionRef,
+        'adjustment',
+        consumableId,
+        options.idempotencyKey
+      );
+      if (replay) return replay;
+
+      const stock = await this.readQuantity(transaction, stockRef);
+      const lot = stock.lots.find(l => l.lot_number === lotNumber);
+      if (!lot) {
+        throw new Error(`Lot ${lotNumber} is not held in this office`);
+      }
+
+      const now = Timestamp.now();
+      const balance = stock.quantity - lot.quantity;
+      const costed = consumeCost(stock.cost, lot.quantity, method);
+
+      transaction.update(stockRef, {
+        ...this.toCostFields(costed.state),
+        lots: stock.lots.filter(l => l !== lot),
+        quantity: balance,
         updated_at: now,
       });
-    }
 
-    // Create adjustment transaction
-    const transactionRef = doc(this.getTransactionCollectionRef());
-    batch.set(transactionRef, {
-      tenant_id: this.tenantId,
-      office_id: officeId,
-      consumable_id: consumableId,
-      type: 'adjustment',
-      quantity: difference,
-      notes: `Adjusted from ${oldQuantity} to ${newQuantity}. Reason: ${reason}`,
-      created_at: now,
-      created_by: userId,
+      const transactionData: Omit<StockTransaction, 'id'> = {
+        tenant_id: this.tenantId!,
+        office_id: officeId,
+        consumable_id: consumableId,
+        type: 'adjustment',
+        quantity: -lot.quantity,
+        balance_after: balance,
+        unit_cost: costed.unit_cost,
+        total_cost: costed.total_cost,
+        reason_code: reasonCode,
+        lots: [
+          {
+            lot_number: lot.lot_number,
+            quantity: lot.quantity,
+            ...(lot.expiry_date && { expiry_date: lot.expiry_date }),
+          },
+        ],
+        notes: `Lot ${lot.lot_number} written off${notes ? `. ${notes}` : ''}`,
+        ...(options.referenceNumber && { reference_number: options.referenceNumber }),
+        ...(options.idempotencyKey && { idempotency_key: options.idempotencyKey }),
+        created_at: now,
+        created_by: userId,
+      };
+      transaction.set(transactionRef, transactionData);
+
+      return { id: transactionRef.id, ...transactionData };
     });
+  }
+
+  /**
+   * Get stock records holding lots, across all offices
+   */
+  async getLotStock(): Promise<OfficeStock[]> {
+    const snapshot = await getDocs(this.getStockCollectionRef());
+    return (snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })) as OfficeStock[]).filter(
+      stock => (stock.lots?.length ?? 0) > 0
+    );
+  }
+
+  /**
+   * Notify offices of lots expiring within 30 and 7 days and on the expiry
+   * date, going to the office manager or whoever received the lot.
+   *
+   * Like warranty alerts this runs when users open the app. Each lot records
+   * the thresholds it has alerted on and is re-checked in a transaction.
+   */
+  async generateLotExpiryAlerts(now: Date = new Date()): Promise<number> {
+    if (!this.tenantId) throw new Error('Tenant ID must be set');
+
+    const getDueAlert = (lot: StockLot) =>
+      lot.expiry_date
+        ? getDueWarrantyAlert(
+            // Lots that expired unseen still get their expiry-day alert
+            Math.max(getDaysUntil(lot.expiry_date, now), 0),
+            lot.alerts_sent,
+            LOT_EXPIRY_ALERT_DAYS
+          )
+        : null;
+
+    const candidates = (await this.getLotStock()).filter(stock =>
+      stock.lots!.some(lot => getDueAlert(lot) !== null)
+    );
+    if (candidates.length === 0) return 0;
+
+    const consumableService = new ConsumableService();
+    consumableService.setTenant(this.tenantId);
+    officeService.setTenant(this.tenantId);
+    notificationService.setTenant(this.tenantId);
+
+    const [consumables, offices] = await Promise.all([
+      consumableService.getAll(),
+      officeService.getAll(),
+    ]);
+    const consumableNames = new Map(consumables.map(c => [c.id, c.name]));
+    const managers = new Map(offices.map(o => [o.id, o.manager_id]));
 
-    await batch.commit();
+    let sent = 0;
+    for (const candidate of candidates) {
+      const stockRef = doc(this.getStockCollectionRef(), candidate.id);
+      sent += await runTransaction(db, async (transaction) => {
+        const snapshot = await transaction.get(stockRef);
+        if (!snapshot.exists()) return 0;
+
+        const stock = snapshot.data() as OfficeStock;
+        const name = consumableNames.get(stock.consumable_id) || 'Consumable';
+        const timestamp = Timestamp.fromDate(now);
+        let queued = 0;
+
+        const lots = (stock.lots ?? []).map(lot => {
+          const alert = getDueAlert(lot);
+          if (!alert) return lot;
+
+          const daysLeft = getDaysUntil(lot.expiry_date!, now);
+          notificationService.queue(
+            transaction,
+            {
+              user_id: managers.get(stock.office_id) || lot.received_by,
+              type: alert.threshold === 0 ? 'error' : 'warning',
+              title:
+                daysLeft <= 0
+                  ? `${name} lot ${lot.lot_number} has expired`
+                  : `${name} lot ${lot.lot_number} expires in ${daysLeft === 1 ? '1 day' : `${daysLeft} days`}`,
+              message:
+                `${lot.quantity} ${lot.quantity === 1 ? 'unit' : 'units'} ` +
+                `${daysLeft <= 0 ? 'expired' : 'expire'} on ${formatDate(lot.expiry_date!)}. ` +
+                (daysLeft <= 0 ? 'Write the lot off.' : 'Issue it first or plan to replace it.'),
+              action_url: '/consumables/lots',
+              action_label: 'View lots',
+            },
+            timestamp
+          );
+          queued++;
+          return { ...lot, alerts_sent: [...new Set([...(lot.alerts_sent || []), ...alert.covered])] };
+        });
+
+        if (queued > 0) transaction.update(stockRef, { lots });
+        return queued;
+      });
+    }
+
+    return sent;
   }
 
   /**
@@ -425,6 +1417,24 @@ class StockService {
     })) as StockTransaction[];
   }
 
+  /**
+   * Get issues out of an office's stock since a date, for usage planning
+   */
+  async getIssuesSince(officeId: string, since: Date): Promise<StockTransaction[]> {
+    const q = query(
+      this.getTransactionCollectionRef(),
+      where('office_id', '==', officeId),
+      where('type', '==', 'issue'),
+      where('created_at', '>=', Timestamp.fromDate(since))
+    );
+    
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(doc => ({
+      id: doc.id,
+      ...doc.data(),
+    })) as StockTransaction[];
+  }
+
   /**
    * Get transactions for a specific consumable
    */
@@ -441,6 +1451,52 @@ class StockService {
       ...doc.data(),
     })) as StockTransaction[];
   }
+
+  /**
+   * Value of stock on hand in every office as of a date, rebuilt from the
+   * transaction ledger and valued under the given costing method
+   */
+  async getValuation(asOf: Date, method: CostingMethod): Promise<StockValuationLine[]> {
+    if (!this.tenantId) throw new Error('Tenant ID must be set');
+
+    const consumableService = new ConsumableService();
+    consumableService.setTenant(this.tenantId);
+
+    const q = query(
+      this.getTransactionCollectionRef(),
+      where('created_at', '<=', Timestamp.fromDate(asOf)),
+      orderBy('created_at', 'asc')
+    );
+
+    const [snapshot, consumables] = await Promise.all([getDocs(q), consumableService.getAll()]);
+    const transactions = snapshot.docs.map(doc => ({
+      id: doc.id,
+      ...doc.data(),
+    })) as StockTransaction[];
+    const categories = new Map(consumables.map(c => [c.id, c.category_id]));
+
+    const positions = new Map(
+      transactions.map(t => [getStockDocId(t.office_id, t.consumable_id), t])
+    );
+
+    const lines: StockValuationLine[] = [];
+    for (const [key, state] of replayLedger(transactions)) {
+      if (state.quantity <= 0) continue;
+
+      const { office_id, consumable_id } = positions.get(key)!;
+      const value = getStockValue(state, method);
+      lines.push({
+        office_id,
+        consumable_id,
+        category_id: categories.get(consumable_id) || '',
+        quantity: state.quantity,
+        unit_cost: roundUnitCost(value / state.quantity),
+        value,
+      });
+    }
+
+    return lines;
+  }
 }
 
 // ==========================================
@@ -449,4 +1505,5 @@ class StockService {
 
 export const consumableService = new ConsumableService();
 export const consumableCategoryService = new ConsumableCategoryService();
+export const consumableKitService = new ConsumableKitService();
 export const stockService = new StockService();
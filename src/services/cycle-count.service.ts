@@ -0,0 +1,430 @@
+/* ============================================
+   TENAXIS - Cycle Count Service
+   Scheduled consumable counts with variance approval
+   ============================================ */
+
+import {
+  doc,
+  getDoc,
+  where,
+  orderBy,
+  writeBatch,
+  Timestamp,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { BaseService } from './base.service';
+import { stockService } from './consumable.service';
+import { notificationService } from './notification.service';
+import { officeService } from './organization.service';
+import { userService } from './user.service';
+import { COLLECTIONS, DEFAULT_CYCLE_COUNT_TOLERANCE } from '@/lib/constants';
+import { hasPermission, MODULES } from '@/lib/permissions';
+import { getCostState } from '@/lib/costing';
+import {
+  classifyAbc,
+  getLineVariance,
+  getNextCountDate,
+  getUsageValues,
+  isCountDue,
+} from '@/lib/cycle-counts';
+import { generateId, generateTicketNumber } from '@/lib/utils';
+import type {
+  AbcClass,
+  AuditFields,
+  CycleCount,
+  CycleCountLine,
+  CycleCountTolerance,
+  OfficeStock,
+  Tenant,
+} from '@/types';
+
+// Usage window the ABC classification is based on
+const USAGE_LOOKBACK_DAYS = 365;
+
+export interface CycleCountPlanItem {
+  stock: OfficeStock;
+  abc_class: AbcClass;
+  usage_value: number;
+  next_count_at: Date;
+  due: boolean;
+}
+
+// ==========================================
+// CYCLE COUNT SERVICE
+// ==========================================
+
+class CycleCountService extends BaseService<CycleCount> {
+  constructor() {
+    super(COLLECTIONS.CYCLE_COUNTS);
+  }
+
+  /**
+   * Get count sheets for an office, newest first
+   */
+  async getByOffice(officeId: string): Promise<CycleCount[]> {
+    return this.getAll([
+      where('office_id', '==', officeId),
+      orderBy('created_at', 'desc'),
+    ]);
+  }
+
+  /**
+   * Get the sheet being counted or awaiting approval for an office, if any
+   */
+  async getActiveForOffice(officeId: string): Promise<CycleCount | null> {
+    const counts = await this.getAll([
+      where('office_id', '==', officeId),
+      where('status', 'in', ['open', 'pending_approval']),
+    ]);
+    return counts[0] ?? null;
+  }
+
+  /**
+   * Get posted counts in a date range, most recent first
+   */
+  async getPostedBetween(from: Date, to: Date): Promise<CycleCount[]> {
+    return this.getAll([
+      where('status', '==', 'posted'),
+      where('posted_at', '>=', Timestamp.fromDate(from)),
+      where('posted_at', '<=', Timestamp.fromDate(to)),
+      orderBy('posted_at', 'desc'),
+    ]);
+  }
+
+  /**
+   * Variance tolerance configured for the tenant
+   */
+  async getTolerance(): Promise<CycleCountTolerance> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+
+    const snapshot = await getDoc(doc(db, COLLECTIONS.TENANTS, this.tenantId));
+    const settings = snapshot.exists() ? (snapshot.data() as Tenant).settings : undefined;
+    return settings?.cycle_count_tolerance ?? DEFAULT_CYCLE_COUNT_TOLERANCE;
+  }
+
+  /**
+   * Class every stocked item in an office by its usage value over the
+   * last year, with when each is next due for counting
+   */
+  async getPlan(officeId: string, now: Date = new Date()): Promise<CycleCountPlanItem[]> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+
+    stockService.setTenant(this.tenantId);
+    const since = new Date(now.getTime() - USAGE_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    const [stock, issues] = await Promise.all([
+      stockService.getOfficeStock(officeId),
+      stockService.getIssuesSince(officeId, since),
+    ]);
+
+    const usageValues = getUsageValues(
+      issues,
+      new Map(stock.map(s => [s.consumable_id, getCostState(s).average_cost]))
+    );
+    const classes = classifyAbc(
+      stock.map(s => s.consumable_id),
+      usageValues
+    );
+
+    return stock.map(s => {
+      const abcClass = classes.get(s.consumable_id) ?? 'C';
+      return {
+        stock: s,
+        abc_class: abcClass,
+        usage_value: usageValues.get(s.consumable_id) ?? 0,
+        next_count_at: getNextCountDate(s.last_counted_at, abcClass, now),
+        due: isCountDue(s.last_counted_at, abcClass, now),
+      };
+    });
+  }
+
+  /**
+   * Generate a count sheet for an office from the items in the given
+   * classes, by default only those due for counting. An office has one
+   * active sheet at a time so the same stock is never counted twice.
+   */
+  async createSheet(
+    officeId: string,
+    classes: AbcClass[],
+    userId: string,
+    options: { dueOnly?: boolean; notes?: string } = {}
+  ): Promise<CycleCount> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+    if (classes.length === 0) {
+      throw new Error('Select at least one class to count');
+    }
+
+    const active = await this.getActiveForOffice(officeId);
+    if (active) {
+      throw new Error(`Count ${active.count_number} is still open for this office`);
+    }
+
+    const dueOnly = options.dueOnly ?? true;
+    const items = (await this.getPlan(officeId)).filter(
+      item => classes.includes(item.abc_class) && (!dueOnly || item.due)
+    );
+    if (items.length === 0) {
+      throw new Error(
+        dueOnly ? 'Nothing in the selected classes is due for counting' : 'No stock to count'
+      );
+    }
+
+    const countData: Omit<CycleCount, 'id' | keyof AuditFields> = {
+      tenant_id: this.tenantId,
+      office_id: officeId,
+      count_number: generateTicketNumber('CC'),
+      status: 'open',
+      classes,
+      lines: items.map(item => ({
+        id: generateId(),
+        consumable_id: item.stock.consumable_id,
+        abc_class: item.abc_class,
+      })),
+      ...(options.notes?.trim() && { notes: options.notes.trim() }),
+    };
+
+    return this.create(countData as Omit<CycleCount, 'id'>, userId);
+  }
+
+  /**
+   * Record the counted quantities. Each line's variance is worked out
+   * against the stock record now; if every variance is within tolerance
+   * the count is posted straight away, otherwise it waits for approval.
+   */
+  async submitCounts(
+    countId: string,
+    counts: Record<string, number>,
+    userId: string
+  ): Promise<CycleCount> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+
+    const count = await this.getById(countId);
+    if (!count || count.status !== 'open') {
+      throw new Error('This count is not open for counting');
+    }
+    for (const line of count.lines) {
+      const counted = counts[line.id];
+      if (counted === undefined || !Number.isInteger(counted) || counted < 0) {
+        throw new Error('Enter a whole, non-negative count for every item');
+      }
+    }
+
+    stockService.setTenant(this.tenantId);
+    const [stock, tolerance] = await Promise.all([
+      stockService.getOfficeStock(count.office_id),
+      this.getTolerance(),
+    ]);
+    const stockMap = new Map(stock.map(s => [s.consumable_id, getCostState(s)]));
+
+    const now = Timestamp.now();
+    const lines = count.lines.map(line => {
+      const cost = stockMap.get(line.consumable_id) ?? getCostState(null);
+      return {
+        ...line,
+        counted_quantity: counts[line.id]!,
+        ...getLineVariance(counts[line.id]!, cost.quantity, cost.average_cost, tolerance),
+      };
+    });
+
+    const counted: CycleCount = {
+      ...count,
+      lines,
+      counted_at: now,
+      counted_by: userId,
+    };
+
+    if (!lines.some(line => line.requires_approval)) {
+      return this.post(counted, userId);
+    }
+
+    const batch = writeBatch(db);
+    batch.update(this.getDocRef(countId), {
+      status: 'pending_approval',
+      lines,
+      counted_at: now,
+      counted_by: userId,
+      updated_at: now,
+      updated_by: userId,
+    });
+
+    officeService.setTenant(this.tenantId);
+    notificationService.setTenant(this.tenantId);
+    const office = await officeService.getById(count.office_id);
+    if (office?.manager_id && office.manager_id !== userId) {
+      notificationService.queue(
+        batch,
+        {
+          user_id: office.manager_id,
+          type: 'warning',
+          title: `Cycle count ${count.count_number} needs approval`,
+          message: `Variances on ${lines.filter(line => line.requires_approval).length} item(s) at ${office.name} are outside tolerance.`,
+          action_url: `/consumables/counts/${countId}`,
+          action_label: 'Review count',
+        },
+        now
+      );
+    }
+
+    await batch.commit();
+    return { ...counted, status: 'pending_approval' };
+  }
+
+  /**
+   * Approve a count awaiting approval and post its variances. Nobody
+   * approves a count they made themselves.
+   */
+  async approve(countId: string, userId: string, notes?: string): Promise<CycleCount> {
+    const count = await this.getPendingForDecision(countId, userId);
+    const now = Timestamp.now();
+
+    return this.post(
+      {
+        ...count,
+        decided_at: now,
+        decided_by: userId,
+        ...(notes?.trim() && { decision_notes: notes.trim() }),
+      },
+      userId
+    );
+  }
+
+  /**
+   * Reject a count awaiting approval. Nothing is posted; the items stay
+   * due and can be counted again on a new sheet.
+   */
+  async reject(countId: string, userId: string, notes: string): Promise<void> {
+    if (!notes.trim()) {
+      throw new Error('Give a reason for rejecting the count');
+    }
+
+    const count = await this.getPendingForDecision(countId, userId);
+    const now = Timestamp.now();
+
+    notificationService.setTenant(this.tenantId!);
+    const batch = writeBatch(db);
+    batch.update(this.getDocRef(countId), {
+      status: 'rejected',
+      decided_at: now,
+      decided_by: userId,
+      decision_notes: notes.trim(),
+      updated_at: now,
+      updated_by: userId,
+    });
+
+    if (count.counted_by) {
+      notificationService.queue(
+        batch,
+        {
+          user_id: count.counted_by,
+          type: 'warning',
+          title: `Cycle count ${count.count_number} rejected`,
+          message: `Your count was rejected and needs recounting: ${notes.trim()}`,
+          action_url: `/consumables/counts/${countId}`,
+          action_label: 'View count',
+        },
+        now
+      );
+    }
+
+    await batch.commit();
+  }
+
+  /**
+   * Cancel a sheet that has not been submitted
+   */
+  async cancel(countId: string, userId: string): Promise<void> {
+    const count = await this.getById(countId);
+    if (!count || count.status !== 'open') {
+      throw new Error('Only counts still being counted can be cancelled');
+    }
+    await this.update(countId, { status: 'cancelled' }, userId);
+  }
+
+  /**
+   * Load a count awaiting approval and check the user may decide on it
+   */
+  private async getPendingForDecision(countId: string, userId: string): Promise<CycleCount> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+
+    userService.setTenant(this.tenantId);
+    const approver = await userService.getById(userId);
+    if (!approver || !hasPermission(approver.role, MODULES.CONSUMABLES, 'approve')) {
+      throw new Error('You are not allowed to approve cycle counts');
+    }
+
+    const count = await this.getById(countId);
+    if (!count || count.status !== 'pending_approval') {
+      throw new Error('This count is not awaiting approval');
+    }
+
+    // Approvers decide only for the offices they work in or manage
+    officeService.setTenant(this.tenantId);
+    const office = await officeService.getById(count.office_id);
+    const coversOffice =
+      userService.hasOfficeAccess(approver, count.office_id) ||
+      approver.primary_office_id === count.office_id ||
+      office?.manager_id === userId;
+    if (!coversOffice) {
+      throw new Error('You are not allowed to approve cycle counts for this office');
+    }
+    if (count.counted_by === userId) {
+      throw new Error('You cannot approve your own count');
+    }
+    return count;
+  }
+
+  /**
+   * Post each line's variance as a count correction and mark every counted
+   * item as counted. Adjustments are keyed on the line, so posting again
+   * after a failure part-way through never adjusts an item twice.
+   */
+  private async post(count: CycleCount, userId: string): Promise<CycleCount> {
+    stockService.setTenant(this.tenantId!);
+
+    const lines: CycleCountLine[] = [];
+    for (const line of count.lines) {
+      const adjustment = await stockService.postCount(
+        count.office_id,
+        line.consumable_id,
+        line.variance!,
+        count.counted_at!,
+        userId,
+        `Cycle count ${count.count_number}`,
+        {
+          idempotencyKey: `${count.id}-${line.id}`,
+          referenceNumber: count.count_number,
+          reasonCode: 'count_correction',
+        }
+      );
+      lines.push(adjustment ? { ...line, stock_transaction_id: adjustment.id } : line);
+    }
+
+    const changes: Partial<CycleCount> = {
+      status: 'posted',
+      lines,
+      counted_at: count.counted_at,
+      counted_by: count.counted_by,
+      ...(count.decided_at && { decided_at: count.decided_at, decided_by: count.decided_by }),
+      ...(count.decision_notes && { decision_notes: count.decision_notes }),
+      posted_at: Timestamp.now(),
+    };
+    await this.update(count.id, changes, userId);
+
+    return { ...count, ...changes };
+  }
+}
+
+// ==========================================
+// SINGLETON EXPORT
+// ==========================================
+
+export const cycleCountService = new CycleCountService();
@@ -7,7 +7,24 @@
 export { BaseService, buildQueryConstraints } from './base.service';
 
 // Asset services
-export { assetService, assetCategoryService } from './asset.service';
+export {
+  assetService,
+  assetCategoryService,
+  customFieldService,
+  depreciationSnapshotService,
+} from './asset.service';
+
+// Asset checkout service
+export { assetCheckoutService } from './checkout.service';
+
+// Asset reservation service
+export { assetReservationService } from './reservation.service';
+
+// Asset attachment service
+export { assetAttachmentService } from './attachment.service';
+
+// Inventory audit service
+export { inventoryAuditService } from './inventory-audit.service';
 
 // Audit service
 export { auditLogService } from './audit.service';
@@ -25,13 +42,43 @@ export {
 export { userService } from './user.service';
 
 // Consumable services
-export { consumableService, stockService } from './consumable.service';
+export { consumableService, consumableKitService, stockService } from './consumable.service';
 
 // Maintenance service
 export { maintenanceService } from './maintenance.service';
 
+// Maintenance plan service
+export { maintenancePlanService } from './maintenance-plan.service';
+
+// SLA service
+export { slaPolicyService } from './sla.service';
+
+// Checklist template service
+export { checklistTemplateService } from './checklist-template.service';
+
 // Project service
 export { projectService } from './project.service';
 
 // Vendor service
 export { vendorService } from './vendor.service';
+
+// Warranty service
+export { warrantyService } from './warranty.service';
+
+// Notification service
+export { notificationService } from './notification.service';
+
+// Scheduled job service
+export { scheduledJobService } from './scheduled-job.service';
+
+// Purchasing services
+export { purchaseRequisitionService, purchaseOrderService } from './purchasing.service';
+
+// Reorder service
+export { reorderService } from './reorder.service';
+
+// Stock request service
+export { stockRequestService } from './stock-request.service';
+
+// Cycle count service
+export { cycleCountService } from './cycle-count.service';
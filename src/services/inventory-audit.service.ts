@@ -0,0 +1,386 @@
+/* ============================================
+   TENAXIS - Inventory Audit Service
+   Physical stock-take sessions for office assets
+   ============================================ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  where,
+  orderBy,
+  runTransaction,
+  Timestamp,
+  writeBatch,
+  type WriteBatch,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { BaseService } from './base.service';
+import { assetService } from './asset.service';
+import { COLLECTIONS } from '@/lib/constants';
+import { parseScannedTag } from '@/lib/labels';
+import { canTransition } from '@/lib/asset-lifecycle';
+import { generateTicketNumber } from '@/lib/utils';
+import type {
+  AuditFields,
+  InventoryAudit,
+  InventoryAuditItem,
+  InventoryAuditReport,
+  InventoryAuditSummary,
+} from '@/types';
+
+// Firestore allows 500 writes per batch
+const BATCH_LIMIT = 450;
+
+type BatchWrite = (batch: WriteBatch) => void;
+
+// ==========================================
+// INVENTORY AUDIT SERVICE
+// ==========================================
+
+class InventoryAuditService extends BaseService<InventoryAudit> {
+  constructor() {
+    super(COLLECTIONS.INVENTORY_AUDITS);
+  }
+
+  private getItemsRef(auditId: string) {
+    return collection(this.getDocRef(auditId), COLLECTIONS.INVENTORY_AUDIT_ITEMS);
+  }
+
+  /**
+   * Commit writes in chunks that stay within the batch limit. Writes
+   * grouped in an array always land in the same chunk.
+   */
+  private async commitInChunks(writes: Array<BatchWrite | BatchWrite[]>): Promise<void> {
+    let batch = writeBatch(db);
+    let size = 0;
+
+    for (const entry of writes) {
+      const group = Array.isArray(entry) ? entry : [entry];
+      if (size > 0 && size + group.length > BATCH_LIMIT) {
+        await batch.commit();
+        batch = writeBatch(db);
+        size = 0;
+      }
+      group.forEach(write => write(batch));
+      size += group.length;
+    }
+
+    if (size > 0) {
+      await batch.commit();
+    }
+  }
+
+  /**
+   * Get audit sessions for an office
+   */
+  async getByOffice(officeId: string): Promise<InventoryAudit[]> {
+    return this.getAll([
+      where('office_id', '==', officeId),
+      orderBy('started_at', 'desc'),
+    ]);
+  }
+
+  /**
+   * Get the in-progress session for an office, if any
+   */
+  async getOpenForOffice(officeId: string): Promise<InventoryAudit | null> {
+    const audits = await this.getAll([
+      where('office_id', '==', officeId),
+      where('status', '==', 'in_progress'),
+    ]);
+    return audits[0] || null;
+  }
+
+  /**
+   * Get all items in a session
+   */
+  async getItems(auditId: string): Promise<InventoryAuditItem[]> {
+    const snapshot = await getDocs(this.getItemsRef(auditId));
+    return snapshot.docs
+      .map(doc => ({ id: doc.id, ...doc.data() }) as InventoryAuditItem)
+      .sort((a, b) => a.asset_tag.localeCompare(b.asset_tag));
+  }
+
+  /**
+   * Start a session, snapshotting the assets Firestore expects in the office
+   */
+  async startSession(
+    officeId: string,
+    organizationId: string,
+    userId: string,
+    name?: string
+  ): Promise<InventoryAudit> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+
+    const open = await this.getOpenForOffice(officeId);
+    if (open) {
+      throw new Error(`Audit ${open.audit_number} is already in progress for this office`);
+    }
+
+    assetService.setTenant(this.tenantId);
+    const expectedAssets = (await assetService.getByOffice(officeId)).filter(
+      asset => asset.status !== 'disposed' && asset.status !== 'lost'
+    );
+
+    const auditData: Omit<InventoryAudit, 'id' | keyof AuditFields> = {
+      tenant_id: this.tenantId,
+      organization_id: organizationId,
+      office_id: officeId,
+      audit_number: generateTicketNumber('AUD'),
+      status: 'in_progress',
+      started_at: Timestamp.now(),
+    };
+    if (name) {
+      auditData.name = name;
+    }
+
+    const audit = await this.create(auditData as Omit<InventoryAudit, 'id'>, userId);
+
+    const itemsRef = this.getItemsRef(audit.id);
+    await this.commitInChunks(
+      expectedAssets.map(asset => (batch: WriteBatch) => {
+        const item: Omit<InventoryAuditItem, 'id'> = {
+          audit_id: audit.id,
+          asset_id: asset.id,
+          asset_tag: asset.asset_tag,
+          name: asset.name,
+          expected: true,
+          result: 'pending',
+        };
+        batch.set(doc(itemsRef, asset.asset_tag), item);
+      })
+    );
+
+    return audit;
+  }
+
+  /**
+   * Record a scanned tag. Expected assets are marked found; anything else
+   * is recorded as unexpected (with its registered office when known).
+   */
+  async scanTag(
+    auditId: string,
+    scannedValue: string,
+    userId: string
+  ): Promise<InventoryAuditItem> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+
+    const audit = await this.getById(auditId);
+    if (!audit || audit.status !== 'in_progress') {
+      throw new Error('Audit session is not in progress');
+    }
+
+    const tag = parseScannedTag(scannedValue);
+    if (!tag) {
+      throw new Error('Scanned value is empty');
+    }
+
+    const itemRef = doc(this.getItemsRef(auditId), tag);
+    const itemSnap = await getDoc(itemRef);
+    const now = Timestamp.now();
+
+    if (itemSnap.exists()) {
+      const item = { id: itemSnap.id, ...itemSnap.data() } as InventoryAuditItem;
+      if (item.result === 'found' || item.result === 'unexpected') {
+        return item;
+      }
+      await updateDoc(itemRef, { result: 'found', scanned_at: now, scanned_by: userId });
+      return { ...item, result: 'found', scanned_at: now, scanned_by: userId };
+    }
+
+    assetService.setTenant(this.tenantId);
+    const asset = await assetService.getByTag(tag);
+
+    const item: Omit<InventoryAuditItem, 'id'> = {
+      audit_id: auditId,
+      asset_tag: tag,
+      expected: false,
+      result: 'unexpected',
+      scanned_at: now,
+      scanned_by: userId,
+      ...(asset
+        ? { asset_id: asset.id, name: asset.name, registered_office_id: asset.office_id }
+        : { notes: 'Tag not registered' }),
+    };
+    await setDoc(itemRef, item);
+
+    return { id: tag, ...item };
+  }
+
+  /**
+   * Manually set the result of an expected item (e.g. mark missing, or
+   * found when the label is unreadable)
+   */
+  async markItem(
+    auditId: string,
+    assetTag: string,
+    result: 'found' | 'missing' | 'pending',
+    userId: string,
+    notes?: string
+  ): Promise<void> {
+    const audit = await this.getById(auditId);
+    if (!audit || audit.status !== 'in_progress') {
+      throw new Error('Audit session is not in progress');
+    }
+
+    await updateDoc(doc(this.getItemsRef(auditId), assetTag), {
+      result,
+      scanned_at: Timestamp.now(),
+      scanned_by: userId,
+      ...(notes ? { notes } : {}),
+    });
+  }
+
+  /**
+   * Close a session. Items still pending become missing; optionally the
+   * missing assets are marked lost with a status_changed event each.
+   */
+  async close(
+    auditId: string,
+    userId: string,
+    options: { markMissingAsLost?: boolean } = {}
+  ): Promise<InventoryAuditReport> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+
+    const audit = await this.getById(auditId);
+    if (!audit || audit.status !== 'in_progress') {
+      throw new Error('Audit session is not in progress');
+    }
+
+    const items = await this.getItems(auditId);
+    const now = Timestamp.now();
+    const itemsRef = this.getItemsRef(auditId);
+    const writes: Array<BatchWrite | BatchWrite[]> = [];
+
+    for (const item of items) {
+      if (item.result !== 'pending') continue;
+      item.result = 'missing';
+      writes.push(batch => batch.update(doc(itemsRef, item.id), { result: 'missing' }));
+    }
+
+    const missing = items.filter(item => item.result === 'missing');
+    const unexpected = items.filter(item => item.result === 'unexpected');
+    const summary: InventoryAuditSummary = {
+      expected: items.filter(item => item.expected).length,
+      found: items.filter(item => item.result === 'found').length,
+      missing: missing.length,
+      unexpected: unexpected.length,
+    };
+
+    const markedLost: string[] = [];
+    if (options.markMissingAsLost) {
+      assetService.setTenant(this.tenantId);
+
+      for (const item of missing) {
+        if (!item.asset_id) continue;
+        const asset = await assetService.getById(item.asset_id);
+        if (!asset || asset.status === 'lost' || !canTransition(asset.status, 'lost')) continue;
+
+        markedLost.push(asset.id);
+        const assetRef = doc(db, 'tenants', this.tenantId, COLLECTIONS.ASSETS, asset.id);
+
+        // The status and its event must not end up in different batches
+        writes.push([
+          batch =>
+            batch.update(assetRef, {
+              status: 'lost',
+              updated_at: now,
+              updated_by: userId,
+            }),
+          batch =>
+            assetService.queueStatusChange(batch, asset, 'lost', userId, now, {
+              description: `Marked lost: not found in inventory audit ${audit.audit_number}`,
+              metadata: { audit_id: auditId },
+            }),
+        ]);
+      }
+    }
+
+    writes.push(batch =>
+      batch.update(this.getDocRef(auditId), {
+        status: 'closed',
+        closed_at: now,
+        closed_by: userId,
+        summary,
+        marked_lost: markedLost,
+        updated_at: now,
+        updated_by: userId,
+      })
+    );
+
+    await this.commitInChunks(writes);
+
+    return {
+      audit: {
+        ...audit,
+        status: 'closed',
+        closed_at: now,
+        closed_by: userId,
+        summary,
+        marked_lost: markedLost,
+      },
+      summary,
+      missing,
+      unexpected,
+    };
+  }
+
+  /**
+   * Cancel a session without touching any assets
+   */
+  async cancel(auditId: string, userId: string): Promise<void> {
+    const auditRef = this.getDocRef(auditId);
+
+    await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(auditRef);
+      if (!snapshot.exists() || snapshot.data().status !== 'in_progress') {
+        throw new Error('Audit session is not in progress');
+      }
+      transaction.update(auditRef, this.addAuditFields({ status: 'cancelled' }, userId, false));
+    });
+  }
+
+  /**
+   * Build the discrepancy report for a session
+   */
+  async getDiscrepancyReport(auditId: string): Promise<InventoryAuditReport> {
+    const audit = await this.getById(auditId);
+    if (!audit) {
+      throw new Error('Audit not found');
+    }
+
+    const items = await this.getItems(auditId);
+    const missing = items.filter(
+      item => item.result === 'missing' || (audit.status !== 'in_progress' && item.result === 'pending')
+    );
+    const unexpected = items.filter(item => item.result === 'unexpected');
+
+    return {
+      audit,
+      summary: audit.summary || {
+        expected: items.filter(item => item.expected).length,
+        found: items.filter(item => item.result === 'found').length,
+        missing: missing.length,
+        unexpected: unexpected.length,
+      },
+      missing,
+      unexpected,
+    };
+  }
+}
+
+// ==========================================
+// SINGLETON EXPORT
+// ==========================================
+
+export const inventoryAuditService = new InventoryAuditService();
@@ -0,0 +1,349 @@
+/* ============================================
+   TENAXIS - Maintenance Plan Service
+   Preventive maintenance plans and the tickets they generate
+   ============================================ */
+
+import { doc, where, orderBy, runTransaction, updateDoc, Timestamp } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { BaseService } from './base.service';
+import { assetService } from './asset.service';
+import { checklistTemplateService } from './checklist-template.service';
+import { maintenanceService, type SlaTerms } from './maintenance.service';
+import { notificationService } from './notification.service';
+import { COLLECTIONS } from '@/lib/constants';
+import { buildChecklist, findChecklistTemplates } from '@/lib/checklists';
+import {
+  assertValidSchedule,
+  getNextDueDate,
+  getDueDateKey,
+  getNextUsageThreshold,
+  getPlanTicketId,
+  isWithinLeadTime,
+} from '@/lib/preventive-maintenance';
+import { toMillis } from '@/lib/reservations';
+import { formatDate, generateId, generateTicketNumber } from '@/lib/utils';
+import type {
+  Asset,
+  AuditFields,
+  MaintenanceChecklistItem,
+  MaintenancePlan,
+  MaintenancePlanAssetState,
+  MaintenancePlanStatus,
+  MaintenanceTicket,
+} from '@/types';
+
+export type MaintenancePlanInput = Omit<
+  MaintenancePlan,
+  'id' | 'tenant_id' | 'status' | 'asset_states' | keyof AuditFields
+>;
+
+// Assets in these states are not serviced
+const UNSERVICED_STATUSES: Asset['status'][] = ['disposed', 'lost'];
+
+// ==========================================
+// MAINTENANCE PLAN SERVICE
+// ==========================================
+
+class MaintenancePlanService extends BaseService<MaintenancePlan> {
+  constructor() {
+    super(COLLECTIONS.MAINTENANCE_PLANS);
+  }
+
+  /**
+   * Get active plans
+   */
+  async getActive(): Promise<MaintenancePlan[]> {
+    return this.getAll([
+      where('status', '==', 'active'),
+      orderBy('name', 'asc'),
+    ]);
+  }
+
+  /**
+   * Create a plan for one asset or every asset in a category
+   */
+  async createPlan(data: MaintenancePlanInput, userId: string): Promise<MaintenancePlan> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+    this.assertValidPlan(data);
+
+    const planData: Omit<MaintenancePlan, 'id' | keyof AuditFields> = {
+      ...data,
+      tenant_id: this.tenantId,
+      name: data.name.trim(),
+      checklist: data.checklist.map(item => item.trim()).filter(Boolean),
+      status: 'active',
+    };
+
+    return this.create(planData as Omit<MaintenancePlan, 'id'>, userId);
+  }
+
+  /**
+   * Change a plan's target, schedule or ticket settings. Where each asset
+   * is up to is kept, so tickets already raised are not raised again.
+   */
+  async updatePlan(id: string, data: MaintenancePlanInput, userId: string): Promise<void> {
+    this.assertValidPlan(data);
+
+    const updates = this.addAuditFields(
+      {
+        ...data,
+        name: data.name.trim(),
+        checklist: data.checklist.map(item => item.trim()).filter(Boolean),
+      },
+      userId,
+      false
+    );
+    await updateDoc(this.getDocRef(id), {
+      ...updates,
+      // A plan moved between an asset and a category drops the old target
+      ...(data.asset_id ? { category_id: null } : { asset_id: null }),
+    });
+  }
+
+  /**
+   * Pause or resume a plan. Paused plans raise no tickets.
+   */
+  async setStatus(id: string, status: MaintenancePlanStatus, userId: string): Promise<void> {
+    await this.update(id, { status }, userId);
+  }
+
+  /**
+   * Raise the preventive tickets that have come due on every active plan:
+   * day and calendar schedules once within their lead time, usage plans
+   * once an asset's reading passes the next threshold. An asset with an
+   * open ticket from a plan gets no new one from it until that is closed.
+   *
+   * There is no backend scheduler, so this runs when users open the app.
+   * Ticket IDs are derived from the plan, asset and due point and created
+   * in a transaction, so overlapping runs never raise a ticket twice.
+   * Tickets from plans without a technician go through auto-assignment.
+   * Tickets under an SLA policy get its deadlines like any other ticket.
+   */
+  async generateTickets(userId: string, now: Date = new Date()): Promise<number> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+
+    assetService.setTenant(this.tenantId);
+    maintenanceService.setTenant(this.tenantId);
+    notificationService.setTenant(this.tenantId);
+    checklistTemplateService.setTenant(this.tenantId);
+
+    const [plans, templates, openTickets] = await Promise.all([
+      this.getActive(),
+      checklistTemplateService.getActive(),
+      maintenanceService.getAll([
+        where('type', '==', 'preventive'),
+        where('status', 'in', ['open', 'in_progress', 'waiting_parts']),
+      ]),
+    ]);
+    const open = new Set(
+      openTickets
+        .filter(t => t.maintenance_plan_id)
+        .map(t => `${t.maintenance_plan_id}|${t.asset_id}`)
+    );
+
+    const categoryAssets = new Map<string, Asset[]>();
+    const slaTerms = new Map<string, Promise<SlaTerms | null>>();
+    let raised = 0;
+
+    for (const plan of plans) {
+      let assets: Asset[];
+      if (plan.asset_id) {
+        const asset = await assetService.getById(plan.asset_id);
+        assets = asset ? [asset] : [];
+      } else {
+        if (!categoryAssets.has(plan.category_id!)) {
+          categoryAssets.set(plan.category_id!, await assetService.getByCategory(plan.category_id!));
+        }
+        assets = categoryAssets.get(plan.category_id!)!;
+      }
+
+      for (const asset of assets) {
+        if (UNSERVICED_STATUSES.includes(asset.status)) continue;
+        if (open.has(`${plan.id}|${asset.id}`)) continue;
+
+        const due = this.getDue(plan, asset, now);
+        if (!due) continue;
+        const templateItems = buildChecklist(
+          findChecklistTemplates(templates, 'preventive', asset.category_id)
+        );
+        const slaKey = `${plan.priority}|${asset.office_id}`;
+        if (!slaTerms.has(slaKey)) {
+          slaTerms.set(
+            slaKey,
+            maintenanceService.getSlaTerms({
+              priority: plan.priority,
+              type: 'preventive',
+              office_id: asset.office_id,
+            })
+          );
+        }
+        const raisedTicket = await this.raiseTicket(plan, asset, due, {
+          templateItems,
+          sla: await slaTerms.get(slaKey)!,
+          userId,
+        });
+        if (raisedTicket) {
+          raised++;
+          if (!plan.assigned_to) {
+            const ticketId = getPlanTicketId(plan.id, asset.id, due.key);
+            await maintenanceService.assignNewTicket(ticketId, userId);
+          }
+        }
+      }
+    }
+
+    return raised;
+  }
+
+  /**
+   * The ticket a plan should raise for an asset now, if any: its due date,
+   * the key it is raised under and where the asset's schedule moves to
+   */
+  private getDue(
+    plan: MaintenancePlan,
+    asset: Asset,
+    now: Date
+  ): { date: Date; key: string; state: MaintenancePlanAssetState } | null {
+    const state = plan.asset_states?.[asset.id];
+
+    if (plan.trigger === 'usage_hours') {
+      const reading = asset.usage_hours;
+      if (reading === undefined || reading < getNextUsageThreshold(plan, state)) return null;
+      return {
+        date: new Date(now.getFullYear(), now.getMonth(), now.getDate() + plan.lead_days),
+        key: `h${reading}`,
+        state: { last_usage_hours: reading },
+      };
+    }
+
+    const date = getNextDueDate(plan, state, now);
+    if (!isWithinLeadTime(date, plan.lead_days, now)) return null;
+    return {
+      date,
+      key: getDueDateKey(date),
+      state: { last_due_at: Timestamp.fromDate(date) },
+    };
+  }
+
+  /**
+   * Create one plan ticket and move the asset's schedule on, unless another
+   * run got there first or the plan was paused in the meantime. Checklist
+   * template items follow the plan's own steps. SLA clocks start when the
+   * ticket is raised, but a ticket raised within its lead time is never
+   * due for resolution before the plan's due date.
+   */
+  private async raiseTicket(
+    plan: MaintenancePlan,
+    asset: Asset,
+    due: { date: Date; key: string; state: MaintenancePlanAssetState },
+    options: {
+      templateItems: MaintenanceChecklistItem[];
+      sla: SlaTerms | null;
+      userId: string;
+    }
+  ): Promise<boolean> {
+    const { date: dueDate, key: dueKey, state } = due;
+    const { templateItems, userId } = options;
+    const ticketId = getPlanTicketId(plan.id, asset.id, dueKey);
+    const ticketRef = doc(db, 'tenants', this.tenantId!, COLLECTIONS.MAINTENANCE, ticketId);
+    const planRef = this.getDocRef(plan.id);
+
+    return runTransaction(db, async (transaction) => {
+      const ticketSnap = await transaction.get(ticketRef);
+      const planSnap = await transaction.get(planRef);
+      if (ticketSnap.exists() || !planSnap.exists()) return false;
+
+      const current = { id: planSnap.id, ...planSnap.data() } as MaintenancePlan;
+      if (current.status !== 'active') return false;
+
+      // Another run may have moved this asset's schedule on already
+      const previous = current.asset_states?.[asset.id];
+      const alreadyRaised = state.last_due_at
+        ? !!previous?.last_due_at && toMillis(previous.last_due_at) >= toMillis(state.last_due_at)
+        : (previous?.last_usage_hours ?? -1) >= state.last_usage_hours!;
+      if (alreadyRaised) return false;
+
+      const now = Timestamp.now();
+      const sla = maintenanceService.getSlaFields(options.sla, now);
+      const resolutionDue =
+        sla.due_date && toMillis(sla.due_date) > dueDate.getTime()
+          ? sla.due_date
+          : Timestamp.fromDate(dueDate);
+
+      const ticketData: Omit<MaintenanceTicket, 'id'> = {
+        ...sla,
+        tenant_id: this.tenantId!,
+        organization_id: asset.organization_id,
+        office_id: asset.office_id,
+        ticket_number: generateTicketNumber('PM'),
+        title: `${current.name}: ${asset.name}`,
+        description:
+          current.description ||
+          (state.last_usage_hours !== undefined
+            ? `Preventive maintenance due at ${state.last_usage_hours} usage hours`
+            : `Preventive maintenance due ${formatDate(dueDate)}`),
+        type: 'preventive',
+        priority: current.priority,
+        status: 'open',
+        asset_id: asset.id,
+        ...(current.assigned_to && { assigned_to: current.assigned_to, assigned_at: now }),
+        reported_at: now,
+        reported_by: userId,
+        due_date: resolutionDue,
+        maintenance_plan_id: current.id,
+        ...(current.checklist.length + templateItems.length > 0 && {
+          checklist: [
+            ...current.checklist.map(label => ({ id: generateId(), label, done: false })),
+            ...templateItems,
+          ],
+        }),
+        created_at: now,
+        created_by: userId,
+        updated_at: now,
+        updated_by: userId,
+      };
+      transaction.set(ticketRef, ticketData);
+
+      transaction.update(planRef, {
+        [`asset_states.${asset.id}`]: { ...previous, ...state, last_ticket_id: ticketId },
+      });
+
+      if (current.assigned_to) {
+        notificationService.queue(
+          transaction,
+          {
+            user_id: current.assigned_to,
+            type: 'info',
+            title: `Preventive maintenance due: ${asset.name}`,
+            message: `${current.name} is due on ${formatDate(dueDate)} for ${asset.name} (${asset.asset_tag}).`,
+            action_url: `/maintenance/${ticketId}`,
+            action_label: 'View ticket',
+          },
+          now
+        );
+      }
+
+      return true;
+    });
+  }
+
+  private assertValidPlan(data: MaintenancePlanInput): void {
+    if (!data.name.trim()) {
+      throw new Error('Give the plan a name');
+    }
+    if (!data.asset_id === !data.category_id) {
+      throw new Error('Choose either an asset or an asset category for the plan');
+    }
+    assertValidSchedule(data);
+  }
+}
+
+// ==========================================
+// SINGLETON EXPORT
+// ==========================================
+
+export const maintenancePlanService = new MaintenancePlanService();
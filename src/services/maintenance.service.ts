@@ -5,24 +5,90 @@
 
 import {
   collection,
+  doc,
   getDocs,
   addDoc,
   query,
+  runTransaction,
+  updateDoc,
   where,
+  writeBatch,
   orderBy,
   Timestamp,
 } from 'firebase/firestore';
-import { db } from '@/lib/firebase';
+import { ref as storageRef, uploadBytes, getDownloadURL, deleteObject } from 'firebase/storage';
+import { FirebaseError } from 'firebase/app';
+import { db, storage } from '@/lib/firebase';
 import { BaseService } from './base.service';
-import { COLLECTIONS } from '@/lib/constants';
-import { generateTicketNumber } from '@/lib/utils';
+import { assetService } from './asset.service';
+import { checklistTemplateService } from './checklist-template.service';
+import { notificationService } from './notification.service';
+import { officeService, tenantService } from './organization.service';
+import { userService } from './user.service';
+import { consumableService, stockService } from './consumable.service';
+import { slaPolicyService } from './sla.service';
+import {
+  COLLECTIONS,
+  DEFAULT_ASSIGNMENT_SETTINGS,
+  DEFAULT_BUSINESS_HOURS,
+} from '@/lib/constants';
+import { chooseTechnician, normalizeSkills } from '@/lib/assignment';
+import { getChecklistPhotoFolder, sanitizeFileName, validateAttachment } from '@/lib/attachments';
+import {
+  buildChecklist,
+  fillChecklistItem,
+  findChecklistTemplates,
+  getCorrectiveItems,
+  getUnfilledItems,
+} from '@/lib/checklists';
+import { StockShortageError, type KitShortage } from '@/lib/kits';
+import {
+  applyIssuedCosts,
+  assertValidParts,
+  getPartsCost,
+  getPartsToIssue,
+} from '@/lib/maintenance-parts';
+import { toMillis } from '@/lib/reservations';
+import {
+  addClockMinutes,
+  findSlaPolicy,
+  getClockMinutesBetween,
+  getSlaStatistics,
+  getSlaTargets,
+} from '@/lib/sla';
+import { formatDateTime, generateTicketNumber } from '@/lib/utils';
 import type {
+  AssignmentDecision,
+  BusinessHours,
+  ChecklistEntry,
   MaintenanceTicket,
   MaintenanceComment,
+  MaintenanceChecklistItem,
+  MaintenancePart,
   MaintenanceStatus,
   MaintenancePriority,
+  MaintenanceType,
+  OfficeAssignmentSettings,
+  SlaPolicy,
+  SlaStatistics,
 } from '@/types';
 
+// Statuses a ticket is still being worked in
+const OPEN_STATUSES: MaintenanceStatus[] = ['open', 'in_progress', 'waiting_parts'];
+
+// The SLA policy a ticket falls under and the hours its clock runs in
+export interface SlaTerms {
+  policy: SlaPolicy;
+  hours: BusinessHours | null;
+}
+
+export interface MaintenanceCompletion {
+  status: 'completed' | 'waiting_parts';
+  shortages: KitShortage[]; // Parts the office could not cover
+  parts_cost: number;
+  corrective_tickets: MaintenanceTicket[]; // Raised for failed checklist items
+}
+
 // ==========================================
 // MAINTENANCE SERVICE
 // ==========================================
@@ -107,7 +173,23 @@ class MaintenanceService extends BaseService<MaintenanceTicket> {
   }
 
   /**
-   * Create a new ticket
+   * Get preventive tickets due within a period, for compliance reporting
+   */
+  async getPreventiveDueBetween(from: Date, to: Date): Promise<MaintenanceTicket[]> {
+    return this.getAll([
+      where('type', '==', 'preventive'),
+      where('due_date', '>=', Timestamp.fromDate(from)),
+      where('due_date', '<=', Timestamp.fromDate(to)),
+      orderBy('due_date', 'asc'),
+    ]);
+  }
+
+  /**
+   * Create a new ticket. When an SLA policy covers its priority and type,
+   * the response and resolution deadlines come from it; a due date given
+   * by the caller is kept. Checklist templates for its type or its asset's
+   * category are added after any checklist the caller gives. An unassigned
+   * ticket is auto-assigned when its office has that turned on.
    */
   async createTicket(
     data: Omit<MaintenanceTicket, 'id' | 'ticket_number' | 'reported_at'>,
@@ -115,16 +197,94 @@ class MaintenanceService extends BaseService<MaintenanceTicket> {
   ): Promise<MaintenanceTicket> {
     const ticketNumber = generateTicketNumber('TKT');
     const now = Timestamp.now();
+    const sla = this.getSlaFields(await this.getSlaTerms(data), now);
+    const checklist = [
+      ...(data.checklist ?? []),
+      ...(await this.getTemplateChecklist(data.type, data.asset_id)),
+    ];
 
     const ticketData = {
+      ...sla,
       ...data,
+      ...(checklist.length > 0 && { checklist }),
       ticket_number: ticketNumber,
       reported_at: now,
       reported_by: userId,
       status: data.status || 'open',
     };
 
-    return this.create(ticketData as Omit<MaintenanceTicket, 'id'>, userId);
+    const ticket = await this.create(ticketData as Omit<MaintenanceTicket, 'id'>, userId);
+    if (ticket.assigned_to) return ticket;
+    return { ...ticket, ...(await this.assignNewTicket(ticket.id, userId)) };
+  }
+
+  /**
+   * SLA policy and business hours a new ticket falls under, if any. Kept
+   * apart from the deadlines so callers raising tickets in a transaction
+   * can look these up first.
+   */
+  async getSlaTerms(
+    data: Pick<MaintenanceTicket, 'priority' | 'type' | 'office_id'>
+  ): Promise<SlaTerms | null> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+
+    slaPolicyService.setTenant(this.tenantId);
+    const policy = findSlaPolicy(await slaPolicyService.getActive(), data.priority, data.type);
+    if (!policy) return null;
+
+    const hours = policy.business_hours_only ? await this.getBusinessHours(data.office_id) : null;
+    return { policy, hours };
+  }
+
+  /**
+   * SLA fields and deadlines for a ticket reported at a time
+   */
+  getSlaFields(terms: SlaTerms | null, reportedAt: Timestamp): Partial<MaintenanceTicket> {
+    if (!terms) return {};
+
+    const { policy, hours } = terms;
+    const targets = getSlaTargets(policy, reportedAt.toDate(), hours);
+    return {
+      sla_policy_id: policy.id,
+      ...(hours && { sla_business_hours: hours }),
+      response_due_at: Timestamp.fromDate(targets.responseDueAt),
+      due_date: Timestamp.fromDate(targets.resolutionDueAt),
+    };
+  }
+
+  /**
+   * Checklist items from the templates covering a ticket type or the
+   * category of the ticket's asset
+   */
+  private async getTemplateChecklist(
+    type: MaintenanceType,
+    assetId?: string
+  ): Promise<MaintenanceChecklistItem[]> {
+    checklistTemplateService.setTenant(this.tenantId!);
+    assetService.setTenant(this.tenantId!);
+    const [templates, asset] = await Promise.all([
+      checklistTemplateService.getActive(),
+      assetId ? assetService.getById(assetId) : null,
+    ]);
+    return buildChecklist(findChecklistTemplates(templates, type, asset?.category_id));
+  }
+
+  /**
+   * Business hours of an office, or the default hours in the tenant timezone
+   */
+  private async getBusinessHours(officeId: string): Promise<BusinessHours> {
+    officeService.setTenant(this.tenantId!);
+    const office = await officeService.getById(officeId);
+    if (office?.business_hours) return office.business_hours;
+
+    const settings = await tenantService.getSettings(this.tenantId!);
+    return {
+      ...DEFAULT_BUSINESS_HOURS,
+      days: [...DEFAULT_BUSINESS_HOURS.days],
+      timezone: settings?.timezone || 'UTC',
+    };
   }
 
   /**
@@ -133,42 +293,188 @@ class MaintenanceService extends BaseService<MaintenanceTicket> {
   async assign(
     ticketId: string,
     technicianId: string,
-    assignedBy: string
+    assignedBy: string,
+    reason: string = 'Chosen by hand'
   ): Promise<void> {
-    await this.update(
-      ticketId,
+    await this.transition(
+      await this.getTicket(ticketId),
+      'in_progress',
       {
         assigned_to: technicianId,
         assigned_at: Timestamp.now(),
-        status: 'in_progress',
+        assignment_reason: reason,
       },
       assignedBy
     );
   }
 
   /**
-   * Start working on a ticket
+   * Work out which technician should take a ticket under its office's
+   * assignment settings, with the reason for or against each IT technician.
+   * The ticket's own current assignment does not count towards workloads.
    */
-  async startWork(ticketId: string, userId: string): Promise<void> {
-    await this.update(
-      ticketId,
+  async recommendTechnician(
+    ticket: Pick<MaintenanceTicket, 'id' | 'office_id' | 'priority' | 'required_skills'>
+  ): Promise<AssignmentDecision> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+
+    userService.setTenant(this.tenantId);
+    const [settings, technicians] = await Promise.all([
+      this.getAssignmentSettings(ticket.office_id),
+      userService.getByRole('IT_TECHNICIAN'),
+    ]);
+    const openTickets = await Promise.all(technicians.map(t => this.getAssignedTo(t.id)));
+
+    return chooseTechnician(
+      ticket,
+      technicians.map((user, i) => ({
+        user,
+        has_office_access:
+          userService.hasOfficeAccess(user, ticket.office_id) ||
+          user.primary_office_id === ticket.office_id,
+        open_tickets: openTickets[i]!.filter(t => t.id !== ticket.id),
+      })),
+      settings
+    );
+  }
+
+  /**
+   * Assign a ticket to the technician the assignment engine chooses. The
+   * ticket keeps its status, so the SLA response is still the technician
+   * starting work. Returns the decision, with no technician when none is
+   * eligible.
+   */
+  async autoAssign(ticketId: string, userId: string): Promise<AssignmentDecision> {
+    const ticket = await this.getTicket(ticketId);
+    if (!OPEN_STATUSES.includes(ticket.status)) {
+      throw new Error('Only open tickets can be assigned');
+    }
+    return (await this.applyAutoAssignment(ticket, userId)).decision;
+  }
+
+  /**
+   * Auto-assign a newly raised ticket when its office has auto-assignment
+   * on. Returns the assignment made, if any. Failures are logged rather
+   * than thrown so raising the ticket never fails on them.
+   */
+  async assignNewTicket(ticketId: string, userId: string): Promise<Partial<MaintenanceTicket>> {
+    try {
+      const ticket = await this.getTicket(ticketId);
+      if (ticket.assigned_to) return {};
+      if (!(await this.getAssignmentSettings(ticket.office_id)).auto_assign) return {};
+      return (await this.applyAutoAssignment(ticket, userId)).updates;
+    } catch (err) {
+      console.warn(`Auto-assignment of ticket ${ticketId} failed:`, err);
+      return {};
+    }
+  }
+
+  /**
+   * Set the required skills on a ticket, which the assignment engine
+   * matches against technicians' skills
+   */
+  async updateRequiredSkills(ticketId: string, skills: string[], userId: string): Promise<void> {
+    await this.update(ticketId, { required_skills: normalizeSkills(skills) }, userId);
+  }
+
+  private async getAssignmentSettings(officeId: string): Promise<OfficeAssignmentSettings> {
+    officeService.setTenant(this.tenantId!);
+    const office = await officeService.getById(officeId);
+    return office?.assignment ?? { ...DEFAULT_ASSIGNMENT_SETTINGS };
+  }
+
+  /**
+   * Write the engine's choice to the ticket, move the office's rotation on
+   * and tell the technician
+   */
+  private async applyAutoAssignment(
+    ticket: MaintenanceTicket,
+    userId: string
+  ): Promise<{ decision: AssignmentDecision; updates: Partial<MaintenanceTicket> }> {
+    const decision = await this.recommendTechnician(ticket);
+    if (!decision.technician_id) return { decision, updates: {} };
+
+    const now = Timestamp.now();
+    const updates: Partial<MaintenanceTicket> = {
+      assigned_to: decision.technician_id,
+      assigned_at: now,
+      assignment_reason: decision.explanation,
+    };
+
+    notificationService.setTenant(this.tenantId!);
+    const batch = writeBatch(db);
+    batch.update(this.getDocRef(ticket.id), this.addAuditFields(updates, userId, false));
+    if (decision.strategy === 'round_robin') {
+      const officeRef = doc(db, 'tenants', this.tenantId!, COLLECTIONS.OFFICES, ticket.office_id);
+      batch.update(officeRef, {
+        'assignment.last_assigned_to': decision.technician_id,
+      });
+    }
+    notificationService.queue(
+      batch,
       {
-        status: 'in_progress',
-        started_at: Timestamp.now(),
+        user_id: decision.technician_id,
+        type: 'info',
+        title: `Ticket assigned: ${ticket.ticket_number}`,
+        message: `${ticket.title} has been assigned to you.`,
+        action_url: `/maintenance/${ticket.id}`,
+        action_label: 'View ticket',
       },
-      userId
+      now
     );
+    await batch.commit();
+
+    return { decision, updates };
+  }
+
+  /**
+   * Start working on a ticket
+   */
+  async startWork(ticketId: string, userId: string): Promise<void> {
+    const ticket = await this.getTicket(ticketId);
+    await this.transition(ticket, 'in_progress', { started_at: Timestamp.now() }, userId);
   }
 
   /**
-   * Mark ticket as waiting for parts
+   * Mark ticket as waiting for parts. The SLA clocks stop until work resumes.
    */
   async waitingForParts(ticketId: string, userId: string): Promise<void> {
-    await this.update(ticketId, { status: 'waiting_parts' }, userId);
+    await this.transition(await this.getTicket(ticketId), 'waiting_parts', {}, userId);
+  }
+
+  /**
+   * Record the parts used on a ticket. Stock parts may be entered in any
+   * unit of their consumable and are stored in its base unit; they are
+   * issued when the ticket is completed.
+   */
+  async updateParts(ticketId: string, parts: MaintenancePart[], userId: string): Promise<void> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+
+    const ticket = await this.getTicket(ticketId);
+    if (ticket.status === 'completed' || ticket.status === 'cancelled') {
+      throw new Error('Parts cannot change once a ticket is closed');
+    }
+    assertValidParts(parts);
+
+    consumableService.setTenant(this.tenantId);
+    const converted = await consumableService.toBaseUnitEntries(parts);
+    await this.update(
+      ticketId,
+      { parts_used: converted.map(part => ({ ...part, name: part.name.trim() })) },
+      userId
+    );
   }
 
   /**
-   * Complete a ticket
+   * Complete a ticket once every required checklist item is filled in.
+   * Its stock parts are issued from the ticket's office under the ticket
+   * number, and the cost of all its parts is added to the actual cost. If
+   * the office is short of any part nothing is issued and the ticket waits
+   * for parts instead. Failed checklist items then raise corrective tickets.
    */
   async complete(
     ticketId: string,
@@ -176,32 +482,364 @@ class MaintenanceService extends BaseService<MaintenanceTicket> {
     actualCost: number | undefined,
     rootCause: string | undefined,
     userId: string
-  ): Promise<void> {
-    await this.update(
-      ticketId,
+  ): Promise<MaintenanceCompletion> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+
+    const ticket = await this.getTicket(ticketId);
+    if (ticket.status === 'completed' || ticket.status === 'cancelled') {
+      throw new Error('This ticket is already closed');
+    }
+    const unfilled = getUnfilledItems(ticket.checklist ?? []);
+    if (unfilled.length > 0) {
+      throw new Error(`Fill in the checklist first: ${unfilled.map(i => i.label).join(', ')}`);
+    }
+
+    let parts = ticket.parts_used ?? [];
+    const toIssue = getPartsToIssue(parts);
+    if (toIssue.length > 0) {
+      stockService.setTenant(this.tenantId);
+      try {
+        const issued = await stockService.issueKit(
+          ticket.office_id,
+          toIssue,
+          ticket.assigned_to || userId,
+          userId,
+          `Parts for ${ticket.ticket_number}: ${ticket.title}`,
+          // Keyed on the ticket, so a retried completion never issues twice
+          { referenceNumber: ticket.ticket_number, idempotencyKey: `ticket-${ticket.id}` }
+        );
+        parts = applyIssuedCosts(parts, issued);
+      } catch (err) {
+        if (!(err instanceof StockShortageError)) throw err;
+        if (ticket.status !== 'waiting_parts') {
+          await this.transition(ticket, 'waiting_parts', {}, userId);
+        }
+        return {
+          status: 'waiting_parts',
+          shortages: err.shortages,
+          parts_cost: 0,
+          corrective_tickets: [],
+        };
+      }
+    }
+
+    const partsCost = getPartsCost(parts);
+    const totalCost = parts.length > 0 ? (actualCost ?? 0) + partsCost : actualCost;
+    await this.transition(
+      ticket,
+      'completed',
       {
-        status: 'completed',
         completed_at: Timestamp.now(),
         resolution_notes: resolutionNotes,
-        actual_cost: actualCost,
-        root_cause: rootCause,
+        ...(totalCost !== undefined && { actual_cost: totalCost }),
+        ...(rootCause && { root_cause: rootCause }),
+        ...(parts.length > 0 && { parts_used: parts, parts_cost: partsCost }),
       },
       userId
     );
+
+    // The ticket is closed either way; corrective tickets can be raised again later
+    let corrective: MaintenanceTicket[] = [];
+    try {
+      corrective = await this.raiseCorrectiveTickets(ticket.id, userId);
+    } catch (err) {
+      console.warn('Failed to raise corrective tickets:', err);
+    }
+    return {
+      status: 'completed',
+      shortages: [],
+      parts_cost: partsCost,
+      corrective_tickets: corrective,
+    };
+  }
+
+  /**
+   * Raise a corrective ticket for each failed checklist item set to raise
+   * one, skipping items that already have theirs
+   */
+  async raiseCorrectiveTickets(ticketId: string, userId: string): Promise<MaintenanceTicket[]> {
+    const ticket = await this.getTicket(ticketId);
+    const failed = getCorrectiveItems(ticket.checklist ?? []);
+    if (failed.length === 0) return [];
+
+    const raised = new Map<string, MaintenanceTicket>();
+    for (const item of failed) {
+      const reading = [item.reading, item.unit].filter(v => v !== undefined).join(' ');
+      const finding =
+        item.reading !== undefined
+          ? `Reading ${reading} is outside the accepted range.`
+          : 'The check failed.';
+      const data = {
+        tenant_id: ticket.tenant_id,
+        organization_id: ticket.organization_id,
+        office_id: ticket.office_id,
+        title: `${item.label}: ${ticket.title}`,
+        description: [
+          `Raised from ${ticket.ticket_number}, where "${item.label}" failed. ${finding}`,
+          item.notes,
+        ]
+          .filter(Boolean)
+          .join('\n\n'),
+        type: 'corrective',
+        priority: ticket.priority,
+        status: 'open',
+        ...(ticket.asset_id && { asset_id: ticket.asset_id }),
+        ...(ticket.currency && { currency: ticket.currency }),
+        source_ticket_id: ticket.id,
+        reported_by: userId,
+      } as Omit<MaintenanceTicket, 'id' | 'ticket_number' | 'reported_at'>;
+      raised.set(item.id, await this.createTicket(data, userId));
+    }
+
+    const checklist = ticket.checklist!.map(item => {
+      const corrective = raised.get(item.id);
+      return corrective ? { ...item, corrective_ticket_id: corrective.id } : item;
+    });
+    await this.update(ticketId, { checklist }, userId);
+    return [...raised.values()];
+  }
+
+  /**
+   * Move a ticket to a status, running its SLA clocks on the way:
+   * - time spent waiting for parts is added to the open deadlines
+   * - the first assignment or start of work is the response
+   * - a target already passed when it is met is flagged as breached
+   */
+  private async transition(
+    ticket: MaintenanceTicket,
+    status: MaintenanceStatus,
+    data: Partial<MaintenanceTicket>,
+    userId: string
+  ): Promise<void> {
+    const updates: Partial<MaintenanceTicket> = { ...data, status };
+    const resumed = !!ticket.sla_paused_at && status !== 'waiting_parts';
+
+    if (ticket.sla_policy_id) {
+      const now = Timestamp.now();
+      const hours = ticket.sla_business_hours;
+      let responseDue = ticket.response_due_at;
+      let resolutionDue = ticket.due_date;
+
+      if (resumed) {
+        const pausedAt = new Date(toMillis(ticket.sla_paused_at!));
+        const paused = getClockMinutesBetween(pausedAt, now.toDate(), hours);
+        const extend = (due: NonNullable<MaintenanceTicket['due_date']>) =>
+          Timestamp.fromDate(addClockMinutes(new Date(toMillis(due)), paused, hours));
+
+        updates.sla_paused_minutes = (ticket.sla_paused_minutes ?? 0) + paused;
+        if (resolutionDue) {
+          resolutionDue = extend(resolutionDue);
+          updates.due_date = resolutionDue;
+        }
+        if (responseDue && !ticket.responded_at) {
+          responseDue = extend(responseDue);
+          updates.response_due_at = responseDue;
+        }
+      }
+      if (status === 'waiting_parts' && !ticket.sla_paused_at) {
+        updates.sla_paused_at = now;
+      }
+
+      if (!ticket.responded_at && status !== 'open' && status !== 'cancelled') {
+        updates.responded_at = now;
+        if (responseDue && now.toMillis() > toMillis(responseDue)) {
+          updates.response_breached = true;
+        }
+      }
+      if (status === 'completed' && resolutionDue && now.toMillis() > toMillis(resolutionDue)) {
+        updates.resolution_breached = true;
+      }
+    }
+
+    await updateDoc(this.getDocRef(ticket.id), {
+      ...this.addAuditFields(updates, userId, false),
+      ...(resumed && { sla_paused_at: null }),
+    });
+  }
+
+  private async getTicket(ticketId: string): Promise<MaintenanceTicket> {
+    const ticket = await this.getById(ticketId);
+    if (!ticket) {
+      throw new Error('Ticket not found');
+    }
+    return ticket;
+  }
+
+  /**
+   * Flag open tickets that have run past an SLA target and tell whoever
+   * holds them. Paused clocks do not breach.
+   *
+   * There is no backend scheduler, so this runs when users open the app.
+   * Each ticket is flagged in a transaction, so it is only reported once.
+   */
+  async flagSlaBreaches(now: Date = new Date()): Promise<number> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+    notificationService.setTenant(this.tenantId);
+
+    const isOverdue = (due: MaintenanceTicket['due_date']) => !!due && toMillis(due) < now.getTime();
+    const getBreaches = (ticket: MaintenanceTicket) => ({
+      response: !ticket.responded_at && !ticket.response_breached && isOverdue(ticket.response_due_at),
+      resolution: !ticket.resolution_breached && isOverdue(ticket.due_date),
+    });
+
+    const candidates = (await this.getOpen()).filter(ticket => {
+      if (!ticket.sla_policy_id || ticket.sla_paused_at) return false;
+      const breaches = getBreaches(ticket);
+      return breaches.response || breaches.resolution;
+    });
+
+    let flagged = 0;
+    for (const candidate of candidates) {
+      const ticketRef = this.getDocRef(candidate.id);
+      flagged += await runTransaction(db, async (transaction) => {
+        const snapshot = await transaction.get(ticketRef);
+        if (!snapshot.exists()) return 0;
+
+        const ticket = { id: snapshot.id, ...snapshot.data() } as MaintenanceTicket;
+        if (!OPEN_STATUSES.includes(ticket.status) || ticket.sla_paused_at) return 0;
+        const breaches = getBreaches(ticket);
+        if (!breaches.response && !breaches.resolution) return 0;
+
+        const timestamp = Timestamp.fromDate(now);
+        transaction.update(ticketRef, {
+          ...(breaches.response && { response_breached: true }),
+          ...(breaches.resolution && { resolution_breached: true }),
+        });
+
+        const target = breaches.resolution ? 'resolution' : 'response';
+        const due = breaches.resolution ? ticket.due_date! : ticket.response_due_at!;
+        notificationService.queue(
+          transaction,
+          {
+            user_id: ticket.assigned_to || ticket.reported_by,
+            type: 'error',
+            title: `SLA breached: ${ticket.ticket_number}`,
+            message: `${ticket.title} missed its ${target} target of ${formatDateTime(due)}.`,
+            action_url: `/maintenance/${ticket.id}`,
+            action_label: 'View ticket',
+          },
+          timestamp
+        );
+        return 1;
+      });
+    }
+
+    return flagged;
+  }
+
+  /**
+   * Record a result against an item on a ticket's checklist, or clear it
+   * when the entry is null
+   */
+  async updateChecklistItem(
+    ticketId: string,
+    itemId: string,
+    entry: ChecklistEntry | null,
+    userId: string
+  ): Promise<MaintenanceChecklistItem[]> {
+    const { ticket, item } = await this.getChecklistItem(ticketId, itemId);
+
+    const checklist = this.replaceChecklistItem(ticket, fillChecklistItem(item, entry), userId);
+    await this.update(ticketId, { checklist }, userId);
+
+    if (!entry && item.photo_path) {
+      await this.deleteChecklistPhoto(item.photo_path);
+    }
+    return checklist;
+  }
+
+  /**
+   * Upload the photo for a photo checklist item, which fills the item in.
+   * A photo already taken for the item is replaced.
+   */
+  async uploadChecklistPhoto(
+    ticketId: string,
+    itemId: string,
+    file: File,
+    userId: string
+  ): Promise<MaintenanceChecklistItem[]> {
+    const error = validateAttachment(file, 'photo');
+    if (error) {
+      throw new Error(error);
+    }
+    const { ticket, item } = await this.getChecklistItem(ticketId, itemId);
+    if (item.kind !== 'photo') {
+      throw new Error(`${item.label} does not take a photo`);
+    }
+
+    const folder = getChecklistPhotoFolder(this.tenantId!, ticketId, itemId);
+    const path = `${folder}/${sanitizeFileName(file.name)}`;
+    const photoRef = storageRef(storage, path);
+    await uploadBytes(photoRef, file, {
+      contentType: file.type,
+      customMetadata: { ticket_id: ticketId, uploaded_by: userId },
+    });
+    const photo = { photo_url: await getDownloadURL(photoRef), photo_path: path };
+
+    const filled = fillChecklistItem({ ...item, ...photo }, { notes: item.notes });
+    const checklist = this.replaceChecklistItem(ticket, filled, userId);
+    await this.update(ticketId, { checklist }, userId);
+
+    if (item.photo_path && item.photo_path !== path) {
+      await this.deleteChecklistPhoto(item.photo_path);
+    }
+    return checklist;
+  }
+
+  /**
+   * Load a checklist item on a ticket that is still being worked
+   */
+  private async getChecklistItem(
+    ticketId: string,
+    itemId: string
+  ): Promise<{ ticket: MaintenanceTicket; item: MaintenanceChecklistItem }> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+    const ticket = await this.getTicket(ticketId);
+    if (ticket.status === 'completed' || ticket.status === 'cancelled') {
+      throw new Error('The checklist cannot change once a ticket is closed');
+    }
+    const item = ticket.checklist?.find(i => i.id === itemId);
+    if (!item) {
+      throw new Error('Checklist item not found');
+    }
+    return { ticket, item };
+  }
+
+  private replaceChecklistItem(
+    ticket: MaintenanceTicket,
+    item: MaintenanceChecklistItem,
+    userId: string
+  ): MaintenanceChecklistItem[] {
+    const stamped = item.done ? { ...item, done_at: Timestamp.now(), done_by: userId } : item;
+    return ticket.checklist!.map(i => (i.id === item.id ? stamped : i));
+  }
+
+  /**
+   * Delete a checklist photo, ignoring one that is already gone. The item
+   * no longer points at it, so a failure only leaves an orphaned file.
+   */
+  private async deleteChecklistPhoto(path: string): Promise<void> {
+    try {
+      await deleteObject(storageRef(storage, path));
+    } catch (err) {
+      if (!(err instanceof FirebaseError && err.code === 'storage/object-not-found')) {
+        console.warn(`Failed to delete ${path}:`, err);
+      }
+    }
   }
 
   /**
    * Cancel a ticket
    */
   async cancel(ticketId: string, reason: string, userId: string): Promise<void> {
-    await this.update(
-      ticketId,
-      {
-        status: 'cancelled',
-        resolution_notes: `Cancelled: ${reason}`,
-      },
-      userId
-    );
+    const ticket = await this.getTicket(ticketId);
+    await this.transition(ticket, 'cancelled', { resolution_notes: `Cancelled: ${reason}` }, userId);
   }
 
   /**
@@ -273,6 +911,7 @@ class MaintenanceService extends BaseService<MaintenanceTicket> {
     byPriority: Record<MaintenancePriority, number>;
     averageResolutionTime: number;
     totalCost: number;
+    sla: SlaStatistics;
   }> {
     const tickets = await this.getAll([]);
 
@@ -305,6 +944,7 @@ class MaintenanceService extends BaseService<MaintenanceTicket> {
       averageResolutionTime:
         completedCount > 0 ? totalResolutionTime / completedCount : 0,
       totalCost,
+      sla: getSlaStatistics(tickets),
     };
   }
 
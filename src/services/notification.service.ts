@@ -0,0 +1,98 @@
+/* ============================================
+   TENAXIS - Notification Service
+   In-app notifications for individual users
+   ============================================ */
+
+import {
+  doc,
+  updateDoc,
+  where,
+  orderBy,
+  limit,
+  Timestamp,
+  type Transaction,
+  writeBatch,
+  type WriteBatch,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { BaseService } from './base.service';
+import { COLLECTIONS } from '@/lib/constants';
+import type { Notification } from '@/types';
+
+export type NotificationInput = Omit<
+  Notification,
+  'id' | 'tenant_id' | 'read' | 'read_at' | 'created_at'
+>;
+
+// ==========================================
+// NOTIFICATION SERVICE
+// ==========================================
+
+class NotificationService extends BaseService<Notification> {
+  constructor() {
+    super(COLLECTIONS.NOTIFICATIONS);
+  }
+
+  /**
+   * Get a user's unread notifications, newest first
+   */
+  async getUnread(userId: string, max: number = 20): Promise<Notification[]> {
+    return this.getAll([
+      where('user_id', '==', userId),
+      where('read', '==', false),
+      orderBy('created_at', 'desc'),
+      limit(max),
+    ]);
+  }
+
+  /**
+   * Queue a notification in a batch or transaction so it is only sent
+   * together with the change it reports
+   */
+  queue(writer: WriteBatch | Transaction, data: NotificationInput, now: Timestamp): void {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+
+    const notification: Omit<Notification, 'id'> = {
+      ...data,
+      tenant_id: this.tenantId,
+      read: false,
+      created_at: now,
+    };
+    // Transaction.set takes the same arguments; the cast only satisfies the
+    // compiler, which cannot call a union of overloaded methods
+    (writer as WriteBatch).set(doc(this.getCollectionRef()), notification);
+  }
+
+  /**
+   * Mark a notification as read
+   */
+  async markAsRead(notificationId: string): Promise<void> {
+    await updateDoc(this.getDocRef(notificationId), { read: true, read_at: Timestamp.now() });
+  }
+
+  /**
+   * Mark all of a user's unread notifications as read
+   */
+  async markAllAsRead(userId: string): Promise<void> {
+    // One batch holds at most 500 writes
+    const unread = await this.getAll([
+      where('user_id', '==', userId),
+      where('read', '==', false),
+      limit(500),
+    ]);
+    if (unread.length === 0) return;
+
+    const now = Timestamp.now();
+    const batch = writeBatch(db);
+    unread.forEach(n => batch.update(this.getDocRef(n.id), { read: true, read_at: now }));
+    await batch.commit();
+  }
+}
+
+// ==========================================
+// SINGLETON EXPORT
+// ==========================================
+
+export const notificationService = new NotificationService();
@@ -15,7 +15,16 @@ import {
 import { db } from '@/lib/firebase';
 import { BaseService } from './base.service';
 import { COLLECTIONS } from '@/lib/constants';
-import type { Tenant, Organization, Company, Office, Department } from '@/types';
+import { assertValidBusinessHours } from '@/lib/sla';
+import type {
+  BusinessHours,
+  Tenant,
+  Organization,
+  Company,
+  Office,
+  OfficeAssignmentSettings,
+  Department,
+} from '@/types';
 
 // ==========================================
 // TENANT SERVICE
@@ -198,6 +207,51 @@ class OfficeService extends BaseService<Office> {
     return results.sort((a, b) => a.name.localeCompare(b.name));
   }
 
+  /**
+   * Set the business hours an office's SLA clocks count, or clear them to
+   * fall back to the tenant default
+   */
+  async updateBusinessHours(
+    officeId: string,
+    hours: BusinessHours | null,
+    userId: string
+  ): Promise<void> {
+    if (hours) assertValidBusinessHours(hours);
+
+    await updateDoc(this.getDocRef(officeId), {
+      ...this.addAuditFields({}, userId, false),
+      business_hours: hours,
+    });
+  }
+
+  /**
+   * Set how an office's tickets are assigned to technicians, or clear the
+   * settings to fall back to least loaded without auto-assignment. Where
+   * the rotation is up to carries over.
+   */
+  async updateAssignmentSettings(
+    officeId: string,
+    settings: OfficeAssignmentSettings | null,
+    userId: string
+  ): Promise<void> {
+    const limit = settings?.max_open_tickets;
+    if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
+      throw new Error('The open ticket limit must be a whole number above zero');
+    }
+
+    const office = await this.getById(officeId);
+    const lastAssignedTo = office?.assignment?.last_assigned_to;
+    await updateDoc(this.getDocRef(officeId), {
+      ...this.addAuditFields({}, userId, false),
+      assignment: settings && {
+        strategy: settings.strategy,
+        auto_assign: settings.auto_assign,
+        ...(limit !== undefined && { max_open_tickets: limit }),
+        ...(lastAssignedTo && { last_assigned_to: lastAssignedTo }),
+      },
+    });
+  }
+
   /**
    * Get headquarters office
    */
@@ -0,0 +1,615 @@
+/* ============================================
+   TENAXIS - Purchasing Service
+   Purchase requisitions, purchase orders and goods receipt
+   ============================================ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  updateDoc,
+  runTransaction,
+  Timestamp,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { BaseService } from './base.service';
+import { assetService } from './asset.service';
+import { stockService } from './consumable.service';
+import { notificationService } from './notification.service';
+import { officeService } from './organization.service';
+import { userService } from './user.service';
+import { COLLECTIONS } from '@/lib/constants';
+import { hasPermission, MODULES } from '@/lib/permissions';
+import {
+  applyReceipt,
+  assertValidLines,
+  getLinesTotal,
+  getReceivingStatus,
+  getReorderQuantity,
+  isReceivable,
+} from '@/lib/purchasing';
+import { getPurchaseUnit, getUnitFactor } from '@/lib/units';
+import { generateAssetTag, generateId, generateTicketNumber } from '@/lib/utils';
+import type {
+  Asset,
+  AuditFields,
+  Consumable,
+  GoodsReceipt,
+  GoodsReceiptLine,
+  PurchaseLine,
+  PurchaseOrder,
+  PurchaseRequisition,
+} from '@/types';
+
+export type PurchaseRequisitionInput = Pick<
+  PurchaseRequisition,
+  | 'organization_id'
+  | 'office_id'
+  | 'source'
+  | 'lines'
+  | 'vendor_id'
+  | 'needed_by'
+  | 'justification'
+  | 'currency'
+>;
+
+export interface PurchaseOrderInput {
+  vendor_id: string;
+  expected_date: Timestamp;
+  notes?: string;
+}
+
+export interface GoodsReceiptInput {
+  lines: Pick<GoodsReceiptLine, 'line_id' | 'quantity' | 'lot_number' | 'expiry_date'>[];
+  delivery_reference?: string;
+  notes?: string;
+}
+
+// ==========================================
+// PURCHASE REQUISITION SERVICE
+// ==========================================
+
+class PurchaseRequisitionService extends BaseService<PurchaseRequisition> {
+  constructor() {
+    super(COLLECTIONS.PURCHASE_REQUISITIONS);
+  }
+
+  /**
+   * Get requisitions awaiting a finance decision, oldest first
+   */
+  async getPending(): Promise<PurchaseRequisition[]> {
+    return this.getAll([
+      where('status', '==', 'submitted'),
+      orderBy('created_at', 'asc'),
+    ]);
+  }
+
+  /**
+   * Build requisition lines for an office's low-stock consumables. Items
+   * already on an open requisition or purchase order are left out.
+   */
+  async getLowStockLines(officeId: string): Promise<PurchaseLine[]> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+
+    stockService.setTenant(this.tenantId);
+    purchaseOrderService.setTenant(this.tenantId);
+
+    const [lowStock, requisitions, orders] = await Promise.all([
+      stockService.getLowStockItems(),
+      this.getAll([
+        where('office_id', '==', officeId),
+        where('status', 'in', ['submitted', 'approved']),
+      ]),
+      purchaseOrderService.getAll([
+        where('office_id', '==', officeId),
+        where('status', 'in', ['issued', 'partially_received']),
+      ]),
+    ]);
+
+    const onOrder = new Set(
+      [...requisitions, ...orders]
+        .flatMap(record => record.lines)
+        .map(line => line.consumable_id)
+        .filter(Boolean)
+    );
+
+    return lowStock
+      .filter(stock => stock.office_id === officeId && stock.consumable)
+      .filter(stock => !onOrder.has(stock.consumable_id))
+      .map(stock => ({
+        id: generateId(),
+        item_type: 'consumable' as const,
+        consumable_id: stock.consumable_id,
+        description: stock.consumable!.name,
+        quantity: Math.ceil(
+          getReorderQuantity(stock.consumable!, stock.quantity ?? 0) /
+            getUnitFactor(stock.consumable!, getPurchaseUnit(stock.consumable!))
+        ),
+        unit: getPurchaseUnit(stock.consumable!),
+        unit_cost: 0,
+      }));
+  }
+
+  /**
+   * Raise a requisition. It goes straight to finance for approval.
+   */
+  async createRequisition(
+    data: PurchaseRequisitionInput,
+    userId: string
+  ): Promise<PurchaseRequisition> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+    assertValidLines(data.lines);
+
+    const requisitionData: Omit<PurchaseRequisition, 'id' | keyof AuditFields> = {
+      tenant_id: this.tenantId,
+      organization_id: data.organization_id,
+      office_id: data.office_id,
+      requisition_number: generateTicketNumber('PR'),
+      status: 'submitted',
+      source: data.source,
+      lines: data.lines.map(line => ({ ...line, description: line.description.trim() })),
+      ...(data.vendor_id && { vendor_id: data.vendor_id }),
+      ...(data.needed_by && { needed_by: data.needed_by }),
+      ...(data.justification && { justification: data.justification }),
+      estimated_total: getLinesTotal(data.lines),
+      currency: data.currency,
+    };
+
+    return this.create(requisitionData as Omit<PurchaseRequisition, 'id'>, userId);
+  }
+
+  /**
+   * Approve or reject a submitted requisition. Only roles with purchasing
+   * approval (finance) may decide, and never on their own request.
+   */
+  async decide(
+    requisitionId: string,
+    approved: boolean,
+    userId: string,
+    notes?: string
+  ): Promise<void> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+    if (!approved && !notes?.trim()) {
+      throw new Error('Give a reason for rejecting the requisition');
+    }
+
+    userService.setTenant(this.tenantId);
+    const approver = await userService.getById(userId);
+    if (!approver || !hasPermission(approver.role, MODULES.PURCHASING, 'approve')) {
+      throw new Error('You are not allowed to approve requisitions');
+    }
+
+    notificationService.setTenant(this.tenantId);
+    const requisitionRef = this.getDocRef(requisitionId);
+    const now = Timestamp.now();
+
+    await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(requisitionRef);
+      if (!snapshot.exists()) {
+        throw new Error('Requisition not found');
+      }
+
+      const requisition = { id: snapshot.id, ...snapshot.data() } as PurchaseRequisition;
+      if (requisition.status !== 'submitted') {
+        throw new Error('Only requisitions awaiting approval can be decided');
+      }
+      if (requisition.created_by === userId) {
+        throw new Error('You cannot approve your own requisition');
+      }
+
+      transaction.update(requisitionRef, {
+        status: approved ? 'approved' : 'rejected',
+        decided_by: userId,
+        decided_at: now,
+        ...(notes?.trim() && { decision_notes: notes.trim() }),
+        updated_at: now,
+        updated_by: userId,
+      });
+
+      notificationService.queue(
+        transaction,
+        {
+          user_id: requisition.created_by,
+          type: approved ? 'success' : 'warning',
+          title: `Requisition ${requisition.requisition_number} ${approved ? 'approved' : 'rejected'}`,
+          message: approved
+            ? 'Finance approved your requisition. A purchase order can now be issued.'
+            : `Finance rejected your requisition: ${notes!.trim()}`,
+          action_url: `/purchasing/requisitions/${requisition.id}`,
+          action_label: 'View requisition',
+        },
+        now
+      );
+    });
+  }
+
+  /**
+   * Withdraw a requisition that has not been ordered yet
+   */
+  async cancel(requisitionId: string, userId: string): Promise<void> {
+    const requisition = await this.getById(requisitionId);
+    if (!requisition) {
+      throw new Error('Requisition not found');
+    }
+    if (requisition.status !== 'submitted' && requisition.status !== 'approved') {
+      throw new Error('Only open requisitions can be cancelled');
+    }
+
+    await this.update(requisitionId, { status: 'cancelled' }, userId);
+  }
+}
+
+// ==========================================
+// PURCHASE ORDER SERVICE
+// ==========================================
+
+class PurchaseOrderService extends BaseService<PurchaseOrder> {
+  constructor() {
+    super(COLLECTIONS.PURCHASE_ORDERS);
+  }
+
+  private getReceiptsRef(orderId: string) {
+    return collection(this.getDocRef(orderId), COLLECTIONS.GOODS_RECEIPTS);
+  }
+
+  /**
+   * Get orders placed with a vendor
+   */
+  async getByVendor(vendorId: string): Promise<PurchaseOrder[]> {
+    return this.getAll([
+      where('vendor_id', '==', vendorId),
+      orderBy('created_at', 'desc'),
+    ]);
+  }
+
+  /**
+   * Issue a purchase order for an approved requisition
+   */
+  async createFromRequisition(
+    requisitionId: string,
+    input: PurchaseOrderInput,
+    userId: string
+  ): Promise<PurchaseOrder> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+    if (!input.vendor_id) {
+      throw new Error('Select the vendor to order from');
+    }
+
+    const requisitionRef = doc(
+      db,
+      'tenants',
+      this.tenantId,
+      COLLECTIONS.PURCHASE_REQUISITIONS,
+      requisitionId
+    );
+    const orderRef = doc(this.getCollectionRef());
+    const now = Timestamp.now();
+
+    return runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(requisitionRef);
+      if (!snapshot.exists()) {
+        throw new Error('Requisition not found');
+      }
+
+      const requisition = { id: snapshot.id, ...snapshot.data() } as PurchaseRequisition;
+      if (requisition.status !== 'approved') {
+        throw new Error('Only approved requisitions can be ordered');
+      }
+
+      const order: Omit<PurchaseOrder, 'id'> = {
+        tenant_id: this.tenantId!,
+        organization_id: requisition.organization_id,
+        office_id: requisition.office_id,
+        po_number: generateTicketNumber('PO'),
+        status: 'issued',
+        vendor_id: input.vendor_id,
+        requisition_id: requisition.id,
+        requisition_number: requisition.requisition_number,
+        lines: requisition.lines.map(line => ({ ...line, received_quantity: 0 })),
+        expected_date: input.expected_date,
+        total: getLinesTotal(requisition.lines),
+        currency: requisition.currency,
+        ...(input.notes && { notes: input.notes }),
+        created_at: now,
+        created_by: userId,
+        updated_at: now,
+        updated_by: userId,
+      };
+      transaction.set(orderRef, order);
+
+      transaction.update(requisitionRef, {
+        status: 'ordered',
+        purchase_order_id: orderRef.id,
+        purchase_order_number: order.po_number,
+        updated_at: now,
+        updated_by: userId,
+      });
+
+      return { id: orderRef.id, ...order };
+    });
+  }
+
+  /**
+   * Get goods receipts for an order, newest first
+   */
+  async getReceipts(orderId: string): Promise<GoodsReceipt[]> {
+    const snapshot = await getDocs(
+      query(this.getReceiptsRef(orderId), orderBy('received_at', 'desc'))
+    );
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as GoodsReceipt);
+  }
+
+  /**
+   * Receive goods against an order. The receipt and the order's received
+   * quantities are recorded in one transaction, so concurrent receipts
+   * cannot over-receive; stock and assets are then posted from it.
+   */
+  async receiveGoods(
+    orderId: string,
+    input: GoodsReceiptInput,
+    userId: string
+  ): Promise<GoodsReceipt> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+
+    const lines = input.lines.filter(line => line.quantity > 0);
+    if (lines.length === 0) {
+      throw new Error('Enter a received quantity for at least one line');
+    }
+
+    const orderRef = this.getDocRef(orderId);
+    const receiptRef = doc(this.getReceiptsRef(orderId));
+    const now = Timestamp.now();
+
+    const receipt = await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(orderRef);
+      if (!snapshot.exists()) {
+        throw new Error('Purchase order not found');
+      }
+
+      const order = snapshot.data() as PurchaseOrder;
+      if (!isReceivable(order.status)) {
+        throw new Error('Goods can only be received against an open order');
+      }
+
+      const updatedLines = applyReceipt(order.lines, lines);
+
+      // Lot-tracked consumables cannot be posted to stock without a lot
+      for (const line of lines) {
+        const orderLine = order.lines.find(l => l.id === line.line_id);
+        if (!orderLine?.consumable_id || line.lot_number?.trim()) continue;
+
+        const consumable = await transaction.get(
+          doc(db, 'tenants', this.tenantId!, COLLECTIONS.CONSUMABLES, orderLine.consumable_id)
+        );
+        if ((consumable.data() as Consumable | undefined)?.track_lots) {
+          throw new Error(`Enter a lot number for ${orderLine.description}`);
+        }
+      }
+
+      const receiptData: Omit<GoodsReceipt, 'id'> = {
+        tenant_id: this.tenantId!,
+        purchase_order_id: orderId,
+        receipt_number: generateTicketNumber('GRN'),
+        lines: lines.map(line => ({
+          line_id: line.line_id,
+          quantity: line.quantity,
+          ...(line.lot_number?.trim() && { lot_number: line.lot_number.trim() }),
+          ...(line.expiry_date && { expiry_date: line.expiry_date }),
+        })),
+        ...(input.delivery_reference && { delivery_reference: input.delivery_reference }),
+        ...(input.notes && { notes: input.notes }),
+        status: 'pending',
+        received_at: now,
+        received_by: userId,
+      };
+      transaction.set(receiptRef, receiptData);
+
+      transaction.update(orderRef, {
+        lines: updatedLines,
+        status: getReceivingStatus(updatedLines),
+        ...(!order.first_received_at && { first_received_at: now }),
+        last_received_at: now,
+        updated_at: now,
+        updated_by: userId,
+      });
+
+      return { id: receiptRef.id, ...receiptData };
+    });
+
+    try {
+      return await this.postReceipt(orderId, receipt.id, userId);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(
+        `Receipt ${receipt.receipt_number} was recorded but could not be posted ` +
+          `(${reason}). Retry posting it from the purchase order.`
+      );
+    }
+  }
+
+  /**
+   * Post a receipt: restock consumables into the order's office and create
+   * an asset for each unit of equipment. Every step is keyed on the receipt
+   * line, so a pending receipt can be retried without double-posting.
+   */
+  async postReceipt(orderId: string, receiptId: string, userId: string): Promise<GoodsReceipt> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+
+    const receiptRef = doc(this.getReceiptsRef(orderId), receiptId);
+    const [order, receiptSnap] = await Promise.all([
+      this.getById(orderId),
+      getDoc(receiptRef),
+    ]);
+    if (!order || !receiptSnap.exists()) {
+      throw new Error('Goods receipt not found');
+    }
+
+    const receipt = { id: receiptSnap.id, ...receiptSnap.data() } as GoodsReceipt;
+    if (receipt.status === 'posted') {
+      return receipt;
+    }
+
+    stockService.setTenant(this.tenantId);
+    assetService.setTenant(this.tenantId);
+    officeService.setTenant(this.tenantId);
+
+    const postedLines: GoodsReceiptLine[] = [];
+    for (const entry of receipt.lines) {
+      const line = order.lines.find(l => l.id === entry.line_id);
+      if (!line) {
+        throw new Error('Receipt refers to a line that is not on this order');
+      }
+
+      if (line.item_type === 'consumable') {
+        const movement = await stockService.restock(
+          order.office_id,
+          line.consumable_id!,
+          entry.quantity,
+          userId,
+          `Received against ${order.po_number} (${receipt.receipt_number})`,
+          {
+            idempotencyKey: `${receipt.id}-${line.id}`,
+            referenceNumber: order.po_number,
+            unitCost: line.unit_cost,
+            ...(line.unit && { unit: line.unit }),
+            ...(entry.lot_number && {
+              lot: {
+                lot_number: entry.lot_number,
+                ...(entry.expiry_date && { expiry_date: entry.expiry_date }),
+              },
+            }),
+          }
+        );
+        postedLines.push({ ...entry, stock_transaction_id: movement.id });
+      } else {
+        const assetIds = await this.createReceivedAssets(order, receipt, line, entry.quantity, userId);
+        postedLines.push({ ...entry, asset_ids: assetIds });
+      }
+    }
+
+    const posted = { lines: postedLines, status: 'posted' as const, posted_at: Timestamp.now() };
+    await updateDoc(receiptRef, posted);
+
+    return { ...receipt, ...posted };
+  }
+
+  /**
+   * Short-close a partially received order; the outstanding balance
+   * will not be delivered
+   */
+  async closeOrder(orderId: string, reason: string, userId: string): Promise<void> {
+    if (!reason.trim()) {
+      throw new Error('Give a reason for closing the order short');
+    }
+
+    const order = await this.getById(orderId);
+    if (!order) {
+      throw new Error('Purchase order not found');
+    }
+    if (order.status !== 'partially_received') {
+      throw new Error('Only partially received orders can be closed short');
+    }
+
+    await this.update(
+      orderId,
+      {
+        status: 'closed',
+        closed_at: Timestamp.now(),
+        closed_by: userId,
+        close_reason: reason.trim(),
+      },
+      userId
+    );
+  }
+
+  /**
+   * Cancel an order before anything has been received against it
+   */
+  async cancelOrder(orderId: string, reason: string, userId: string): Promise<void> {
+    const order = await this.getById(orderId);
+    if (!order) {
+      throw new Error('Purchase order not found');
+    }
+    if (order.status !== 'issued' || order.lines.some(line => (line.received_quantity || 0) > 0)) {
+      throw new Error('Orders with received goods must be closed short instead');
+    }
+
+    await this.update(
+      orderId,
+      {
+        status: 'cancelled',
+        closed_at: Timestamp.now(),
+        closed_by: userId,
+        ...(reason.trim() && { close_reason: reason.trim() }),
+      },
+      userId
+    );
+  }
+
+  /**
+   * Create one asset per received unit under IDs derived from the receipt
+   * line, skipping units a previous attempt already created
+   */
+  private async createReceivedAssets(
+    order: PurchaseOrder,
+    receipt: GoodsReceipt,
+    line: PurchaseLine,
+    quantity: number,
+    userId: string
+  ): Promise<string[]> {
+    const office = await officeService.getById(order.office_id);
+    if (!office) {
+      throw new Error('Delivery office not found');
+    }
+
+    const assetIds: string[] = [];
+    for (let unit = 0; unit < quantity; unit++) {
+      const assetId = `${receipt.id}-${line.id}-${unit}`;
+      assetIds.push(assetId);
+      if (await assetService.getById(assetId)) continue;
+
+      const assetData: Omit<Asset, 'id' | keyof AuditFields> = {
+        tenant_id: this.tenantId!,
+        organization_id: order.organization_id,
+        company_id: office.company_id,
+        office_id: order.office_id,
+        asset_tag: generateAssetTag(),
+        name: line.description,
+        category_id: line.asset_category_id!,
+        status: 'available',
+        condition: 'new',
+        purchase_date: receipt.received_at,
+        purchase_price: line.unit_cost,
+        currency: order.currency,
+        vendor_id: order.vendor_id,
+        ...(receipt.delivery_reference && { invoice_number: receipt.delivery_reference }),
+      };
+      await assetService.createWithEvent(assetData as Omit<Asset, 'id'>, userId, assetId);
+    }
+
+    return assetIds;
+  }
+}
+
+// ==========================================
+// SINGLETON EXPORT
+// ==========================================
+
+export const purchaseRequisitionService = new PurchaseRequisitionService();
+export const purchaseOrderService = new PurchaseOrderService();
@@ -0,0 +1,210 @@
+/* ============================================
+   TENAXIS - Reorder Service
+   Reorder suggestions from consumption history
+   ============================================ */
+
+import { where } from 'firebase/firestore';
+import { consumableService, stockService } from './consumable.service';
+import { purchaseOrderService, purchaseRequisitionService } from './purchasing.service';
+import { vendorService } from './vendor.service';
+import { REORDER_LOOKBACK_DAYS } from '@/lib/constants';
+import {
+  getAverageDailyUsage,
+  getOnOrderQuantity,
+  getReorderPoint,
+  getSuggestedQuantity,
+  getVendorLeadTimes,
+  needsReorder,
+  resolveLeadTime,
+} from '@/lib/reorder';
+import { roundUnitCost } from '@/lib/costing';
+import { findUnitFactor, getPurchaseUnit, getUnitFactor } from '@/lib/units';
+import { generateId } from '@/lib/utils';
+import type { PurchaseLine, PurchaseRequisition, ReorderSuggestion } from '@/types';
+
+export interface ReorderAcceptance {
+  consumable_id: string;
+  quantity: number;
+  unit_cost: number;
+  unit?: string; // Unit the quantity and cost are in, defaults to the base unit
+  vendor_id?: string;
+}
+
+// ==========================================
+// REORDER SERVICE
+// ==========================================
+
+class ReorderService {
+  private tenantId: string | null = null;
+
+  setTenant(tenantId: string): void {
+    this.tenantId = tenantId;
+  }
+
+  /**
+   * Draft reorder list for an office: every stocked consumable whose stock
+   * plus open orders has fallen to its reorder point, least cover first
+   */
+  async getPlan(officeId: string, now: Date = new Date()): Promise<ReorderSuggestion[]> {
+    if (!this.tenantId) throw new Error('Tenant ID must be set');
+
+    consumableService.setTenant(this.tenantId);
+    stockService.setTenant(this.tenantId);
+    purchaseOrderService.setTenant(this.tenantId);
+    purchaseRequisitionService.setTenant(this.tenantId);
+    vendorService.setTenant(this.tenantId);
+
+    const since = new Date(now);
+    since.setDate(since.getDate() - REORDER_LOOKBACK_DAYS);
+
+    const [consumables, stock, issues, orders, requisitions, vendors] = await Promise.all([
+      consumableService.getActive(),
+      stockService.getOfficeStock(officeId),
+      stockService.getIssuesSince(officeId, since),
+      purchaseOrderService.getAll(),
+      purchaseRequisitionService.getAll([
+        where('office_id', '==', officeId),
+        where('status', 'in', ['submitted', 'approved']),
+      ]),
+      vendorService.getAll(),
+    ]);
+
+    const leadTimes = getVendorLeadTimes(orders);
+    const vendorMap = new Map(vendors.map(v => [v.id, v]));
+    const stockMap = new Map(stock.map(s => [s.consumable_id, s.quantity ?? 0]));
+    const openOrders = orders.filter(
+      o => o.office_id === officeId && (o.status === 'issued' || o.status === 'partially_received')
+    );
+    const newestFirst = [...orders].sort((a, b) => b.created_at.seconds - a.created_at.seconds);
+
+    const suggestions: ReorderSuggestion[] = [];
+    for (const consumable of consumables) {
+      const consumableIssues = issues.filter(i => i.consumable_id === consumable.id);
+      if (!stockMap.has(consumable.id) && consumableIssues.length === 0) continue;
+
+      // Plan with the vendor and price of the last order for this item
+      const lastLine = newestFirst
+        .map(o => ({ order: o, line: o.lines.find(l => l.consumable_id === consumable.id) }))
+        .find(entry => entry.line);
+      const vendorId = lastLine?.order.vendor_id;
+
+      const onHand = stockMap.get(consumable.id) || 0;
+      const onOrder = getOnOrderQuantity([...openOrders, ...requisitions], consumable);
+      const purchaseUnit = getPurchaseUnit(consumable);
+      const purchaseFactor = getUnitFactor(consumable, purchaseUnit);
+      const lastUnitCost = lastLine?.line?.unit_cost
+        ? roundUnitCost(
+            lastLine.line.unit_cost / (findUnitFactor(consumable, lastLine.line.unit) ?? 1)
+          )
+        : 0;
+      const averageDailyUsage = getAverageDailyUsage(consumableIssues, REORDER_LOOKBACK_DAYS);
+      const leadTime = resolveLeadTime(vendorId ? vendorMap.get(vendorId) : undefined, leadTimes);
+
+      const suggestion: ReorderSuggestion = {
+        consumable_id: consumable.id,
+        office_id: officeId,
+        ...(vendorId && { vendor_id: vendorId }),
+        unit_cost: lastUnitCost,
+        purchase_unit: purchaseUnit,
+        purchase_factor: purchaseFactor,
+        on_hand: onHand,
+        on_order: onOrder,
+        average_daily_usage: averageDailyUsage,
+        days_of_cover: averageDailyUsage > 0 ? onHand / averageDailyUsage : null,
+        ...leadTime,
+        reorder_point: getReorderPoint(
+          averageDailyUsage,
+          leadTime.lead_time_days,
+          consumable.minimum_stock
+        ),
+        suggested_quantity: getSuggestedQuantity(
+          consumable,
+          averageDailyUsage,
+          leadTime.lead_time_days,
+          onHand + onOrder,
+          purchaseFactor
+        ),
+      };
+
+      if (needsReorder(suggestion) && suggestion.suggested_quantity > 0) {
+        suggestions.push(suggestion);
+      }
+    }
+
+    return suggestions.sort(
+      (a, b) => (a.days_of_cover ?? Infinity) - (b.days_of_cover ?? Infinity)
+    );
+  }
+
+  /**
+   * Accept a reviewed plan, raising one requisition per vendor so each can
+   * become a single purchase order once finance approves it
+   */
+  async acceptPlan(
+    organizationId: string,
+    officeId: string,
+    items: ReorderAcceptance[],
+    currency: string,
+    userId: string
+  ): Promise<PurchaseRequisition[]> {
+    if (!this.tenantId) throw new Error('Tenant ID must be set');
+    if (items.length === 0) {
+      throw new Error('Select at least one item to reorder');
+    }
+
+    consumableService.setTenant(this.tenantId);
+    purchaseRequisitionService.setTenant(this.tenantId);
+
+    const consumables = new Map((await consumableService.getActive()).map(c => [c.id, c]));
+
+    const byVendor = new Map<string, PurchaseLine[]>();
+    for (const item of items) {
+      const consumable = consumables.get(item.consumable_id);
+      if (!consumable) {
+        throw new Error('A selected consumable is no longer active');
+      }
+      // Throws for a unit the item cannot be received in
+      getUnitFactor(consumable, item.unit);
+
+      const key = item.vendor_id || '';
+      byVendor.set(key, [
+        ...(byVendor.get(key) || []),
+        {
+          id: generateId(),
+          item_type: 'consumable',
+          consumable_id: consumable.id,
+          description: consumable.name,
+          quantity: item.quantity,
+          unit: item.unit || consumable.unit,
+          unit_cost: item.unit_cost,
+        },
+      ]);
+    }
+
+    const requisitions: PurchaseRequisition[] = [];
+    for (const [vendorId, lines] of byVendor) {
+      requisitions.push(
+        await purchaseRequisitionService.createRequisition(
+          {
+            organization_id: organizationId,
+            office_id: officeId,
+            source: 'reorder_plan',
+            lines,
+            ...(vendorId && { vendor_id: vendorId }),
+            justification: `Reorder plan based on the last ${REORDER_LOOKBACK_DAYS} days of usage`,
+            currency,
+          },
+          userId
+        )
+      );
+    }
+
+    return requisitions;
+  }
+}
+
+// ==========================================
+// SINGLETON EXPORT
+// ==========================================
+
+export const reorderService = new ReorderService();
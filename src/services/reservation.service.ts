@@ -0,0 +1,581 @@
+/* ============================================
+   TENAXIS - Asset Reservation Service
+   Time-window bookings with reserved / in-use transitions
+   ============================================ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  where,
+  orderBy,
+  runTransaction,
+  Timestamp,
+  type Transaction,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { BaseService } from './base.service';
+import { assetService } from './asset.service';
+import { COLLECTIONS } from '@/lib/constants';
+import { formatDateTime } from '@/lib/utils';
+import {
+  BLOCKING_RESERVATION_STATUSES,
+  findReservationConflicts,
+  getDueTransition,
+  getExpiredReservations,
+  toMillis,
+} from '@/lib/reservations';
+import type {
+  Asset,
+  AssetCheckout,
+  AssetCondition,
+  AssetEvent,
+  AssetReservation,
+  AssetStatus,
+  AuditFields,
+} from '@/types';
+
+// Times a booking change is run again after a booking was added under it
+const BOOKING_ATTEMPTS = 5;
+
+// ==========================================
+// ASSET RESERVATION SERVICE
+// ==========================================
+
+class AssetReservationService extends BaseService<AssetReservation> {
+  constructor() {
+    super(COLLECTIONS.ASSET_RESERVATIONS);
+  }
+
+  private getAssetRef(assetId: string) {
+    return doc(db, 'tenants', this.tenantId!, COLLECTIONS.ASSETS, assetId);
+  }
+
+  /**
+   * Queue a lifecycle-checked status change for an asset
+   */
+  private addStatusEvent(
+    transaction: Transaction,
+    assetId: string,
+    fromStatus: AssetStatus,
+    toStatus: AssetStatus,
+    description: string,
+    reservationId: string,
+    userId: string,
+    now: Timestamp
+  ): void {
+    assetService.setTenant(this.tenantId!);
+    assetService.queueStatusChange(
+      transaction,
+      { id: assetId, status: fromStatus },
+      toStatus,
+      userId,
+      now,
+      { description, metadata: { reservation_id: reservationId } }
+    );
+  }
+
+  /**
+   * Run a change to an asset's bookings in a transaction, given the asset
+   * and its blocking reservations as they stand when it commits.
+   * Transactions cannot query, so the reservations are loaded first and
+   * each re-read inside. A booking added in between bumps the asset's
+   * reservation_version; the change then runs again on a fresh list.
+   */
+  async runWithBookings<T>(
+    assetId: string,
+    change: (
+      transaction: Transaction,
+      asset: Asset,
+      reservations: AssetReservation[]
+    ) => Promise<T>
+  ): Promise<T> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+
+    const assetRef = this.getAssetRef(assetId);
+    for (let attempt = 0; attempt < BOOKING_ATTEMPTS; attempt++) {
+      const before = await getDoc(assetRef);
+      if (!before.exists()) {
+        throw new Error('Asset not found');
+      }
+      const version = (before.data() as Asset).reservation_version ?? 0;
+      const candidates = await this.getBlockingForAsset(assetId);
+
+      const outcome = await runTransaction(db, async (transaction) => {
+        const snapshot = await transaction.get(assetRef);
+        if (!snapshot.exists()) {
+          throw new Error('Asset not found');
+        }
+        const asset = { id: snapshot.id, ...snapshot.data() } as Asset;
+        if ((asset.reservation_version ?? 0) !== version) {
+          return { stale: true as const };
+        }
+
+        const reservations: AssetReservation[] = [];
+        for (const candidate of candidates) {
+          const reservation = await transaction.get(this.getDocRef(candidate.id));
+          const current = { id: reservation.id, ...reservation.data() } as AssetReservation;
+          if (
+            reservation.exists() &&
+            (BLOCKING_RESERVATION_STATUSES as readonly string[]).includes(current.status)
+          ) {
+            reservations.push(current);
+          }
+        }
+
+        return { stale: false as const, value: await change(transaction, asset, reservations) };
+      });
+      if (!outcome.stale) return outcome.value;
+    }
+
+    throw new Error('Bookings for this asset keep changing; try again');
+  }
+
+  /**
+   * Get reservations for an asset, optionally only those ending after a date
+   */
+  async getByAsset(assetId: string, from?: Date): Promise<AssetReservation[]> {
+    return this.getAll([
+      where('asset_id', '==', assetId),
+      ...(from ? [where('end_at', '>', Timestamp.fromDate(from))] : []),
+      orderBy('end_at', 'asc'),
+    ]);
+  }
+
+  /**
+   * Get reservations in an office overlapping a date range
+   */
+  async getByOffice(officeId: string, from: Date, to: Date): Promise<AssetReservation[]> {
+    const reservations = await this.getAll([
+      where('office_id', '==', officeId),
+      where('end_at', '>', Timestamp.fromDate(from)),
+      orderBy('end_at', 'asc'),
+    ]);
+    return reservations.filter(r => toMillis(r.start_at) < to.getTime());
+  }
+
+  /**
+   * Get upcoming and current reservations for a user
+   */
+  async getByUser(userId: string): Promise<AssetReservation[]> {
+    return this.getAll([
+      where('reserved_for', '==', userId),
+      where('status', 'in', [...BLOCKING_RESERVATION_STATUSES]),
+      orderBy('start_at', 'asc'),
+    ]);
+  }
+
+  /**
+   * Get reservations that still hold a slot on an asset
+   */
+  async getBlockingForAsset(assetId: string): Promise<AssetReservation[]> {
+    return this.getAll([
+      where('asset_id', '==', assetId),
+      where('status', 'in', [...BLOCKING_RESERVATION_STATUSES]),
+    ]);
+  }
+
+  /**
+   * Book an asset for a time window. The conflict check and the booking
+   * are made in one transaction, so overlapping bookings made at the same
+   * time cannot both succeed.
+   */
+  async reserve(
+    assetId: string,
+    reservedFor: string,
+    start: Date,
+    end: Date,
+    createdBy: string,
+    purpose?: string
+  ): Promise<AssetReservation> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+    if (end.getTime() <= start.getTime()) {
+      throw new Error('Reservation must end after it starts');
+    }
+    if (end.getTime() <= Date.now()) {
+      throw new Error('Reservation must end in the future');
+    }
+
+    const reservationRef = doc(this.getCollectionRef());
+    const reservation = await this.runWithBookings(
+      assetId,
+      async (transaction, asset, reservations) => {
+        if (asset.status === 'disposed' || asset.status === 'lost') {
+          throw new Error('Asset cannot be reserved');
+        }
+        if (
+          asset.status === 'in_use' &&
+          !asset.current_checkout_id &&
+          !asset.current_reservation_id
+        ) {
+          throw new Error('Asset is assigned to a user and cannot be reserved');
+        }
+
+        // Open loans block the window until their due date
+        if (asset.current_checkout_id) {
+          const checkoutRef = doc(
+            db,
+            'tenants',
+            this.tenantId!,
+            COLLECTIONS.ASSET_CHECKOUTS,
+            asset.current_checkout_id
+          );
+          const checkout = await transaction.get(checkoutRef);
+          const returnAt = (checkout.data() as AssetCheckout | undefined)?.expected_return_at;
+          if (returnAt && toMillis(returnAt) > start.getTime()) {
+            throw new Error(`Asset is checked out until ${formatDateTime(returnAt)}`);
+          }
+        }
+
+        const conflicts = findReservationConflicts(reservations, start, end);
+        if (conflicts.length > 0) {
+          const first = conflicts[0]!;
+          throw new Error(
+            `Asset is already reserved from ${formatDateTime(first.start_at)} to ${formatDateTime(first.end_at)}`
+          );
+        }
+
+        const reservationData: Omit<AssetReservation, 'id' | keyof AuditFields> = {
+          tenant_id: this.tenantId!,
+          asset_id: assetId,
+          asset_tag: asset.asset_tag,
+          asset_name: asset.name,
+          office_id: asset.office_id,
+          status: 'booked',
+          reserved_for: reservedFor,
+          start_at: Timestamp.fromDate(start),
+          end_at: Timestamp.fromDate(end),
+        };
+        if (purpose) {
+          reservationData.purpose = purpose;
+        }
+
+        const data = this.addAuditFields(reservationData as Partial<AssetReservation>, createdBy);
+        transaction.set(reservationRef, data);
+        // Other booking changes under way see this one and run again
+        transaction.update(this.getAssetRef(assetId), {
+          reservation_version: (asset.reservation_version ?? 0) + 1,
+        });
+        return { id: reservationRef.id, ...data } as AssetReservation;
+      }
+    );
+
+    // Hold the asset straight away if the window has already started
+    if (start.getTime() <= Date.now()) {
+      await this.syncAsset(assetId, createdBy);
+    }
+
+    return reservation;
+  }
+
+  /**
+   * Hand a reserved asset over to the booking user
+   */
+  async pickUp(reservationId: string, userId: string): Promise<void> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+
+    const booked = await this.getById(reservationId);
+    if (!booked) {
+      throw new Error('Reservation is not open for pick-up');
+    }
+
+    await this.runWithBookings(booked.asset_id, async (transaction, asset, reservations) => {
+      const reservation = reservations.find(r => r.id === reservationId);
+      if (!reservation || reservation.status !== 'booked') {
+        throw new Error('Reservation is not open for pick-up');
+      }
+      if (toMillis(reservation.end_at) <= Date.now()) {
+        throw new Error('Reservation window has ended');
+      }
+
+      // Early pick-up is allowed while the asset is otherwise free
+      const heldByThis = asset.current_reservation_id === reservationId;
+      const isFree =
+        asset.status === 'available' &&
+        !asset.current_checkout_id &&
+        !asset.current_reservation_id;
+      if (!heldByThis && !isFree) {
+        throw new Error('Asset is not available for pick-up');
+      }
+
+      const now = Timestamp.now();
+      const assetRef = this.getAssetRef(asset.id);
+
+      transaction.update(this.getDocRef(reservationId), {
+        status: 'active',
+        picked_up_at: now,
+        picked_up_by: userId,
+        updated_at: now,
+        updated_by: userId,
+      });
+
+      this.addStatusEvent(
+        transaction,
+        asset.id,
+        asset.status,
+        'in_use',
+        'Reserved asset picked up',
+        reservationId,
+        userId,
+        now
+      );
+      transaction.update(assetRef, {
+        assigned_to: reservation.reserved_for,
+        assigned_at: now,
+        status: 'in_use',
+        current_reservation_id: reservationId,
+        updated_at: now,
+        updated_by: userId,
+      });
+
+      const eventData: Omit<AssetEvent, 'id'> = {
+        tenant_id: this.tenantId!,
+        asset_id: asset.id,
+        event_type: 'assigned',
+        description: 'Reserved asset picked up',
+        to_user_id: reservation.reserved_for,
+        metadata: {
+          reservation_id: reservationId,
+          end_at: reservation.end_at,
+        },
+        created_at: now,
+        created_by: userId,
+      };
+      transaction.set(doc(collection(assetRef, COLLECTIONS.ASSET_EVENTS)), eventData);
+    });
+  }
+
+  /**
+   * Return a picked-up asset, releasing it for the next booking
+   */
+  async returnAsset(
+    reservationId: string,
+    userId: string,
+    condition?: AssetCondition
+  ): Promise<void> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+
+    const active = await this.getById(reservationId);
+    if (!active) {
+      throw new Error('Reservation has not been picked up');
+    }
+
+    await this.runWithBookings(active.asset_id, async (transaction, asset, reservations) => {
+      const reservation = reservations.find(r => r.id === reservationId);
+      if (!reservation || reservation.status !== 'active') {
+        throw new Error('Reservation has not been picked up');
+      }
+
+      const now = Timestamp.now();
+      const assetRef = this.getAssetRef(asset.id);
+
+      transaction.update(this.getDocRef(reservationId), {
+        status: 'completed',
+        returned_at: now,
+        returned_by: userId,
+        updated_at: now,
+        updated_by: userId,
+      });
+
+      this.addStatusEvent(
+        transaction,
+        asset.id,
+        asset.status,
+        'available',
+        'Reserved asset returned',
+        reservationId,
+        userId,
+        now
+      );
+      transaction.update(assetRef, {
+        assigned_to: null,
+        assigned_at: null,
+        status: 'available',
+        current_reservation_id: null,
+        ...(condition ? { condition } : {}),
+        updated_at: now,
+        updated_by: userId,
+      });
+
+      const eventData: Omit<AssetEvent, 'id'> = {
+        tenant_id: this.tenantId!,
+        asset_id: asset.id,
+        event_type: 'unassigned',
+        description: 'Reserved asset returned',
+        from_user_id: reservation.reserved_for,
+        metadata: {
+          reservation_id: reservationId,
+          end_at: reservation.end_at,
+          overdue: reservation.end_at.seconds < now.seconds,
+          ...(condition ? { condition } : {}),
+        },
+        created_at: now,
+        created_by: userId,
+      };
+      transaction.set(doc(collection(assetRef, COLLECTIONS.ASSET_EVENTS)), eventData);
+    });
+
+    // The next booking may already be due
+    await this.syncAsset(active.asset_id, userId);
+  }
+
+  /**
+   * Cancel a booking that has not been picked up
+   */
+  async cancel(reservationId: string, userId: string, reason?: string): Promise<void> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+
+    const booked = await this.getById(reservationId);
+    if (!booked) {
+      throw new Error('Only booked reservations can be cancelled');
+    }
+
+    const wasHolding = await this.runWithBookings(
+      booked.asset_id,
+      async (transaction, asset, reservations) => {
+        const reservation = reservations.find(r => r.id === reservationId);
+        if (!reservation || reservation.status !== 'booked') {
+          throw new Error('Only booked reservations can be cancelled');
+        }
+
+        const now = Timestamp.now();
+        transaction.update(this.getDocRef(reservationId), {
+          status: 'cancelled',
+          cancelled_at: now,
+          cancelled_by: userId,
+          ...(reason ? { cancel_reason: reason } : {}),
+          updated_at: now,
+          updated_by: userId,
+        });
+        return asset.current_reservation_id === reservationId;
+      }
+    );
+
+    // Release the hold if the window had already started
+    if (wasHolding) {
+      await this.syncAsset(booked.asset_id, userId);
+    }
+  }
+
+  /**
+   * Apply due reservation transitions to one asset: expire unclaimed
+   * bookings, release the asset when its hold ends and hold it for the
+   * next window that has started. Returns true if anything changed.
+   */
+  async syncAsset(assetId: string, userId: string): Promise<boolean> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+
+    assetService.setTenant(this.tenantId);
+    if (!(await assetService.getById(assetId))) {
+      return false;
+    }
+
+    return this.runWithBookings(assetId, async (transaction, asset, reservations) => {
+      const now = Timestamp.now();
+      const nowDate = now.toDate();
+      let changed = false;
+
+      for (const expired of getExpiredReservations(reservations, nowDate)) {
+        expired.status = 'no_show';
+        transaction.update(this.getDocRef(expired.id), {
+          status: 'no_show',
+          updated_at: now,
+          updated_by: userId,
+        });
+        changed = true;
+      }
+
+      const current: Pick<Asset, 'status' | 'current_checkout_id' | 'current_reservation_id'> = {
+        status: asset.status,
+        current_checkout_id: asset.current_checkout_id,
+        current_reservation_id: asset.current_reservation_id,
+      };
+      let transition = getDueTransition(current, reservations, nowDate);
+
+      while (transition) {
+        if (transition.action === 'release') {
+          this.addStatusEvent(
+            transaction,
+            assetId,
+            current.status,
+            'available',
+            'Reservation hold released',
+            transition.reservation_id,
+            userId,
+            now
+          );
+          current.status = 'available';
+          current.current_reservation_id = undefined;
+        } else {
+          this.addStatusEvent(
+            transaction,
+            assetId,
+            current.status,
+            'reserved',
+            'Reservation window started',
+            transition.reservation_id,
+            userId,
+            now
+          );
+          current.status = 'reserved';
+          current.current_reservation_id = transition.reservation_id;
+        }
+        changed = true;
+        transition = getDueTransition(current, reservations, nowDate);
+      }
+
+      if (
+        current.status !== asset.status ||
+        current.current_reservation_id !== asset.current_reservation_id
+      ) {
+        transaction.update(this.getAssetRef(assetId), {
+          status: current.status,
+          current_reservation_id: current.current_reservation_id ?? null,
+          updated_at: now,
+          updated_by: userId,
+        });
+      }
+
+      return changed;
+    });
+  }
+
+  /**
+   * Apply due reservation transitions to every asset with a started
+   * booking in an office. Returns the number of assets updated.
+   */
+  async syncOffice(officeId: string, userId: string): Promise<number> {
+    const started = await this.getAll([
+      where('office_id', '==', officeId),
+      where('status', '==', 'booked'),
+      where('start_at', '<=', Timestamp.now()),
+    ]);
+
+    const assetIds = [...new Set(started.map(r => r.asset_id))];
+    let updated = 0;
+    for (const assetId of assetIds) {
+      if (await this.syncAsset(assetId, userId)) {
+        updated++;
+      }
+    }
+    return updated;
+  }
+}
+
+// ==========================================
+// SINGLETON EXPORT
+// ==========================================
+
+export const assetReservationService = new AssetReservationService();
@@ -0,0 +1,76 @@
+/* ============================================
+   TENAXIS - Scheduled Job Service
+   Tenant-wide background jobs run by whichever client gets there first
+   ============================================ */
+
+import { runTransaction, updateDoc, Timestamp } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { BaseService } from './base.service';
+import {
+  COLLECTIONS,
+  SCHEDULED_JOB_INTERVALS,
+  SCHEDULED_JOB_LEASE_MINUTES,
+} from '@/lib/constants';
+import { isJobDue } from '@/lib/scheduled-jobs';
+import type { ScheduledJob, ScheduledJobId } from '@/types';
+
+// ==========================================
+// SCHEDULED JOB SERVICE
+// ==========================================
+
+class ScheduledJobService extends BaseService<ScheduledJob> {
+  constructor() {
+    super(COLLECTIONS.SCHEDULED_JOBS);
+  }
+
+  /**
+   * Run a job if it is due for the tenant. There is no backend scheduler,
+   * so jobs only run while someone has the app open; the job record is
+   * claimed in a transaction so that, of all the clients open at the time,
+   * only one runs each job per interval. Returns whether this client ran it.
+   */
+  async runIfDue(
+    jobId: ScheduledJobId,
+    userId: string,
+    job: () => Promise<unknown>
+  ): Promise<boolean> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+
+    const jobRef = this.getDocRef(jobId);
+    const claimed = await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(jobRef);
+      const current = snapshot.exists() ? (snapshot.data() as ScheduledJob) : null;
+      if (
+        !isJobDue(current, SCHEDULED_JOB_INTERVALS[jobId], SCHEDULED_JOB_LEASE_MINUTES, new Date())
+      ) {
+        return false;
+      }
+
+      transaction.set(
+        jobRef,
+        {
+          id: jobId,
+          tenant_id: this.tenantId,
+          last_started_at: Timestamp.now(),
+          last_started_by: userId,
+        },
+        { merge: true }
+      );
+      return true;
+    });
+    if (!claimed) return false;
+
+    // A failed run is not marked complete, so it is retried once its lease lapses
+    await job();
+    await updateDoc(jobRef, { last_completed_at: Timestamp.now() });
+    return true;
+  }
+}
+
+// ==========================================
+// SINGLETON EXPORT
+// ==========================================
+
+export const scheduledJobService = new ScheduledJobService();
@@ -0,0 +1,97 @@
+/* ============================================
+   TENAXIS - SLA Service
+   Response and resolution targets for maintenance tickets
+   ============================================ */
+
+import { where, orderBy, updateDoc } from 'firebase/firestore';
+import { BaseService } from './base.service';
+import { COLLECTIONS } from '@/lib/constants';
+import type { AuditFields, SlaPolicy } from '@/types';
+
+export type SlaPolicyInput = Pick<
+  SlaPolicy,
+  'name' | 'priority' | 'type' | 'response_hours' | 'resolution_hours' | 'business_hours_only'
+>;
+
+// ==========================================
+// SLA POLICY SERVICE
+// ==========================================
+
+class SlaPolicyService extends BaseService<SlaPolicy> {
+  constructor() {
+    super(COLLECTIONS.SLA_POLICIES);
+  }
+
+  /**
+   * Get active policies
+   */
+  async getActive(): Promise<SlaPolicy[]> {
+    return this.getAll([
+      where('status', '==', 'active'),
+      orderBy('name', 'asc'),
+    ]);
+  }
+
+  /**
+   * Create a policy for a priority, optionally narrowed to one ticket type
+   */
+  async createPolicy(data: SlaPolicyInput, userId: string): Promise<SlaPolicy> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+    await this.assertValidPolicy(data);
+
+    const policyData: Omit<SlaPolicy, 'id' | keyof AuditFields> = {
+      tenant_id: this.tenantId,
+      name: data.name.trim(),
+      priority: data.priority,
+      response_hours: data.response_hours,
+      resolution_hours: data.resolution_hours,
+      business_hours_only: data.business_hours_only,
+      status: 'active',
+      ...(data.type && { type: data.type }),
+    };
+
+    return this.create(policyData as Omit<SlaPolicy, 'id'>, userId);
+  }
+
+  /**
+   * Change a policy's targets. Tickets already raised keep the deadlines
+   * they were given.
+   */
+  async updatePolicy(id: string, data: SlaPolicyInput, userId: string): Promise<void> {
+    await this.assertValidPolicy(data, id);
+
+    const { type, ...rest } = data;
+    await updateDoc(this.getDocRef(id), {
+      ...this.addAuditFields({ ...rest, name: data.name.trim() }, userId, false),
+      type: type || null,
+    });
+  }
+
+  private async assertValidPolicy(data: SlaPolicyInput, id?: string): Promise<void> {
+    if (!data.name.trim()) {
+      throw new Error('Give the policy a name');
+    }
+    if (!(data.response_hours > 0) || !(data.resolution_hours > 0)) {
+      throw new Error('Response and resolution targets must be more than zero hours');
+    }
+    if (data.resolution_hours < data.response_hours) {
+      throw new Error('The resolution target cannot be shorter than the response target');
+    }
+
+    // One policy per priority and type, so the one that applies is never ambiguous
+    const clash = (await this.getActive()).find(
+      p => p.id !== id && p.priority === data.priority && (p.type || null) === (data.type || null)
+    );
+    if (clash) {
+      throw new Error(`${clash.name} already covers these tickets`);
+    }
+  }
+}
+
+// ==========================================
+// SINGLETON EXPORT
+// ==========================================
+
+export const slaPolicyService = new SlaPolicyService();
@@ -0,0 +1,478 @@
+/* ============================================
+   TENAXIS - Stock Request Service
+   Staff requests for consumables, approval and fulfilment
+   ============================================ */
+
+import {
+  doc,
+  where,
+  orderBy,
+  runTransaction,
+  writeBatch,
+  Timestamp,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { BaseService } from './base.service';
+import { consumableService, stockService } from './consumable.service';
+import { notificationService } from './notification.service';
+import { officeService } from './organization.service';
+import { userService } from './user.service';
+import { COLLECTIONS } from '@/lib/constants';
+import { hasPermission, MODULES } from '@/lib/permissions';
+import {
+  assertValidRequestLines,
+  FULFILLABLE_STATUSES,
+  getFulfilmentStatus,
+  getUnissuedQuantity,
+} from '@/lib/stock-requests';
+import { generateId, generateTicketNumber } from '@/lib/utils';
+import type {
+  AuditFields,
+  StockRequest,
+  StockRequestEvent,
+  StockRequestLine,
+} from '@/types';
+
+export interface StockRequestInput {
+  // Quantities are in the line's unit, or the base unit when none is given
+  lines: Pick<StockRequestLine, 'consumable_id' | 'quantity' | 'unit'>[];
+  reason?: string;
+}
+
+// ==========================================
+// STOCK REQUEST SERVICE
+// ==========================================
+
+class StockRequestService extends BaseService<StockRequest> {
+  constructor() {
+    super(COLLECTIONS.STOCK_REQUESTS);
+  }
+
+  /**
+   * Get a user's own requests, newest first
+   */
+  async getByRequester(userId: string): Promise<StockRequest[]> {
+    return this.getAll([
+      where('requested_by', '==', userId),
+      orderBy('created_at', 'desc'),
+    ]);
+  }
+
+  /**
+   * Get requests to be fulfilled from an office, newest first
+   */
+  async getByOffice(officeId: string): Promise<StockRequest[]> {
+    return this.getAll([
+      where('office_id', '==', officeId),
+      orderBy('created_at', 'desc'),
+    ]);
+  }
+
+  /**
+   * Ask for consumables from the requester's primary office. The office
+   * manager is notified that a request is waiting.
+   */
+  async submit(input: StockRequestInput, userId: string): Promise<StockRequest> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+    assertValidRequestLines(input.lines);
+
+    userService.setTenant(this.tenantId);
+    officeService.setTenant(this.tenantId);
+    notificationService.setTenant(this.tenantId);
+    consumableService.setTenant(this.tenantId);
+
+    const [requester, lines] = await Promise.all([
+      userService.getById(userId),
+      consumableService.toBaseUnitEntries(input.lines),
+    ]);
+    if (!requester?.primary_office_id) {
+      throw new Error('Set a primary office on your profile before requesting stock');
+    }
+    const office = await officeService.getById(requester.primary_office_id);
+
+    const now = Timestamp.now();
+    const requestData: Omit<StockRequest, 'id' | keyof AuditFields> = {
+      tenant_id: this.tenantId,
+      request_number: generateTicketNumber('SR'),
+      office_id: requester.primary_office_id,
+      requested_by: userId,
+      status: 'submitted',
+      lines: lines.map(line => ({
+        id: generateId(),
+        consumable_id: line.consumable_id,
+        quantity: line.quantity,
+        ...(line.unit && { unit: line.unit, unit_quantity: line.unit_quantity }),
+      })),
+      ...(input.reason?.trim() && { reason: input.reason.trim() }),
+      history: [{ status: 'submitted', at: now, by: userId }],
+    };
+
+    const requestRef = doc(this.getCollectionRef());
+    const data = this.addAuditFields(requestData as Partial<StockRequest>, userId);
+    const batch = writeBatch(db);
+    batch.set(requestRef, data);
+
+    if (office?.manager_id && office.manager_id !== userId) {
+      notificationService.queue(
+        batch,
+        {
+          user_id: office.manager_id,
+          type: 'info',
+          title: `Stock request ${requestData.request_number} needs approval`,
+          message:
+            `${requester.display_name} asked for ` +
+            `${requestData.lines.length === 1 ? '1 item' : `${requestData.lines.length} items`} ` +
+            `from ${office.name}.`,
+          action_url: `/stock-requests/${requestRef.id}`,
+          action_label: 'Review request',
+        },
+        now
+      );
+    }
+
+    await batch.commit();
+    return { id: requestRef.id, ...data } as StockRequest;
+  }
+
+  /**
+   * Approve a submitted request. Approvers may approve less than was asked
+   * for on any line, down to zero; rejecting every line needs a rejection.
+   */
+  async approve(
+    requestId: string,
+    approvedQuantities: Record<string, number>,
+    userId: string,
+    notes?: string
+  ): Promise<void> {
+    await this.decide(requestId, userId, notes, (request) => {
+      const lines = request.lines.map(line => {
+        const approved = approvedQuantities[line.id] ?? line.quantity;
+        if (!Number.isInteger(approved) || approved < 0 || approved > line.quantity) {
+          throw new Error('Approved quantities must be between zero and the quantity requested');
+        }
+        return { ...line, approved_quantity: approved };
+      });
+      if (lines.every(line => line.approved_quantity === 0)) {
+        throw new Error('Approve at least one item, or reject the request');
+      }
+
+      const reduced = lines.some(line => line.approved_quantity! < line.quantity);
+      return {
+        status: 'approved',
+        lines,
+        notification: {
+          type: 'success',
+          title: `Stock request ${request.request_number} approved`,
+          message: reduced
+            ? 'Your request was approved with reduced quantities. It will be issued from stock shortly.'
+            : 'Your request was approved. It will be issued from stock shortly.',
+        },
+      };
+    });
+  }
+
+  /**
+   * Reject a submitted request with a reason
+   */
+  async reject(requestId: string, userId: string, notes: string): Promise<void> {
+    if (!notes.trim()) {
+      throw new Error('Give a reason for rejecting the request');
+    }
+
+    await this.decide(requestId, userId, notes, (request) => ({
+      status: 'rejected',
+      lines: request.lines,
+      notification: {
+        type: 'warning',
+        title: `Stock request ${request.request_number} rejected`,
+        message: `Your request was rejected: ${notes.trim()}`,
+      },
+    }));
+  }
+
+  /**
+   * Issue approved stock to the requester. Lines can be fulfilled over
+   * several rounds, e.g. when the office is short. Each round issues all
+   * its lines in one stock transaction keyed on what the request had issued
+   * before, so a retry replays the original movements instead of issuing twice.
+   */
+  async fulfil(
+    requestId: string,
+    quantities: Record<string, number>,
+    userId: string
+  ): Promise<StockRequest> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+    const request = await this.getById(requestId);
+    if (!request) {
+      throw new Error('Stock request not found');
+    }
+    await this.assertApprover(userId, request.office_id);
+    if (!FULFILLABLE_STATUSES.includes(request.status)) {
+      throw new Error('Only approved requests can be fulfilled');
+    }
+
+    const toIssue = request.lines
+      .map(line => ({ line, quantity: quantities[line.id] ?? 0 }))
+      .filter(entry => entry.quantity !== 0);
+    if (toIssue.length === 0) {
+      throw new Error('Enter a quantity to issue for at least one item');
+    }
+    for (const { line, quantity } of toIssue) {
+      if (!Number.isInteger(quantity) || quantity < 0 || quantity > getUnissuedQuantity(line)) {
+        throw new Error('Issue quantities cannot exceed what is approved and not yet issued');
+      }
+    }
+
+    // Either every line of the round is issued or none is. A replayed round
+    // reports the quantities that actually moved, which are what get recorded.
+    stockService.setTenant(this.tenantId);
+    const issuedBefore = request.lines.reduce((sum, line) => sum + (line.issued_quantity ?? 0), 0);
+    const movements = await stockService.issueKit(
+      request.office_id,
+      toIssue.map(({ line, quantity }) => ({ consumable_id: line.consumable_id, quantity })),
+      request.requested_by,
+      userId,
+      `Stock request ${request.request_number}`,
+      {
+        referenceNumber: request.request_number,
+        idempotencyKey: `${request.id}-${issuedBefore}`,
+      }
+    );
+    const issued = new Map<string, { quantity: number; transactionId: string }>();
+    for (const movement of movements) {
+      const line = request.lines.find(l => l.consumable_id === movement.consumable_id);
+      if (line) issued.set(line.id, { quantity: movement.quantity, transactionId: movement.id });
+    }
+
+    notificationService.setTenant(this.tenantId);
+    const requestRef = this.getDocRef(requestId);
+    const now = Timestamp.now();
+
+    return runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(requestRef);
+      if (!snapshot.exists()) {
+        throw new Error('Stock request not found');
+      }
+
+      // The request may have been cancelled or closed while the stock moved
+      const current = { id: snapshot.id, ...snapshot.data() } as StockRequest;
+      if (!FULFILLABLE_STATUSES.includes(current.status)) {
+        throw new Error('Stock request is no longer open for fulfilment');
+      }
+
+      // An issue already counted (e.g. by an overlapping retry) is not added again
+      const lines = current.lines.map(line => {
+        const entry = issued.get(line.id);
+        if (!entry || line.stock_transaction_ids?.includes(entry.transactionId)) return line;
+        return {
+          ...line,
+          issued_quantity: (line.issued_quantity ?? 0) + entry.quantity,
+          stock_transaction_ids: [...(line.stock_transaction_ids || []), entry.transactionId],
+        };
+      });
+      const status = getFulfilmentStatus(lines);
+      const event: StockRequestEvent = {
+        status,
+        at: now,
+        by: userId,
+        notes: `Issued ${[...issued.values()].reduce((sum, e) => sum + e.quantity, 0)} units`,
+      };
+
+      const changes = {
+        lines,
+        status,
+        history: [...current.history, event],
+        updated_at: now,
+        updated_by: userId,
+      };
+      transaction.update(requestRef, changes);
+
+      notificationService.queue(
+        transaction,
+        {
+          user_id: current.requested_by,
+          type: 'success',
+          title:
+            status === 'fulfilled'
+              ? `Stock request ${current.request_number} fulfilled`
+              : `Stock request ${current.request_number} partly issued`,
+          message:
+            status === 'fulfilled'
+              ? 'Everything approved on your request has been issued to you.'
+              : 'Part of your request has been issued; the rest will follow when stock allows.',
+          action_url: `/stock-requests/${current.id}`,
+          action_label: 'View request',
+        },
+        now
+      );
+
+      return { ...current, ...changes };
+    });
+  }
+
+  /**
+   * Cancel a request. Requesters may withdraw their own request until
+   * anything is issued; approvers may also close out what remains of a
+   * partially fulfilled request.
+   */
+  async cancel(requestId: string, userId: string, notes?: string): Promise<void> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+
+    const existing = await this.getById(requestId);
+    if (!existing) {
+      throw new Error('Stock request not found');
+    }
+    const isApprover = await this.canApprove(userId, existing.office_id);
+
+    const requestRef = this.getDocRef(requestId);
+    const now = Timestamp.now();
+
+    await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(requestRef);
+      if (!snapshot.exists()) {
+        throw new Error('Stock request not found');
+      }
+
+      const request = { id: snapshot.id, ...snapshot.data() } as StockRequest;
+      const cancellable = isApprover
+        ? ['submitted', ...FULFILLABLE_STATUSES].includes(request.status)
+        : request.requested_by === userId && ['submitted', 'approved'].includes(request.status);
+      if (!cancellable) {
+        throw new Error('This request can no longer be cancelled');
+      }
+
+      transaction.update(requestRef, {
+        status: 'cancelled',
+        history: [
+          ...request.history,
+          {
+            status: 'cancelled',
+            at: now,
+            by: userId,
+            ...(notes?.trim() && { notes: notes.trim() }),
+          },
+        ],
+        updated_at: now,
+        updated_by: userId,
+      });
+    });
+  }
+
+  /**
+   * Whether the user's role may approve stock requests and their scope
+   * covers the office the request is fulfilled from: the office is theirs
+   * to access, their primary office, or one they manage
+   */
+  private async canApprove(userId: string, officeId: string): Promise<boolean> {
+    userService.setTenant(this.tenantId!);
+    officeService.setTenant(this.tenantId!);
+    const [approver, office] = await Promise.all([
+      userService.getById(userId),
+      officeService.getById(officeId),
+    ]);
+    if (!approver || !hasPermission(approver.role, MODULES.STOCK_REQUESTS, 'approve')) {
+      return false;
+    }
+
+    return (
+      userService.hasOfficeAccess(approver, officeId) ||
+      approver.primary_office_id === officeId ||
+      office?.manager_id === userId
+    );
+  }
+
+  /**
+   * Throw unless the user may approve stock requests for the office
+   */
+  private async assertApprover(userId: string, officeId: string): Promise<void> {
+    if (!(await this.canApprove(userId, officeId))) {
+      throw new Error('You are not allowed to approve stock requests for this office');
+    }
+  }
+
+  /**
+   * Record an approval decision on a submitted request and tell the
+   * requester. Nobody decides on their own request.
+   */
+  private async decide(
+    requestId: string,
+    userId: string,
+    notes: string | undefined,
+    apply: (request: StockRequest) => {
+      status: 'approved' | 'rejected';
+      lines: StockRequestLine[];
+      notification: { type: 'success' | 'warning'; title: string; message: string };
+    }
+  ): Promise<void> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+    const existing = await this.getById(requestId);
+    if (!existing) {
+      throw new Error('Stock request not found');
+    }
+    await this.assertApprover(userId, existing.office_id);
+
+    notificationService.setTenant(this.tenantId);
+    const requestRef = this.getDocRef(requestId);
+    const now = Timestamp.now();
+
+    await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(requestRef);
+      if (!snapshot.exists()) {
+        throw new Error('Stock request not found');
+      }
+
+      const request = { id: snapshot.id, ...snapshot.data() } as StockRequest;
+      if (request.status !== 'submitted') {
+        throw new Error('Only requests awaiting approval can be decided');
+      }
+      if (request.requested_by === userId) {
+        throw new Error('You cannot approve your own request');
+      }
+
+      const decision = apply(request);
+      transaction.update(requestRef, {
+        status: decision.status,
+        lines: decision.lines,
+        history: [
+          ...request.history,
+          {
+            status: decision.status,
+            at: now,
+            by: userId,
+            ...(notes?.trim() && { notes: notes.trim() }),
+          },
+        ],
+        decided_by: userId,
+        decided_at: now,
+        ...(notes?.trim() && { decision_notes: notes.trim() }),
+        updated_at: now,
+        updated_by: userId,
+      });
+
+      notificationService.queue(
+        transaction,
+        {
+          user_id: request.requested_by,
+          ...decision.notification,
+          action_url: `/stock-requests/${request.id}`,
+          action_label: 'View request',
+        },
+        now
+      );
+    });
+  }
+}
+
+// ==========================================
+// SINGLETON EXPORT
+// ==========================================
+
+export const stockRequestService = new StockRequestService();
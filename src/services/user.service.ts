@@ -13,6 +13,7 @@ import {
 } from 'firebase/firestore';
 import { BaseService } from './base.service';
 import { COLLECTIONS } from '@/lib/constants';
+import { normalizeSkills } from '@/lib/assignment';
 import type { User, UserRole } from '@/types';
 
 // ==========================================
@@ -178,6 +179,13 @@ class UserService extends BaseService<User> {
     await this.update(userId, { accessible_offices: officeIds }, updatedBy);
   }
 
+  /**
+   * Update the skill tags a technician is matched to tickets by
+   */
+  async updateSkills(userId: string, skills: string[], updatedBy: string): Promise<void> {
+    await this.update(userId, { skills: normalizeSkills(skills) }, updatedBy);
+  }
+
   /**
    * Update user company access
    */
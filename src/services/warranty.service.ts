@@ -0,0 +1,398 @@
+/* ============================================
+   TENAXIS - Warranty Service
+   Warranties, service contracts, claims and expiry alerts
+   ============================================ */
+
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  increment,
+  runTransaction,
+  Timestamp,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { BaseService } from './base.service';
+import { notificationService } from './notification.service';
+import { COLLECTIONS, WARRANTY_ALERT_DAYS } from '@/lib/constants';
+import { formatDate, generateTicketNumber } from '@/lib/utils';
+import {
+  canTransitionClaim,
+  getDaysUntil,
+  getDueWarrantyAlert,
+  isContractCovering,
+} from '@/lib/warranties';
+import type {
+  AuditFields,
+  MaintenanceTicket,
+  WarrantyClaim,
+  WarrantyClaimStatus,
+  WarrantyContract,
+} from '@/types';
+
+export type WarrantyContractInput = Omit<
+  WarrantyContract,
+  | 'id'
+  | 'tenant_id'
+  | 'contract_number'
+  | 'status'
+  | 'alerts_sent'
+  | 'claim_count'
+  | 'cancelled_at'
+  | 'cancelled_by'
+  | keyof AuditFields
+> & { contract_number?: string };
+
+export interface WarrantyClaimInput {
+  description: string;
+  claimed_amount?: number;
+  vendor_reference?: string;
+}
+
+export interface WarrantyClaimUpdate {
+  vendor_reference?: string;
+  recovered_amount?: number;
+  resolution_notes?: string;
+}
+
+// ==========================================
+// WARRANTY SERVICE
+// ==========================================
+
+class WarrantyService extends BaseService<WarrantyContract> {
+  constructor() {
+    super(COLLECTIONS.WARRANTY_CONTRACTS);
+  }
+
+  private getClaimsRef(contractId: string) {
+    return collection(this.getDocRef(contractId), COLLECTIONS.WARRANTY_CLAIMS);
+  }
+
+  /**
+   * Get contracts covering an asset, latest expiry first
+   */
+  async getByAsset(assetId: string): Promise<WarrantyContract[]> {
+    return this.getAll([
+      where('asset_ids', 'array-contains', assetId),
+      orderBy('end_date', 'desc'),
+    ]);
+  }
+
+  /**
+   * Get contracts held with a vendor
+   */
+  async getByVendor(vendorId: string): Promise<WarrantyContract[]> {
+    return this.getAll([
+      where('vendor_id', '==', vendorId),
+      orderBy('end_date', 'desc'),
+    ]);
+  }
+
+  /**
+   * Get active contracts ending within the given number of days
+   */
+  async getExpiring(daysAhead: number = 30): Promise<WarrantyContract[]> {
+    const futureDate = new Date();
+    futureDate.setDate(futureDate.getDate() + daysAhead);
+
+    return this.getAll([
+      where('status', '==', 'active'),
+      where('end_date', '>=', Timestamp.now()),
+      where('end_date', '<=', Timestamp.fromDate(futureDate)),
+      orderBy('end_date', 'asc'),
+    ]);
+  }
+
+  /**
+   * Get contracts that cover an asset right now
+   */
+  async getCoverage(assetId: string, at: Date = new Date()): Promise<WarrantyContract[]> {
+    const contracts = await this.getByAsset(assetId);
+    return contracts.filter(c => isContractCovering(c, at));
+  }
+
+  /**
+   * Create a warranty or service contract
+   */
+  async createContract(data: WarrantyContractInput, userId: string): Promise<WarrantyContract> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+    this.assertTerm(data.start_date, data.end_date);
+    if (data.asset_ids.length === 0) {
+      throw new Error('Select at least one asset');
+    }
+
+    const contractData: Omit<WarrantyContract, 'id' | keyof AuditFields> = {
+      ...data,
+      tenant_id: this.tenantId,
+      contract_number: data.contract_number?.trim() || generateTicketNumber('WTY'),
+      asset_ids: [...new Set(data.asset_ids)],
+      status: 'active',
+      alerts_sent: [],
+      claim_count: 0,
+    };
+
+    return this.create(contractData as Omit<WarrantyContract, 'id'>, userId);
+  }
+
+  /**
+   * Update a contract. Moving the end date (a renewal or correction)
+   * re-arms the expiry alerts.
+   */
+  async updateContract(
+    contractId: string,
+    data: Partial<WarrantyContractInput>,
+    userId: string
+  ): Promise<void> {
+    const contract = await this.getById(contractId);
+    if (!contract) {
+      throw new Error('Contract not found');
+    }
+    if (contract.status === 'cancelled') {
+      throw new Error('Cancelled contracts cannot be changed');
+    }
+    if (data.asset_ids && data.asset_ids.length === 0) {
+      throw new Error('Select at least one asset');
+    }
+
+    const startDate = data.start_date || contract.start_date;
+    const endDate = data.end_date || contract.end_date;
+    this.assertTerm(startDate, endDate);
+
+    const changes: Partial<WarrantyContract> = { ...data };
+    if (data.asset_ids) {
+      changes.asset_ids = [...new Set(data.asset_ids)];
+    }
+    if (endDate.seconds !== contract.end_date.seconds) {
+      changes.alerts_sent = [];
+    }
+
+    await this.update(contractId, changes, userId);
+  }
+
+  /**
+   * Cancel a contract. Claims already filed keep their history.
+   */
+  async cancelContract(contractId: string, userId: string): Promise<void> {
+    await this.update(
+      contractId,
+      { status: 'cancelled', cancelled_at: Timestamp.now(), cancelled_by: userId },
+      userId
+    );
+  }
+
+  /**
+   * Get the claim history for a contract, newest first
+   */
+  async getClaims(contractId: string): Promise<WarrantyClaim[]> {
+    const snapshot = await getDocs(
+      query(this.getClaimsRef(contractId), orderBy('created_at', 'desc'))
+    );
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as WarrantyClaim);
+  }
+
+  /**
+   * File a warranty claim for a maintenance ticket. The ticket is linked to
+   * the claim and, if it has no vendor yet, handed to the contract's vendor.
+   */
+  async fileClaim(
+    contractId: string,
+    ticketId: string,
+    input: WarrantyClaimInput,
+    userId: string
+  ): Promise<WarrantyClaim> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+    if (!input.description.trim()) {
+      throw new Error('Describe the fault being claimed');
+    }
+
+    const contractRef = this.getDocRef(contractId);
+    const ticketRef = doc(db, 'tenants', this.tenantId, COLLECTIONS.MAINTENANCE, ticketId);
+    const claimRef = doc(this.getClaimsRef(contractId));
+    const now = Timestamp.now();
+
+    return runTransaction(db, async (transaction) => {
+      const [contractSnap, ticketSnap] = await Promise.all([
+        transaction.get(contractRef),
+        transaction.get(ticketRef),
+      ]);
+      if (!contractSnap.exists()) {
+        throw new Error('Contract not found');
+      }
+      if (!ticketSnap.exists()) {
+        throw new Error('Ticket not found');
+      }
+
+      const contract = { id: contractSnap.id, ...contractSnap.data() } as WarrantyContract;
+      const ticket = { id: ticketSnap.id, ...ticketSnap.data() } as MaintenanceTicket;
+
+      if (ticket.warranty_claim_id) {
+        throw new Error('A warranty claim has already been filed for this ticket');
+      }
+      if (ticket.status === 'cancelled') {
+        throw new Error('Cancelled tickets cannot be claimed');
+      }
+      if (!ticket.asset_id || !contract.asset_ids.includes(ticket.asset_id)) {
+        throw new Error('The ticket asset is not covered by this contract');
+      }
+      if (!isContractCovering(contract, now.toDate())) {
+        throw new Error('The contract is not in force');
+      }
+
+      const claim: Omit<WarrantyClaim, 'id'> = {
+        tenant_id: this.tenantId!,
+        contract_id: contractId,
+        claim_number: generateTicketNumber('WCL'),
+        description: input.description.trim(),
+        status: 'submitted',
+        asset_id: ticket.asset_id,
+        ticket_id: ticket.id,
+        ticket_number: ticket.ticket_number,
+        ...(input.vendor_reference && { vendor_reference: input.vendor_reference }),
+        ...(input.claimed_amount !== undefined && { claimed_amount: input.claimed_amount }),
+        created_at: now,
+        created_by: userId,
+        updated_at: now,
+        updated_by: userId,
+      };
+      transaction.set(claimRef, claim);
+
+      transaction.update(contractRef, {
+        claim_count: increment(1),
+        updated_at: now,
+        updated_by: userId,
+      });
+
+      transaction.update(ticketRef, {
+        warranty_contract_id: contractId,
+        warranty_claim_id: claimRef.id,
+        ...(!ticket.vendor_id && contract.vendor_id && { vendor_id: contract.vendor_id }),
+        ...(input.vendor_reference && !ticket.vendor_reference && {
+          vendor_reference: input.vendor_reference,
+        }),
+        updated_at: now,
+        updated_by: userId,
+      });
+
+      return { id: claimRef.id, ...claim };
+    });
+  }
+
+  /**
+   * Move a claim along as the vendor handles it
+   */
+  async updateClaimStatus(
+    contractId: string,
+    claimId: string,
+    status: WarrantyClaimStatus,
+    userId: string,
+    details: WarrantyClaimUpdate = {}
+  ): Promise<void> {
+    const claimRef = doc(this.getClaimsRef(contractId), claimId);
+    const now = Timestamp.now();
+
+    await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(claimRef);
+      if (!snapshot.exists()) {
+        throw new Error('Claim not found');
+      }
+
+      const claim = snapshot.data() as WarrantyClaim;
+      if (!canTransitionClaim(claim.status, status)) {
+        throw new Error(`Claim cannot change from ${claim.status} to ${status}`);
+      }
+
+      const isFinal = status === 'resolved' || status === 'rejected';
+      transaction.update(claimRef, {
+        status,
+        ...(details.vendor_reference && { vendor_reference: details.vendor_reference }),
+        ...(details.recovered_amount !== undefined && {
+          recovered_amount: details.recovered_amount,
+        }),
+        ...(details.resolution_notes && { resolution_notes: details.resolution_notes }),
+        ...(isFinal && { resolved_at: now, resolved_by: userId }),
+        updated_at: now,
+        updated_by: userId,
+      });
+    });
+  }
+
+  /**
+   * Notify contract owners of upcoming expiries at 90, 30 and 7 days.
+   *
+   * There is no backend scheduler, so this runs when users open the app.
+   * Each contract records the thresholds it has already alerted on and is
+   * re-checked in a transaction, so overlapping runs never send twice.
+   */
+  async generateExpiryAlerts(now: Date = new Date()): Promise<number> {
+    if (!this.tenantId) {
+      throw new Error('Tenant ID must be set');
+    }
+
+    const candidates = (await this.getExpiring(Math.max(...WARRANTY_ALERT_DAYS))).filter(
+      c => getDueWarrantyAlert(getDaysUntil(c.end_date, now), c.alerts_sent) !== null
+    );
+
+    notificationService.setTenant(this.tenantId);
+    let sent = 0;
+
+    for (const candidate of candidates) {
+      const contractRef = this.getDocRef(candidate.id);
+      const wasSent = await runTransaction(db, async (transaction) => {
+        const snapshot = await transaction.get(contractRef);
+        if (!snapshot.exists()) return false;
+
+        const contract = { id: snapshot.id, ...snapshot.data() } as WarrantyContract;
+        if (contract.status !== 'active') return false;
+
+        const daysLeft = getDaysUntil(contract.end_date, now);
+        const alert = getDueWarrantyAlert(daysLeft, contract.alerts_sent);
+        if (!alert) return false;
+
+        const timestamp = Timestamp.fromDate(now);
+        notificationService.queue(
+          transaction,
+          {
+            user_id: contract.owner_id || contract.created_by,
+            type: alert.threshold <= 7 ? 'error' : 'warning',
+            title: `${contract.name} expires in ${daysLeft === 1 ? '1 day' : `${daysLeft} days`}`,
+            message:
+              `Contract ${contract.contract_number} covering ` +
+              `${contract.asset_ids.length === 1 ? '1 asset' : `${contract.asset_ids.length} assets`} ` +
+              `ends on ${formatDate(contract.end_date)}. Renew it or plan for the coverage gap.`,
+            action_url: `/assets/warranties/${contract.id}`,
+            action_label: 'View contract',
+          },
+          timestamp
+        );
+
+        transaction.update(contractRef, {
+          alerts_sent: [...new Set([...(contract.alerts_sent || []), ...alert.covered])],
+        });
+        return true;
+      });
+
+      if (wasSent) sent++;
+    }
+
+    return sent;
+  }
+
+  private assertTerm(startDate: WarrantyContract['start_date'], endDate: WarrantyContract['end_date']) {
+    if (endDate.seconds <= startDate.seconds) {
+      throw new Error('Contract must end after it starts');
+    }
+  }
+}
+
+// ==========================================
+// SINGLETON EXPORT
+// ==========================================
+
+export const warrantyService = new WarrantyService();
@@ -5,9 +5,36 @@
 
 import { defineStore } from 'pinia';
 import { ref, computed } from 'vue';
-import { assetService, assetCategoryService, auditLogService } from '@/services';
+import {
+  assetService,
+  assetCategoryService,
+  customFieldService,
+  depreciationSnapshotService,
+  assetCheckoutService,
+  assetReservationService,
+  assetAttachmentService,
+  auditLogService,
+  tenantService,
+} from '@/services';
 import { useAuthStore } from './auth.store';
-import type { Asset, AssetCategory, AssetEvent, AssetStatus, QueryParams } from '@/types';
+import { buildAssetTree } from '@/lib/bundles';
+import { assertTransition } from '@/lib/asset-lifecycle';
+import type {
+  Asset,
+  AssetCategory,
+  AssetCheckout,
+  AssetCondition,
+  AssetDocumentCategory,
+  AssetEvent,
+  AssetReservation,
+  AssetStatus,
+  AssetTreeNode,
+  AuditFields,
+  CustomFieldDefinition,
+  DepreciationSchedule,
+  DepreciationSnapshot,
+  QueryParams,
+} from '@/types';
 
 export const useAssetStore = defineStore('assets', () => {
   // ==========================================
@@ -16,8 +43,15 @@ export const useAssetStore = defineStore('assets', () => {
 
   const assets = ref<Asset[]>([]);
   const categories = ref<AssetCategory[]>([]);
+  const customFields = ref<CustomFieldDefinition[]>([]);
   const currentAsset = ref<Asset | null>(null);
   const assetEvents = ref<AssetEvent[]>([]);
+  const depreciationSchedule = ref<DepreciationSchedule | null>(null);
+  const depreciationSnapshots = ref<DepreciationSnapshot[]>([]);
+  const activeCheckout = ref<AssetCheckout | null>(null);
+  const overdueCheckouts = ref<AssetCheckout[]>([]);
+  const assetReservations = ref<AssetReservation[]>([]);
+  const assetBundle = ref<AssetTreeNode | null>(null);
   const isLoading = ref(false);
   const error = ref<string | null>(null);
 
@@ -37,6 +71,8 @@ export const useAssetStore = defineStore('assets', () => {
     hasMore: false,
   });
 
+  const authStore = useAuthStore();
+
   // ==========================================
   // GETTERS
   // ==========================================
@@ -72,18 +108,34 @@ export const useAssetStore = defineStore('assets', () => {
     categories.value.map(c => ({ value: c.id, label: c.name }))
   );
 
+  const customFieldsEnabled = computed(() =>
+    !!authStore.currentTenant?.settings?.features?.custom_fields
+  );
+
+  // Active custom fields flagged for the asset list
+  const listCustomFields = computed(() =>
+    customFieldsEnabled.value ? customFields.value.filter(f => f.show_in_list) : []
+  );
+
+  const fiscalYearStart = computed(() =>
+    authStore.currentOrganization?.settings?.fiscal_year_start || 1
+  );
+
   // ==========================================
   // ACTIONS
   // ==========================================
 
-  const authStore = useAuthStore();
-
   /**
    * Initialize store with tenant context
    */
   function initialize(tenantId: string): void {
     assetService.setTenant(tenantId);
     assetCategoryService.setTenant(tenantId);
+    customFieldService.setTenant(tenantId);
+    depreciationSnapshotService.setTenant(tenantId);
+    assetCheckoutService.setTenant(tenantId);
+    assetReservationService.setTenant(tenantId);
+    assetAttachmentService.setTenant(tenantId);
   }
 
   /**
@@ -139,6 +191,9 @@ export const useAssetStore = defineStore('assets', () => {
       
       if (asset) {
         assetEvents.value = await assetService.getEvents(assetId);
+        activeCheckout.value = asset.current_checkout_id
+          ? await assetCheckoutService.getById(asset.current_checkout_id)
+          : null;
       }
       
       return asset;
@@ -150,6 +205,28 @@ export const useAssetStore = defineStore('assets', () => {
     }
   }
 
+  /**
+   * Resolve a scanned asset tag to an asset
+   */
+  async function fetchByTag(assetTag: string): Promise<Asset | null> {
+    isLoading.value = true;
+    error.value = null;
+
+    try {
+      const asset = await assetService.getByTag(assetTag);
+      currentAsset.value = asset;
+      if (!asset) {
+        error.value = `No asset found with tag ${assetTag}`;
+      }
+      return asset;
+    } catch (err: any) {
+      error.value = err.message || 'Failed to look up asset';
+      return null;
+    } finally {
+      isLoading.value = false;
+    }
+  }
+
   /**
    * Fetch asset categories
    */
@@ -161,6 +238,115 @@ export const useAssetStore = defineStore('assets', () => {
     }
   }
 
+  /**
+   * Fetch active custom field definitions
+   */
+  async function fetchCustomFields(): Promise<void> {
+    try {
+      customFields.value = await customFieldService.getActive();
+    } catch (err: any) {
+      console.error('Fetch custom fields error:', err);
+    }
+  }
+
+  /**
+   * Create a custom field definition
+   */
+  async function createCustomField(
+    data: Omit<CustomFieldDefinition, 'id' | 'tenant_id' | keyof AuditFields>
+  ): Promise<boolean> {
+    error.value = null;
+
+    try {
+      const definition = await customFieldService.createDefinition(
+        { ...data, tenant_id: authStore.tenantId! },
+        authStore.userId!
+      );
+      customFields.value = [...customFields.value, definition].sort((a, b) =>
+        a.label.localeCompare(b.label)
+      );
+      return true;
+    } catch (err: any) {
+      error.value = err.message || 'Failed to create custom field';
+      return false;
+    }
+  }
+
+  /**
+   * Update a custom field definition
+   */
+  async function updateCustomField(
+    id: string,
+    data: Partial<Omit<CustomFieldDefinition, 'id' | 'key' | 'type'>>
+  ): Promise<boolean> {
+    error.value = null;
+
+    try {
+      await customFieldService.updateDefinition(id, data, authStore.userId!);
+      if (data.status === 'inactive') {
+        customFields.value = customFields.value.filter(f => f.id !== id);
+      } else {
+        const index = customFields.value.findIndex(f => f.id === id);
+        if (index !== -1) {
+          customFields.value[index] = { ...customFields.value[index]!, ...data };
+        }
+      }
+      return true;
+    } catch (err: any) {
+      error.value = err.message || 'Failed to update custom field';
+      return false;
+    }
+  }
+
+  /**
+   * Turn the custom fields feature on or off for the tenant
+   */
+  async function setCustomFieldsEnabled(enabled: boolean): Promise<boolean> {
+    const tenant = authStore.currentTenant;
+    if (!tenant) return false;
+
+    error.value = null;
+
+    try {
+      const settings = {
+        ...tenant.settings,
+        features: { ...tenant.settings.features, custom_fields: enabled },
+      };
+      await tenantService.update(tenant.id, { settings });
+      authStore.currentTenant = { ...tenant, settings };
+      return true;
+    } catch (err: any) {
+      error.value = err.message || 'Failed to update tenant settings';
+      return false;
+    }
+  }
+
+  /**
+   * Set which custom fields a category uses
+   */
+  async function setCategoryCustomFields(
+    categoryId: string,
+    fieldIds: string[]
+  ): Promise<boolean> {
+    error.value = null;
+
+    try {
+      await assetCategoryService.update(
+        categoryId,
+        { custom_field_ids: fieldIds },
+        authStore.userId!
+      );
+      const category = categories.value.find(c => c.id === categoryId);
+      if (category) {
+        category.custom_field_ids = fieldIds;
+      }
+      return true;
+    } catch (err: any) {
+      error.value = err.message || 'Failed to update category fields';
+      return false;
+    }
+  }
+
   /**
    * Create new asset
    */
@@ -208,7 +394,13 @@ export const useAssetStore = defineStore('assets', () => {
 
     try {
       const userId = authStore.userId!;
-      const oldAsset = assets.value.find(a => a.id === assetId);
+      const oldAsset = assets.value.find(a => a.id === assetId)
+        || (currentAsset.value?.id === assetId ? currentAsset.value : undefined);
+
+      // Reject disallowed status changes before they reach the service
+      if (data.status && oldAsset) {
+        assertTransition(oldAsset.status, data.status, authStore.isAdmin);
+      }
       
       await assetService.update(assetId, data, userId);
 
@@ -252,6 +444,48 @@ export const useAssetStore = defineStore('assets', () => {
     }
   }
 
+  /**
+   * Move an asset to another lifecycle status
+   */
+  async function changeAssetStatus(
+    assetId: string,
+    status: AssetStatus,
+    reason?: string
+  ): Promise<boolean> {
+    isLoading.value = true;
+    error.value = null;
+
+    try {
+      const asset = currentAsset.value?.id === assetId
+        ? currentAsset.value
+        : assets.value.find(a => a.id === assetId);
+      if (asset) {
+        assertTransition(asset.status, status, authStore.isAdmin);
+      }
+
+      await assetService.changeStatus(assetId, status, authStore.userId!, reason);
+
+      const updated = await assetService.getById(assetId);
+      if (updated) {
+        const index = assets.value.findIndex(a => a.id === assetId);
+        if (index !== -1) {
+          assets.value[index] = updated;
+        }
+        if (currentAsset.value?.id === assetId) {
+          currentAsset.value = updated;
+          assetEvents.value = await assetService.getEvents(assetId);
+        }
+      }
+
+      return true;
+    } catch (err: any) {
+      error.value = err.message || 'Failed to change asset status';
+      return false;
+    } finally {
+      isLoading.value = false;
+    }
+  }
+
   /**
    * Assign asset to user
    */
@@ -262,6 +496,7 @@ export const useAssetStore = defineStore('assets', () => {
     try {
       const assignedBy = authStore.userId!;
       await assetService.assignToUser(assetId, userId, assignedBy);
+      await syncBundleMembers(assetId);
 
       // Update local state
       const index = assets.value.findIndex(a => a.id === assetId);
@@ -290,6 +525,7 @@ export const useAssetStore = defineStore('assets', () => {
     try {
       const unassignedBy = authStore.userId!;
       await assetService.unassign(assetId, unassignedBy);
+      await syncBundleMembers(assetId);
 
       // Update local state
       const index = assets.value.findIndex(a => a.id === assetId);
@@ -322,6 +558,7 @@ export const useAssetStore = defineStore('assets', () => {
     try {
       const transferredBy = authStore.userId!;
       await assetService.transferToOffice(assetId, toOfficeId, transferredBy, notes);
+      await syncBundleMembers(assetId);
 
       // Update local state
       const index = assets.value.findIndex(a => a.id === assetId);
@@ -355,6 +592,7 @@ export const useAssetStore = defineStore('assets', () => {
     try {
       const disposedBy = authStore.userId!;
       await assetService.dispose(assetId, reason, disposalValue, disposedBy);
+      await syncBundleMembers(assetId);
 
       // Update local state
       const index = assets.value.findIndex(a => a.id === assetId);
@@ -371,6 +609,448 @@ export const useAssetStore = defineStore('assets', () => {
     }
   }
 
+  /**
+   * Reload the components of an asset after a change cascaded to them
+   */
+  async function syncBundleMembers(assetId: string): Promise<void> {
+    const components = await assetService.getDescendants(assetId);
+    for (const component of components) {
+      const index = assets.value.findIndex(a => a.id === component.id);
+      if (index !== -1) {
+        assets.value[index] = component;
+      }
+    }
+    if (currentAsset.value && assetBundle.value) {
+      await fetchBundle(currentAsset.value.id);
+    }
+  }
+
+  /**
+   * Load the bundle tree an asset belongs to, from its top-level asset
+   */
+  async function fetchBundle(assetId: string): Promise<void> {
+    try {
+      const asset = await assetService.getById(assetId);
+      if (!asset) {
+        assetBundle.value = null;
+        return;
+      }
+      const root = await assetService.getBundleRoot(asset);
+      const components = await assetService.getDescendants(root.id);
+      assetBundle.value = buildAssetTree(root, components);
+    } catch (err: any) {
+      console.error('Fetch bundle error:', err);
+    }
+  }
+
+  /**
+   * Add an asset to a bundle as a component
+   */
+  async function attachComponent(parentId: string, componentId: string): Promise<boolean> {
+    isLoading.value = true;
+    error.value = null;
+
+    try {
+      await assetService.attachComponent(parentId, componentId, authStore.userId!);
+      if (currentAsset.value) {
+        await fetchBundle(currentAsset.value.id);
+      }
+      return true;
+    } catch (err: any) {
+      error.value = err.message || 'Failed to attach component';
+      return false;
+    } finally {
+      isLoading.value = false;
+    }
+  }
+
+  /**
+   * Remove a component from its bundle
+   */
+  async function detachComponent(componentId: string): Promise<boolean> {
+    isLoading.value = true;
+    error.value = null;
+
+    try {
+      await assetService.detachComponent(componentId, authStore.userId!);
+      if (currentAsset.value) {
+        await fetchBundle(currentAsset.value.id);
+      }
+      return true;
+    } catch (err: any) {
+      error.value = err.message || 'Failed to detach component';
+      return false;
+    } finally {
+      isLoading.value = false;
+    }
+  }
+
+  /**
+   * Check out asset to a user for a loan period
+   */
+  async function checkOutAsset(
+    assetId: string,
+    userId: string,
+    expectedReturnAt: Date,
+    condition: AssetCondition,
+    notes?: string
+  ): Promise<boolean> {
+    isLoading.value = true;
+    error.value = null;
+
+    try {
+      const checkout = await assetCheckoutService.checkOut(
+        assetId,
+        userId,
+        expectedReturnAt,
+        condition,
+        authStore.userId!,
+        notes
+      );
+
+      // Update local state
+      const index = assets.value.findIndex(a => a.id === assetId);
+      if (index !== -1 && assets.value[index]) {
+        const asset = assets.value[index];
+        asset.assigned_to = userId;
+        asset.status = 'in_use';
+        asset.condition = condition;
+        asset.current_checkout_id = checkout.id;
+      }
+
+      if (currentAsset.value?.id === assetId) {
+        activeCheckout.value = checkout;
+      }
+
+      return true;
+    } catch (err: any) {
+      error.value = err.message || 'Failed to check out asset';
+      return false;
+    } finally {
+      isLoading.value = false;
+    }
+  }
+
+  /**
+   * Check in a checked-out asset
+   */
+  async function checkInAsset(
+    checkoutId: string,
+    condition: AssetCondition,
+    notes?: string
+  ): Promise<boolean> {
+    isLoading.value = true;
+    error.value = null;
+
+    try {
+      await assetCheckoutService.checkIn(checkoutId, condition, authStore.userId!, notes);
+
+      // Update local state
+      const asset = assets.value.find(a => a.current_checkout_id === checkoutId);
+      if (asset) {
+        asset.assigned_to = undefined;
+        asset.status = 'available';
+        asset.condition = condition;
+        asset.current_checkout_id = undefined;
+      }
+
+      if (activeCheckout.value?.id === checkoutId) {
+        activeCheckout.value = null;
+      }
+      overdueCheckouts.value = overdueCheckouts.value.filter(c => c.id !== checkoutId);
+
+      return true;
+    } catch (err: any) {
+      error.value = err.message || 'Failed to check in asset';
+      return false;
+    } finally {
+      isLoading.value = false;
+    }
+  }
+
+  /**
+   * Fetch overdue checkouts, optionally for one office
+   */
+  async function fetchOverdueCheckouts(officeId?: string): Promise<void> {
+    try {
+      overdueCheckouts.value = await assetCheckoutService.getOverdue(officeId);
+    } catch (err: any) {
+      console.error('Fetch overdue checkouts error:', err);
+    }
+  }
+
+  /**
+   * Refresh an asset's status and reservations after a reservation change
+   */
+  async function refreshReservations(assetId: string): Promise<void> {
+    const asset = await assetService.getById(assetId);
+    if (!asset) return;
+
+    const index = assets.value.findIndex(a => a.id === assetId);
+    if (index !== -1) {
+      assets.value[index] = asset;
+    }
+    if (currentAsset.value?.id === assetId) {
+      currentAsset.value = asset;
+      assetReservations.value = await assetReservationService.getByAsset(assetId);
+    }
+  }
+
+  /**
+   * Apply due reservation transitions and load reservations for an asset
+   */
+  async function fetchReservations(assetId: string): Promise<void> {
+    try {
+      if (await assetReservationService.syncAsset(assetId, authStore.userId!)) {
+        await refreshReservations(assetId);
+      }
+      assetReservations.value = await assetReservationService.getByAsset(assetId);
+    } catch (err: any) {
+      console.error('Fetch reservations error:', err);
+    }
+  }
+
+  /**
+   * Book an asset for a time window
+   */
+  async function reserveAsset(
+    assetId: string,
+    reservedFor: string,
+    start: Date,
+    end: Date,
+    purpose?: string
+  ): Promise<boolean> {
+    isLoading.value = true;
+    error.value = null;
+
+    try {
+      await assetReservationService.reserve(
+        assetId,
+        reservedFor,
+        start,
+        end,
+        authStore.userId!,
+        purpose
+      );
+      await refreshReservations(assetId);
+      return true;
+    } catch (err: any) {
+      error.value = err.message || 'Failed to reserve asset';
+      return false;
+    } finally {
+      isLoading.value = false;
+    }
+  }
+
+  /**
+   * Hand a reserved asset over to the booking user
+   */
+  async function pickUpReservation(reservation: AssetReservation): Promise<boolean> {
+    isLoading.value = true;
+    error.value = null;
+
+    try {
+      await assetReservationService.pickUp(reservation.id, authStore.userId!);
+      await refreshReservations(reservation.asset_id);
+      return true;
+    } catch (err: any) {
+      error.value = err.message || 'Failed to pick up reservation';
+      return false;
+    } finally {
+      isLoading.value = false;
+    }
+  }
+
+  /**
+   * Return a picked-up reserved asset
+   */
+  async function returnReservation(
+    reservation: AssetReservation,
+    condition?: AssetCondition
+  ): Promise<boolean> {
+    isLoading.value = true;
+    error.value = null;
+
+    try {
+      await assetReservationService.returnAsset(reservation.id, authStore.userId!, condition);
+      await refreshReservations(reservation.asset_id);
+      return true;
+    } catch (err: any) {
+      error.value = err.message || 'Failed to return reservation';
+      return false;
+    } finally {
+      isLoading.value = false;
+    }
+  }
+
+  /**
+   * Cancel a booked reservation
+   */
+  async function cancelReservation(
+    reservation: AssetReservation,
+    reason?: string
+  ): Promise<boolean> {
+    isLoading.value = true;
+    error.value = null;
+
+    try {
+      await assetReservationService.cancel(reservation.id, authStore.userId!, reason);
+      await refreshReservations(reservation.asset_id);
+      return true;
+    } catch (err: any) {
+      error.value = err.message || 'Failed to cancel reservation';
+      return false;
+    } finally {
+      isLoading.value = false;
+    }
+  }
+
+  /**
+   * Reload an asset and its audit trail after an attachment change
+   */
+  async function refreshDocuments(assetId: string): Promise<void> {
+    const asset = await assetService.getById(assetId);
+    if (!asset) return;
+
+    const index = assets.value.findIndex(a => a.id === assetId);
+    if (index !== -1) {
+      assets.value[index] = asset;
+    }
+    if (currentAsset.value?.id === assetId) {
+      currentAsset.value = asset;
+      assetEvents.value = await assetService.getEvents(assetId);
+    }
+  }
+
+  /**
+   * Upload a document or photo to an asset
+   */
+  async function uploadDocument(
+    assetId: string,
+    file: File,
+    category: AssetDocumentCategory,
+    onProgress?: (percent: number) => void
+  ): Promise<boolean> {
+    error.value = null;
+
+    try {
+      await assetAttachmentService.upload(assetId, file, category, authStore.userId!, {
+        onProgress,
+      });
+      await refreshDocuments(assetId);
+      return true;
+    } catch (err: any) {
+      error.value = err.message || 'Failed to upload file';
+      return false;
+    }
+  }
+
+  /**
+   * Upload a new version of an asset document
+   */
+  async function uploadDocumentVersion(
+    assetId: string,
+    documentId: string,
+    file: File,
+    onProgress?: (percent: number) => void
+  ): Promise<boolean> {
+    error.value = null;
+
+    try {
+      await assetAttachmentService.uploadVersion(assetId, documentId, file, authStore.userId!, {
+        onProgress,
+      });
+      await refreshDocuments(assetId);
+      return true;
+    } catch (err: any) {
+      error.value = err.message || 'Failed to upload new version';
+      return false;
+    }
+  }
+
+  /**
+   * Delete an asset document with all of its versions
+   */
+  async function deleteDocument(assetId: string, documentId: string): Promise<boolean> {
+    error.value = null;
+
+    try {
+      await assetAttachmentService.remove(assetId, documentId, authStore.userId!);
+      await refreshDocuments(assetId);
+      return true;
+    } catch (err: any) {
+      error.value = err.message || 'Failed to delete document';
+      return false;
+    }
+  }
+
+  /**
+   * Fetch depreciation schedule for an asset
+   */
+  async function fetchDepreciationSchedule(
+    assetId: string
+  ): Promise<DepreciationSchedule | null> {
+    try {
+      depreciationSchedule.value = await assetService.getDepreciationSchedule(
+        assetId,
+        fiscalYearStart.value
+      );
+      return depreciationSchedule.value;
+    } catch (err: any) {
+      console.error('Fetch depreciation schedule error:', err);
+      depreciationSchedule.value = null;
+      return null;
+    }
+  }
+
+  /**
+   * Fetch the closed depreciation periods of a fiscal year
+   */
+  async function fetchDepreciationSnapshots(
+    fiscalYear: number
+  ): Promise<DepreciationSnapshot[]> {
+    isLoading.value = true;
+    error.value = null;
+
+    try {
+      depreciationSnapshots.value = await depreciationSnapshotService.getByFiscalYear(
+        authStore.organizationId!,
+        fiscalYear
+      );
+      return depreciationSnapshots.value;
+    } catch (err: any) {
+      error.value = err.message || 'Failed to fetch closed periods';
+      depreciationSnapshots.value = [];
+      return [];
+    } finally {
+      isLoading.value = false;
+    }
+  }
+
+  /**
+   * Close a depreciation period (YYYY-MM) for the current organization
+   */
+  async function closeDepreciationPeriod(
+    period: string
+  ): Promise<DepreciationSnapshot | null> {
+    isLoading.value = true;
+    error.value = null;
+
+    try {
+      return await depreciationSnapshotService.closePeriod(
+        authStore.organizationId!,
+        period,
+        fiscalYearStart.value,
+        authStore.userId!
+      );
+    } catch (err: any) {
+      error.value = err.message || 'Failed to close depreciation period';
+      return null;
+    } finally {
+      isLoading.value = false;
+    }
+  }
+
   /**
    * Search assets
    */
@@ -428,8 +1108,15 @@ export const useAssetStore = defineStore('assets', () => {
   function $reset(): void {
     assets.value = [];
     categories.value = [];
+    customFields.value = [];
     currentAsset.value = null;
     assetEvents.value = [];
+    depreciationSchedule.value = null;
+    depreciationSnapshots.value = [];
+    activeCheckout.value = null;
+    overdueCheckouts.value = [];
+    assetReservations.value = [];
+    assetBundle.value = null;
     isLoading.value = false;
     error.value = null;
     filters.value = {};
@@ -449,8 +1136,15 @@ export const useAssetStore = defineStore('assets', () => {
     // State
     assets,
     categories,
+    customFields,
     currentAsset,
     assetEvents,
+    depreciationSchedule,
+    depreciationSnapshots,
+    activeCheckout,
+    overdueCheckouts,
+    assetReservations,
+    assetBundle,
     isLoading,
     error,
     filters,
@@ -462,19 +1156,46 @@ export const useAssetStore = defineStore('assets', () => {
     availableAssets,
     assetsInUse,
     categoryOptions,
+    customFieldsEnabled,
+    listCustomFields,
+    fiscalYearStart,
 
     // Actions
     initialize,
     fetchAssets,
     fetchByOffice,
     fetchAsset,
+    fetchByTag,
     fetchCategories,
+    fetchCustomFields,
+    createCustomField,
+    updateCustomField,
+    setCustomFieldsEnabled,
+    setCategoryCustomFields,
     createAsset,
     updateAsset,
+    changeAssetStatus,
     assignAsset,
     unassignAsset,
     transferAsset,
     disposeAsset,
+    checkOutAsset,
+    checkInAsset,
+    fetchOverdueCheckouts,
+    fetchReservations,
+    reserveAsset,
+    pickUpReservation,
+    returnReservation,
+    cancelReservation,
+    fetchBundle,
+    attachComponent,
+    detachComponent,
+    uploadDocument,
+    uploadDocumentVersion,
+    deleteDocument,
+    fetchDepreciationSchedule,
+    fetchDepreciationSnapshots,
+    closeDepreciationPeriod,
     searchAssets,
     getStatistics,
     setFilters,
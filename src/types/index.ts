@@ -40,6 +40,8 @@ export interface TenantSettings {
   date_format: string;
   logo_url?: string;
   primary_color?: string;
+  costing_method?: CostingMethod;
+  cycle_count_tolerance?: CycleCountTolerance;
   features: {
     multi_company: boolean;
     advanced_reporting: boolean;
@@ -91,6 +93,8 @@ export interface Office extends AuditFields {
   address: Address;
   contact?: ContactInfo;
   manager_id?: string;
+  business_hours?: BusinessHours; // SLA clocks count these; tenant default when unset
+  assignment?: OfficeAssignmentSettings; // Least loaded, without auto-assignment, when unset
 }
 
 export interface Department extends AuditFields {
@@ -163,6 +167,7 @@ export interface User extends AuditFields {
   employee_id?: string;
   department_name?: string | null;
   profile_completed?: boolean;
+  skills?: string[]; // Lower-case tags matched against tickets' required skills
   
   // Auth
   auth_uid?: string;
@@ -208,6 +213,11 @@ export type AssetCondition =
   | 'fair'
   | 'poor';
 
+export type DepreciationMethod = 
+  | 'straight_line'
+  | 'declining_balance'
+  | 'sum_of_years';
+
 export interface AssetCategory extends AuditFields {
   id: string;
   tenant_id: string;
@@ -216,8 +226,11 @@ export interface AssetCategory extends AuditFields {
   description?: string;
   parent_id?: string;
   icon?: string;
-  depreciation_rate?: number;
+  depreciation_method?: DepreciationMethod;
+  depreciation_rate?: number; // Annual % (declining balance)
   useful_life_months?: number;
+  salvage_value_percent?: number;
+  custom_field_ids?: string[]; // Custom field definitions shown for this category
   status: 'active' | 'inactive';
 }
 
@@ -247,6 +260,12 @@ export interface Asset extends AuditFields {
   // Assignment
   assigned_to?: string; // User ID
   assigned_at?: Timestamp;
+  current_checkout_id?: string;
+  current_reservation_id?: string; // Reservation holding the asset (reserved / in use)
+  reservation_version?: number; // Bumped with each new booking, so booking checks see every one
+  
+  // Bundle
+  parent_asset_id?: string; // Bundle this asset is a component of
   
   // Financial
   purchase_date?: Timestamp;
@@ -265,23 +284,44 @@ export interface Asset extends AuditFields {
   disposal_reason?: string;
   disposal_value?: number;
   
-  // Custom fields
-  custom_fields?: Record<string, unknown>;
+  // Custom fields, keyed by CustomFieldDefinition.key
+  custom_fields?: Record<string, CustomFieldValue>;
+  
+  // Meter reading for usage-based maintenance
+  usage_hours?: number;
+  usage_hours_recorded_at?: Timestamp;
   
   // Media
   images?: string[];
   documents?: AssetDocument[];
 }
 
-export interface AssetDocument {
-  id: string;
+export type AssetDocumentCategory = 
+  | 'invoice'
+  | 'warranty'
+  | 'photo'
+  | 'manual'
+  | 'other';
+
+export interface AssetDocumentVersion {
+  version: number;
   name: string;
   url: string;
-  type: string;
+  type: string; // MIME type
+  size: number; // bytes
+  storage_path: string;
+  thumbnail_url?: string; // images only
+  thumbnail_path?: string;
   uploaded_at: Timestamp;
   uploaded_by: string;
 }
 
+export interface AssetDocument extends AssetDocumentVersion {
+  id: string;
+  category: AssetDocumentCategory;
+  previous_versions?: AssetDocumentVersion[]; // oldest first
+}
+
 export type AssetEventType = 
   | 'created'
   | 'updated'
@@ -292,7 +332,16 @@ export type AssetEventType =
   | 'maintenance_completed'
   | 'disposed'
   | 'condition_changed'
-  | 'status_changed';
+  | 'status_changed'
+  | 'document_added'
+  | 'document_removed'
+  | 'component_attached'
+  | 'component_detached';
+
+export interface AssetTreeNode {
+  asset: Asset;
+  children: AssetTreeNode[];
+}
 
 export interface AssetEvent {
   id: string;
@@ -314,6 +363,239 @@ export interface AssetEvent {
   created_by: string;
 }
 
+// ==========================================
+// ASSET LABELS
+// ==========================================
+
+export type LabelSymbology = 'qr' | 'code128';
+
+export interface LabelStock {
+  id: string;
+  name: string;
+  page_width_mm: number;
+  page_height_mm: number;
+  columns: number;
+  rows: number;
+  label_width_mm: number;
+  label_height_mm: number;
+  margin_top_mm: number;
+  margin_left_mm: number;
+  gap_x_mm: number;
+  gap_y_mm: number;
+}
+
+export interface LabelOptions {
+  symbology: LabelSymbology;
+  payload: 'tag' | 'url'; // QR only; Code128 always encodes the tag
+  base_url?: string;
+  title?: string; // Printed above the tag, defaults to the asset name
+  show_name: boolean;
+}
+
+// ==========================================
+// CUSTOM FIELDS
+// ==========================================
+
+export type CustomFieldType = 
+  | 'text'
+  | 'number'
+  | 'date'
+  | 'select'
+  | 'user';
+
+// Dates are stored as YYYY-MM-DD, user references as user IDs
+export type CustomFieldValue = string | number;
+
+export interface CustomFieldDefinition extends AuditFields {
+  id: string;
+  tenant_id: string;
+  key: string; // Stable key in Asset.custom_fields
+  label: string;
+  type: CustomFieldType;
+  description?: string;
+  required: boolean;
+  options?: string[]; // select only
+  min?: number; // number only
+  max?: number; // number only
+  show_in_list: boolean;
+  status: 'active' | 'inactive';
+}
+
+// ==========================================
+// CHECK-OUT / CHECK-IN
+// ==========================================
+
+export type AssetCheckoutStatus = 'checked_out' | 'returned';
+
+export interface AssetCheckout extends AuditFields {
+  id: string;
+  tenant_id: string;
+  asset_id: string;
+  asset_tag: string;
+  office_id: string;
+  status: AssetCheckoutStatus;
+  
+  // Check-out
+  checked_out_to: string; // User ID
+  checked_out_at: Timestamp;
+  checked_out_by: string;
+  expected_return_at: Timestamp;
+  condition_out: AssetCondition;
+  notes_out?: string;
+  
+  // Check-in
+  returned_at?: Timestamp;
+  returned_by?: string;
+  condition_in?: AssetCondition;
+  notes_in?: string;
+}
+
+// ==========================================
+// RESERVATIONS
+// ==========================================
+
+export type AssetReservationStatus = 
+  | 'booked'
+  | 'active'
+  | 'completed'
+  | 'cancelled'
+  | 'no_show';
+
+export interface AssetReservation extends AuditFields {
+  id: string;
+  tenant_id: string;
+  asset_id: string;
+  asset_tag: string;
+  asset_name: string;
+  office_id: string;
+  status: AssetReservationStatus;
+  
+  // Booking
+  reserved_for: string; // User ID
+  start_at: Timestamp;
+  end_at: Timestamp;
+  purpose?: string;
+  
+  // Pick-up / return
+  picked_up_at?: Timestamp;
+  picked_up_by?: string;
+  returned_at?: Timestamp;
+  returned_by?: string;
+  
+  // Cancellation
+  cancelled_at?: Timestamp;
+  cancelled_by?: string;
+  cancel_reason?: string;
+}
+
+// ==========================================
+// INVENTORY AUDITS (STOCK-TAKE)
+// ==========================================
+
+export type InventoryAuditStatus = 'in_progress' | 'closed' | 'cancelled';
+
+export type InventoryAuditResult = 
+  | 'pending'
+  | 'found'
+  | 'missing'
+  | 'unexpected';
+
+export interface InventoryAudit extends AuditFields {
+  id: string;
+  tenant_id: string;
+  organization_id: string;
+  office_id: string;
+  audit_number: string;
+  name?: string;
+  status: InventoryAuditStatus;
+  
+  started_at: Timestamp;
+  closed_at?: Timestamp;
+  closed_by?: string;
+  
+  // Populated on close
+  summary?: InventoryAuditSummary;
+  marked_lost?: string[]; // Asset IDs
+}
+
+export interface InventoryAuditSummary {
+  expected: number;
+  found: number;
+  missing: number;
+  unexpected: number;
+}
+
+export interface InventoryAuditItem {
+  id: string; // Asset tag
+  audit_id: string;
+  asset_id?: string; // Absent for unknown tags
+  asset_tag: string;
+  name?: string;
+  expected: boolean;
+  result: InventoryAuditResult;
+  registered_office_id?: string; // For unexpected assets
+  scanned_at?: Timestamp;
+  scanned_by?: string;
+  notes?: string;
+}
+
+export interface InventoryAuditReport {
+  audit: InventoryAudit;
+  summary: InventoryAuditSummary;
+  missing: InventoryAuditItem[];
+  unexpected: InventoryAuditItem[];
+}
+
+// ==========================================
+// DEPRECIATION
+// ==========================================
+
+export interface DepreciationPeriod {
+  period: string; // YYYY-MM
+  fiscal_year: number;
+  opening_value: number;
+  depreciation: number;
+  accumulated_depreciation: number;
+  closing_value: number;
+}
+
+export interface DepreciationSchedule {
+  asset_id: string;
+  method: DepreciationMethod;
+  cost: number;
+  salvage_value: number;
+  useful_life_months: number;
+  start_period: string; // YYYY-MM
+  periods: DepreciationPeriod[];
+}
+
+export interface DepreciationSnapshotLine {
+  asset_id: string;
+  asset_tag: string;
+  category_id: string;
+  office_id: string;
+  method: DepreciationMethod;
+  cost: number;
+  accumulated_depreciation: number;
+  period_depreciation: number;
+  fiscal_year_depreciation: number;
+  net_book_value: number;
+}
+
+export interface DepreciationSnapshot extends AuditFields {
+  id: string;
+  tenant_id: string;
+  organization_id: string;
+  period: string; // YYYY-MM being closed
+  fiscal_year: number;
+  fiscal_year_start: number;
+  lines: DepreciationSnapshotLine[];
+  total_cost: number;
+  total_accumulated_depreciation: number;
+  total_period_depreciation: number;
+  total_net_book_value: number;
+}
+
 // ==========================================
 // CONSUMABLES & STOCK
 // ==========================================
@@ -342,11 +624,14 @@ export interface Consumable extends AuditFields {
   // Details
   brand?: string;
   model?: string;
-  unit: string; // e.g., 'pcs', 'box', 'pack'
+  unit: string; // Base unit stock is held and recorded in, e.g. 'pcs'
+  unit_conversions?: ConsumableUnitConversion[];
+  purchase_unit?: string; // Unit bought in, defaults to the base unit
   
   // Stock settings
   minimum_stock: number;
   reorder_quantity?: number;
+  track_lots?: boolean; // Receipts must name a lot, issued first-expiry-first-out
   
   // Status
   status: 'active' | 'discontinued';
@@ -355,14 +640,66 @@ export interface Consumable extends AuditFields {
   image_url?: string;
 }
 
+export interface ConsumableUnitConversion {
+  unit: string; // e.g. 'box'
+  factor: number; // Base units in one of this unit, e.g. 12
+}
+
+export interface ConsumableKitComponent {
+  consumable_id: string;
+  quantity: number; // In the consumable's base unit
+  unit?: string; // As entered, when not the base unit
+  unit_quantity?: number;
+}
+
+export interface ConsumableKit extends AuditFields {
+  id: string;
+  tenant_id: string;
+  name: string; // e.g. 'New hire starter kit'
+  description?: string;
+  components: ConsumableKitComponent[];
+  status: 'active' | 'inactive';
+}
+
+export type CostingMethod = 'fifo' | 'weighted_average';
+
+export interface StockCostLayer {
+  quantity: number;
+  unit_cost: number;
+}
+
+export interface StockLot {
+  lot_number: string;
+  quantity: number;
+  expiry_date?: Timestamp;
+  received_at: Timestamp;
+  received_by: string;
+  alerts_sent?: number[]; // Days-before-expiry thresholds already notified
+}
+
+export interface StockLotMovement {
+  lot_number: string;
+  quantity: number;
+  expiry_date?: Timestamp;
+}
+
 export interface OfficeStock {
   id: string;
   tenant_id: string;
   office_id: string;
   consumable_id: string;
   quantity: number;
+  
+  // Costing: running weighted average and the receipts still on hand, oldest first
+  average_cost?: number;
+  cost_layers?: StockCostLayer[];
+  
+  // Lots on hand. Quantity not covered by a lot was received without one.
+  lots?: StockLot[];
+  
   last_restocked?: Timestamp;
   last_issued?: Timestamp;
+  last_counted_at?: Timestamp;
   updated_at: Timestamp;
 }
 
@@ -374,13 +711,24 @@ export type StockTransactionType =
   | 'adjustment'
   | 'return';
 
+export type StockAdjustmentReason =
+  | 'expired'
+  | 'damaged'
+  | 'lost'
+  | 'count_correction'
+  | 'other';
+
 export interface StockTransaction {
   id: string;
   tenant_id: string;
   office_id: string;
   consumable_id: string;
   type: StockTransactionType;
-  quantity: number;
+  quantity: number; // In the consumable's base unit
+  
+  // Unit and quantity as entered, when not the base unit
+  unit?: string;
+  unit_quantity?: number;
   
   // Context
   issued_to?: string; // User ID
@@ -388,11 +736,121 @@ export interface StockTransaction {
   transferred_from_office?: string;
   reference_number?: string;
   notes?: string;
+  reason_code?: StockAdjustmentReason;
+  lots?: StockLotMovement[];
+  stock_transfer_id?: string; // Both legs of an inter-office transfer
+  kit_id?: string; // Every item issued together as a kit
+  
+  // Stock level once this movement was applied
+  balance_after?: number;
+  
+  // Cost per unit and in total, at purchase price for receipts and at the
+  // tenant's costing method for movements out
+  unit_cost?: number;
+  total_cost?: number;
+  
+  // Client-supplied key that makes retries of the same mutation a no-op
+  idempotency_key?: string;
   
   created_at: Timestamp;
   created_by: string;
 }
 
+export type StockTransferStatus = 'in_transit' | 'received' | 'discrepancy';
+
+export interface StockTransfer {
+  id: string;
+  tenant_id: string;
+  transfer_number: string;
+  consumable_id: string;
+  from_office_id: string;
+  to_office_id: string;
+  status: StockTransferStatus;
+  
+  // Dispatched quantity, valued at the cost it left the source office at
+  quantity: number;
+  unit_cost: number;
+  total_cost: number;
+  lots?: StockLotMovement[];
+  notes?: string;
+  out_transaction_id: string;
+  dispatched_at: Timestamp;
+  dispatched_by: string;
+  
+  // Receipt: good units are posted to the destination; damaged and
+  // missing units are recorded here and never enter its stock
+  received_quantity?: number;
+  damaged_quantity?: number;
+  short_quantity?: number;
+  receipt_notes?: string;
+  in_transaction_id?: string;
+  received_at?: Timestamp;
+  received_by?: string;
+}
+
+export interface StockValuationLine {
+  office_id: string;
+  consumable_id: string;
+  category_id: string;
+  quantity: number;
+  unit_cost: number;
+  value: number;
+}
+
+// ==========================================
+// CYCLE COUNTS
+// ==========================================
+
+export type AbcClass = 'A' | 'B' | 'C';
+
+export type CycleCountStatus =
+  | 'open'
+  | 'pending_approval'
+  | 'posted'
+  | 'rejected'
+  | 'cancelled';
+
+// A variance beyond either limit needs approval before it is posted
+export interface CycleCountTolerance {
+  percent: number; // Of the system quantity
+  value: number; // In the tenant currency
+}
+
+export interface CycleCountLine {
+  id: string;
+  consumable_id: string;
+  abc_class: AbcClass;
+  counted_quantity?: number;
+  
+  // Set on submission, against the stock record at that moment
+  expected_quantity?: number;
+  variance?: number;
+  unit_cost?: number;
+  variance_value?: number;
+  requires_approval?: boolean;
+  
+  // Adjustment posted for a non-zero variance
+  stock_transaction_id?: string;
+}
+
+export interface CycleCount extends AuditFields {
+  id: string;
+  tenant_id: string;
+  office_id: string;
+  count_number: string;
+  status: CycleCountStatus;
+  classes: AbcClass[]; // Classes the sheet was generated for
+  lines: CycleCountLine[];
+  notes?: string;
+  
+  counted_at?: Timestamp;
+  counted_by?: string;
+  decided_at?: Timestamp;
+  decided_by?: string;
+  decision_notes?: string;
+  posted_at?: Timestamp;
+}
+
 // ==========================================
 // MAINTENANCE & REPAIRS
 // ==========================================
@@ -436,11 +894,17 @@ export interface MaintenanceTicket extends AuditFields {
   // Assignment
   assigned_to?: string; // Technician ID
   assigned_at?: Timestamp;
+  assignment_reason?: string; // Why the technician was chosen
+  required_skills?: string[]; // Technicians need every one to be assigned
   
   // Vendor
   vendor_id?: string;
   vendor_reference?: string;
   
+  // Warranty claim raised from this ticket
+  warranty_contract_id?: string;
+  warranty_claim_id?: string;
+  
   // Timing
   reported_at: Timestamp;
   reported_by: string;
@@ -450,7 +914,8 @@ export interface MaintenanceTicket extends AuditFields {
   
   // Cost
   estimated_cost?: number;
-  actual_cost?: number;
+  actual_cost?: number; // Includes parts_cost
+  parts_cost?: number;
   currency?: string;
   
   // Resolution
@@ -459,13 +924,63 @@ export interface MaintenanceTicket extends AuditFields {
   
   // Parts used
   parts_used?: MaintenancePart[];
+  
+  // Preventive maintenance and inspections
+  maintenance_plan_id?: string; // Plan that generated this ticket
+  checklist?: MaintenanceChecklistItem[];
+  source_ticket_id?: string; // Ticket whose failed checklist item raised this one
+  
+  // Service level; due_date is the resolution target
+  sla_policy_id?: string;
+  sla_business_hours?: BusinessHours; // Hours the clocks run in, unset for round the clock
+  response_due_at?: Timestamp;
+  responded_at?: Timestamp; // First assignment or start of work
+  sla_paused_at?: Timestamp; // Set while waiting for parts
+  sla_paused_minutes?: number; // Clock minutes spent waiting for parts
+  response_breached?: boolean;
+  resolution_breached?: boolean;
+}
+
+export interface MaintenanceChecklistItem {
+  id: string;
+  label: string;
+  kind?: ChecklistItemKind; // Unset for plain steps that are only ticked off
+  required?: boolean; // Must be filled in before the ticket is completed
+  unit?: string; // Readings
+  min?: number; // Readings below this fail
+  max?: number; // Readings above this fail
+  raise_on_fail?: boolean; // A failed result raises a corrective ticket on completion
+  template_id?: string;
+  done: boolean; // Filled in
+  result?: ChecklistResult;
+  reading?: number;
+  photo_url?: string;
+  photo_path?: string;
+  notes?: string;
+  done_at?: Timestamp;
+  done_by?: string;
+  corrective_ticket_id?: string; // Raised for a failed result
+}
+
+export type ChecklistItemKind = 'pass_fail' | 'reading' | 'photo';
+
+export type ChecklistResult = 'pass' | 'fail';
+
+// What a technician records against one checklist item
+export interface ChecklistEntry {
+  result?: ChecklistResult; // Pass/fail items
+  reading?: number; // Reading items, passed or failed against the thresholds
+  notes?: string;
 }
 
 export interface MaintenancePart {
-  consumable_id?: string;
+  consumable_id?: string; // Set for parts taken from the office's stock
   name: string;
-  quantity: number;
+  quantity: number; // Stock parts in the consumable's base unit
+  unit?: string; // As entered, when not the base unit
+  unit_quantity?: number;
   unit_cost?: number;
+  stock_transaction_id?: string; // Issue that took the part from stock
 }
 
 export interface MaintenanceComment {
@@ -477,6 +992,157 @@ export interface MaintenanceComment {
   created_by: string;
 }
 
+// ==========================================
+// PREVENTIVE MAINTENANCE
+// ==========================================
+
+export type MaintenancePlanTrigger = 'interval_days' | 'usage_hours' | 'calendar';
+
+export type MaintenancePlanStatus = 'active' | 'paused';
+
+export interface MaintenanceCalendarRule {
+  frequency: 'weekly' | 'monthly' | 'yearly';
+  interval: number; // Every N weeks, months or years
+  day_of_week?: number; // Weekly: 0 (Sunday) to 6
+  day_of_month?: number; // Monthly and yearly: 1 to 28
+  month?: number; // Yearly: 1 to 12
+}
+
+// Where a plan is up to for one asset
+export interface MaintenancePlanAssetState {
+  last_due_at?: Timestamp; // Due date of the last ticket generated
+  last_usage_hours?: number; // Reading the last usage-based ticket was raised at
+  last_ticket_id?: string;
+}
+
+export interface MaintenancePlan extends AuditFields {
+  id: string;
+  tenant_id: string;
+  organization_id: string;
+  name: string;
+  description?: string;
+  
+  // Target: one asset, or every asset in a category
+  asset_id?: string;
+  category_id?: string;
+  
+  // Schedule
+  trigger: MaintenancePlanTrigger;
+  interval_days?: number;
+  usage_hours_interval?: number;
+  calendar_rule?: MaintenanceCalendarRule;
+  start_date: Timestamp; // First due date for day and calendar schedules
+  lead_days: number; // Tickets are raised this many days before they are due
+  
+  // Generated tickets
+  priority: MaintenancePriority;
+  assigned_to?: string;
+  checklist: string[];
+  
+  status: MaintenancePlanStatus;
+  asset_states?: Record<string, MaintenancePlanAssetState>;
+}
+
+export interface MaintenanceComplianceSummary {
+  on_time: number;
+  late: number; // Completed after the due date
+  overdue: number; // Still open past the due date
+  upcoming: number; // Open and not yet due
+  compliance_rate: number | null; // Percent on time of those due, null if none were
+}
+
+// ==========================================
+// CHECKLIST TEMPLATES
+// ==========================================
+
+export interface ChecklistTemplateItem {
+  id: string;
+  label: string;
+  kind: ChecklistItemKind;
+  required: boolean;
+  unit?: string; // Readings
+  min?: number;
+  max?: number;
+}
+
+export interface ChecklistTemplate extends AuditFields {
+  id: string;
+  tenant_id: string;
+  name: string;
+  description?: string;
+  
+  // New tickets of these types, or on assets in these categories, get the items
+  ticket_types: MaintenanceType[];
+  category_ids: string[];
+  
+  items: ChecklistTemplateItem[];
+  raise_corrective: boolean; // Failed items raise corrective tickets on completion
+  status: 'active' | 'inactive';
+}
+
+// ==========================================
+// SERVICE LEVELS
+// ==========================================
+
+export interface BusinessHours {
+  timezone: string; // IANA zone, e.g. Europe/London
+  days: number[]; // 0 (Sunday) to 6
+  start: string; // HH:MM
+  end: string; // HH:MM
+}
+
+export interface SlaPolicy extends AuditFields {
+  id: string;
+  tenant_id: string;
+  name: string;
+  priority: MaintenancePriority;
+  type?: MaintenanceType; // Unset applies to every ticket type
+  response_hours: number;
+  resolution_hours: number;
+  business_hours_only: boolean; // Count only the office's business hours
+  status: 'active' | 'inactive';
+}
+
+export interface SlaStatistics {
+  tracked: number; // Tickets with SLA targets
+  response_met: number;
+  response_breached: number;
+  resolution_met: number;
+  resolution_breached: number;
+  open_breached: number; // Still open with a target already missed
+  response_compliance_rate: number | null; // Percent met of those decided
+  resolution_compliance_rate: number | null;
+}
+
+// ==========================================
+// TECHNICIAN ASSIGNMENT
+// ==========================================
+
+export type AssignmentStrategy = 'round_robin' | 'least_loaded';
+
+export interface OfficeAssignmentSettings {
+  strategy: AssignmentStrategy;
+  auto_assign: boolean; // New tickets are assigned as they are raised
+  max_open_tickets?: number; // Technicians at this many are passed over, bar critical tickets
+  last_assigned_to?: string; // Where the rotation is up to
+}
+
+export interface AssignmentCandidate {
+  user_id: string;
+  open_tickets: number;
+  workload: number; // Open tickets weighted by priority
+  missing_skills: string[];
+  eligible: boolean;
+  reason: string; // Why the technician was or was not chosen
+}
+
+export interface AssignmentDecision {
+  technician_id: string | null; // Null when no technician is eligible
+  strategy: AssignmentStrategy;
+  explanation: string;
+  candidates: AssignmentCandidate[]; // The chosen technician first, then the other eligible ones
+}
+
 // ==========================================
 // PROJECTS
 // ==========================================
@@ -584,11 +1250,280 @@ export interface Vendor extends AuditFields {
   tax_id?: string;
   bank_details?: string;
   
+  // Purchasing
+  lead_time_days?: number; // Quoted order-to-delivery time
+  
   // Performance
   rating?: number;
   notes?: string;
 }
 
+// ==========================================
+// WARRANTIES & SERVICE CONTRACTS
+// ==========================================
+
+export type WarrantyCoverageType = 
+  | 'manufacturer'
+  | 'extended'
+  | 'service_contract'
+  | 'support';
+
+export type WarrantyContractStatus = 'active' | 'cancelled';
+
+export interface WarrantyContract extends AuditFields {
+  id: string;
+  tenant_id: string;
+  organization_id: string;
+  
+  contract_number: string;
+  name: string;
+  coverage_type: WarrantyCoverageType;
+  status: WarrantyContractStatus;
+  
+  // Coverage
+  vendor_id?: string;
+  asset_ids: string[];
+  start_date: Timestamp;
+  end_date: Timestamp;
+  coverage_notes?: string;
+  
+  // Cost
+  cost?: number;
+  currency?: string;
+  
+  // SLA
+  sla_terms?: string;
+  response_time_hours?: number;
+  resolution_time_hours?: number;
+  
+  // Expiry alerts go to the owner, or the creator when unset
+  owner_id?: string;
+  alerts_sent?: number[]; // Days-before-expiry thresholds already notified
+  
+  // Claims
+  claim_count?: number;
+  
+  // Cancellation
+  cancelled_at?: Timestamp;
+  cancelled_by?: string;
+}
+
+export type WarrantyClaimStatus = 
+  | 'submitted'
+  | 'approved'
+  | 'rejected'
+  | 'resolved';
+
+export interface WarrantyClaim extends AuditFields {
+  id: string;
+  tenant_id: string;
+  contract_id: string;
+  
+  claim_number: string;
+  description: string;
+  status: WarrantyClaimStatus;
+  
+  // Source
+  asset_id?: string;
+  ticket_id?: string;
+  ticket_number?: string;
+  
+  // Vendor handling
+  vendor_reference?: string;
+  claimed_amount?: number;
+  recovered_amount?: number;
+  resolution_notes?: string;
+  resolved_at?: Timestamp;
+  resolved_by?: string;
+}
+
+// ==========================================
+// STOCK REQUESTS
+// ==========================================
+
+export type StockRequestStatus =
+  | 'submitted'
+  | 'approved'
+  | 'partially_fulfilled'
+  | 'fulfilled'
+  | 'rejected'
+  | 'cancelled';
+
+export interface StockRequestLine {
+  id: string;
+  consumable_id: string;
+  quantity: number; // Requested, in the consumable's base unit
+  unit?: string; // As entered, when not the base unit
+  unit_quantity?: number;
+  approved_quantity?: number; // Set on approval; may be less than requested
+  issued_quantity?: number;
+  stock_transaction_ids?: string[]; // Issues already counted in issued_quantity
+}
+
+export interface StockRequestEvent {
+  status: StockRequestStatus;
+  at: Timestamp;
+  by: string;
+  notes?: string;
+}
+
+export interface StockRequest extends AuditFields {
+  id: string;
+  tenant_id: string;
+  request_number: string;
+  office_id: string; // Requester's primary office, which fulfils the request
+  requested_by: string;
+  status: StockRequestStatus;
+  lines: StockRequestLine[];
+  reason?: string;
+  
+  // Every status change, oldest first
+  history: StockRequestEvent[];
+  
+  decided_by?: string;
+  decided_at?: Timestamp;
+  decision_notes?: string;
+}
+
+// ==========================================
+// PURCHASING
+// ==========================================
+
+export type PurchaseItemType = 'consumable' | 'asset';
+
+export interface PurchaseLine {
+  id: string;
+  item_type: PurchaseItemType;
+  consumable_id?: string; // Consumable lines
+  asset_category_id?: string; // Asset lines; each unit received becomes an asset
+  description: string;
+  quantity: number;
+  unit?: string;
+  unit_cost: number;
+  received_quantity?: number; // Purchase order lines only
+}
+
+export type PurchaseRequisitionStatus = 
+  | 'submitted'
+  | 'approved'
+  | 'rejected'
+  | 'ordered'
+  | 'cancelled';
+
+export interface PurchaseRequisition extends AuditFields {
+  id: string;
+  tenant_id: string;
+  organization_id: string;
+  office_id: string;
+  
+  requisition_number: string;
+  status: PurchaseRequisitionStatus;
+  source: 'low_stock' | 'reorder_plan' | 'manual';
+  
+  // Request
+  lines: PurchaseLine[];
+  vendor_id?: string; // Preferred vendor
+  needed_by?: Timestamp;
+  justification?: string;
+  estimated_total: number;
+  currency: string;
+  
+  // Finance decision
+  decided_by?: string;
+  decided_at?: Timestamp;
+  decision_notes?: string;
+  
+  // Ordering
+  purchase_order_id?: string;
+  purchase_order_number?: string;
+}
+
+export type PurchaseOrderStatus = 
+  | 'issued'
+  | 'partially_received'
+  | 'received'
+  | 'closed'
+  | 'cancelled';
+
+export interface PurchaseOrder extends AuditFields {
+  id: string;
+  tenant_id: string;
+  organization_id: string;
+  office_id: string; // Delivery office
+  
+  po_number: string;
+  status: PurchaseOrderStatus;
+  vendor_id: string;
+  requisition_id?: string;
+  requisition_number?: string;
+  
+  lines: PurchaseLine[];
+  expected_date: Timestamp;
+  total: number;
+  currency: string;
+  notes?: string;
+  
+  // Receiving
+  first_received_at?: Timestamp; // Used to measure vendor lead times
+  last_received_at?: Timestamp;
+  
+  // Short close or cancellation
+  closed_at?: Timestamp;
+  closed_by?: string;
+  close_reason?: string;
+}
+
+export interface ReorderSuggestion {
+  consumable_id: string;
+  office_id: string;
+  vendor_id?: string; // Vendor of the last order for this consumable
+  unit_cost: number; // Last price paid per base unit, 0 if never ordered
+  purchase_unit: string;
+  purchase_factor: number; // Base units in one purchase unit
+  
+  // Position
+  on_hand: number;
+  on_order: number; // Open orders and requisitions not yet delivered
+  
+  // Demand
+  average_daily_usage: number;
+  days_of_cover: number | null; // null when there is no usage
+  lead_time_days: number;
+  lead_time_source: 'history' | 'vendor' | 'default';
+  
+  // Plan
+  reorder_point: number;
+  suggested_quantity: number; // In base units, rounded up to whole purchase units
+}
+
+export interface GoodsReceiptLine {
+  line_id: string;
+  quantity: number;
+  lot_number?: string; // Consumable lines of lot-tracked items
+  expiry_date?: Timestamp;
+  stock_transaction_id?: string; // Consumable lines, once posted
+  asset_ids?: string[]; // Asset lines, once posted
+}
+
+export interface GoodsReceipt {
+  id: string;
+  tenant_id: string;
+  purchase_order_id: string;
+  
+  receipt_number: string;
+  lines: GoodsReceiptLine[];
+  delivery_reference?: string;
+  notes?: string;
+  
+  // Stock and assets are posted after the receipt is recorded; a receipt
+  // left pending by a failed post is retried from the purchase order
+  status: 'pending' | 'posted';
+  posted_at?: Timestamp;
+  
+  received_at: Timestamp;
+  received_by: string;
+}
+
 // ==========================================
 // AUDIT LOG
 // ==========================================
@@ -666,6 +1601,25 @@ export interface Notification {
   created_at: Timestamp;
 }
 
+// ==========================================
+// SCHEDULED JOBS
+// ==========================================
+
+export type ScheduledJobId =
+  | 'warranty_expiry_alerts'
+  | 'lot_expiry_alerts'
+  | 'preventive_tickets'
+  | 'sla_breaches';
+
+// One per job and tenant, so only one client runs a job per interval
+export interface ScheduledJob {
+  id: ScheduledJobId;
+  tenant_id: string;
+  last_started_at?: Timestamp;
+  last_started_by?: string;
+  last_completed_at?: Timestamp;
+}
+
 // ==========================================
 // DASHBOARD & REPORTING
 // ==========================================
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import vue from '@vitejs/plugin-vue'
 import tailwindcss from '@tailwindcss/vite'
@@ -11,4 +12,16 @@ export default defineConfig({
       '@': fileURLToPath(new URL('./src', import.meta.url)),
     },
   },
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node',
+    // Tests run against the Firestore emulator started by `npm test`
+    env: {
+      VITE_FIREBASE_API_KEY: 'demo-api-key',
+      VITE_FIREBASE_PROJECT_ID: 'demo-tenaxis',
+      VITE_USE_EMULATORS: 'true',
+    },
+    testTimeout: 30000,
+    hookTimeout: 30000,
+  },
 })